@@ -19,7 +19,11 @@ filesToRemove.forEach(filePath => {
 });
 const hardhatFolders = [
   "contract/cache",
-  "contract/artifacts"
+  "contract/artifacts",
+  "sdk/dist",
+  "indexer/dist",
+  "indexer/data",
+  "simulator/dist"
 ];
 hardhatFolders.forEach(folderPath => {
   try {
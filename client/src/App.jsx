@@ -1,82 +1,232 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ethers } from 'ethers';
 import { AlertCircle, Users, TrendingUp, CloudRain, Sun, Clock, DollarSign } from 'lucide-react';
-
-const MOCK_USDC_ABI = [
-	"constructor()",
-	"function mint(address to, uint256 amount) external",
-	"function balanceOf(address owner) view returns (uint256)",
-	"function approve(address spender, uint256 amount) returns (bool)",
-	"function decimals() view returns (uint8)"
-];
-
-const MOCK_WEATHER_ORACLE_ABI = [
-	"constructor(int256 _initialWeather)",
-	"function updatePrice(int256 _newWeather) external",
-	"function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
-];
-
-const RAINY_DAY_FUND_ABI = [
-	"constructor(address _usdcAddress, address _weatherOracle)",
-	"function currentSeasonId() view returns (uint256)",
-	"function getSeasonState() view returns (uint8)",
-	"function seasonPolicies(uint256) view returns (uint256 creationTimestamp, uint256 payoutAmount, uint256 premium, uint256 totalPoliciesSold, address policyToken)",
-	"function buyPolicy(uint256 _amount) external returns (uint256)",
-	"function claimPolicies() external",
-	"function invest(uint256 assets) external",
-	"function redeemShares(uint256 shares) external",
-	"function advanceToNextPhase() external",
-	"function startNewSeason(uint256 _premium) external",
-	"function totalAssets() view returns (uint256)",
-	"function balanceOf(address owner) view returns (uint256)",
-	"function getWeatherData() view returns (uint80 roundId, int256 weather, uint256 timestamp)"
-];
-
-const SEASON_POLICY_TOKEN_ABI = [
-	"function balanceOf(address owner) view returns (uint256)"
-];
+import { RainyDaySdk, MockUSDC__factory, MockWeatherOracle__factory, SeasonPolicyToken__factory, decodeRevertReason, formatUsdc, parseUsdc } from '@rainyday/sdk';
 
 const seasonStateNames = ['ACTIVE', 'INACTIVE', 'CLAIM', 'WITHDRAW', 'FINISHED'];
+const triggerDirectionNames = ['BELOW', 'ABOVE'];
+const indexTypeNames = ['LATEST', 'SUM', 'AVERAGE', 'COUNT_BELOW'];
+// Pause flags of the fund, in the order of its PauseFlag enum
+const pauseFlags = [['underwriting', 'Underwriting'], ['claims', 'Claims'], ['withdrawals', 'Withdrawals']];
+const DAY = 24 * 60 * 60;
+// Event history served by the indexer (`npm start` in /indexer)
+const INDEXER_URL = process.env.REACT_APP_INDEXER_URL || 'http://localhost:4000';
+const FARMER_EVENTS = ['PolicyBought', 'ClaimMade'];
+
+// Time left until a phase boundary, e.g. "in 2d 4h 10m"
+const formatCountdown = (seconds) => {
+	if (seconds <= 0) return 'passed';
+	const days = Math.floor(seconds / DAY);
+	const hours = Math.floor((seconds % DAY) / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	return days > 0 ? `in ${days}d ${hours}h ${minutes}m` : `in ${hours}h ${minutes}m ${Math.floor(seconds % 60)}s`;
+};
+
+const formatActivityUsdc = (value) => `${Number(formatUsdc(ethers.toBigInt(value))).toFixed(2)} USDC`;
+
+// Describes an event served by the indexer
+const activityText = ({ name, contract, args }) => {
+	const tranche = contract === 'fund' ? 'junior' : 'senior';
+	switch (name) {
+		case 'PolicyBought':
+			return `Bought ${args.amount} ${args.amount === '1' ? 'policy' : 'policies'} of season ${args.seasonId} for ${formatActivityUsdc(args.totalPremium)}`;
+		case 'ClaimMade':
+			return `Withdrew ${formatActivityUsdc(args.totalPayout)} for ${args.amount} claimed policies of season ${args.seasonId}`;
+		case 'InvestmentMade':
+			return `Invested ${formatActivityUsdc(args.amount)} (junior)`;
+		case 'InvestmentWithdrawn':
+			return `Withdrew ${formatActivityUsdc(args.amount)} (junior)`;
+		case 'Deposit':
+			return `Deposited ${formatActivityUsdc(args.assets)} (${tranche})`;
+		case 'Withdraw':
+			return `Redeemed ${formatActivityUsdc(args.assets)} (${tranche})`;
+		case 'NewSeasonStarted':
+			return `Season ${args.seasonId} opened at ${formatActivityUsdc(args.premium)} premium, ${formatActivityUsdc(args.payoutAmount)} payout`;
+		case 'TimeAdvanced':
+			return `Clock advanced, current season is ${seasonStateNames[Number(args.newState)]}`;
+		default:
+			return name;
+	}
+};
+
+// Newest first. The fund's own ERC4626 Deposit and Withdraw are left out where invest and redeemShares already
+// emitted InvestmentMade or InvestmentWithdrawn in the same transaction.
+const toActivity = (events) => {
+	const wrapped = new Set(events
+		.filter(event => event.name === 'InvestmentMade' || event.name === 'InvestmentWithdrawn')
+		.map(event => event.transactionHash));
+	return events
+		.filter(event => !(event.contract === 'fund' && ['Deposit', 'Withdraw'].includes(event.name) && wrapped.has(event.transactionHash)))
+		.map(event => ({ id: event.id, name: event.name, account: event.accounts[0], timestamp: event.timestamp, text: activityText(event) }))
+		.reverse();
+};
+
+// Parses a tier table like "5:100, 10:50" (bound:payout percent) into contract payout tiers
+const parseTiers = (text) => text
+	.split(',')
+	.map(entry => entry.trim())
+	.filter(entry => entry.length > 0)
+	.map(entry => {
+		const [bound, percent] = entry.split(':').map(part => part.trim());
+		return { bound: Number(bound), payoutBps: Math.round(Number(percent) * 100) };
+	});
 
 export default function TestingInterface() {
 	const [deployed, setDeployed] = useState(false);
 	const [loading, setLoading] = useState(false);
 	const [logs, setLogs] = useState([]);
 
+	// 'sandbox' drives the unlocked Hardhat accounts of the deployment, 'wallet' the account of an injected wallet
+	const [mode, setMode] = useState(null);
 	const [provider, setProvider] = useState(null);
 	const [contracts, setContracts] = useState({});
 	const [accounts, setAccounts] = useState({});
 
+	const [regions, setRegions] = useState([]);
+	const [selectedRegion, setSelectedRegion] = useState(0);
+	// Wallet events arrive outside of React's render cycle and read the region from here
+	const selectedRegionRef = useRef(0);
+
 	const [contractState, setContractState] = useState({
 		currentSeasonId: 0,
 		seasonState: 0,
+		claimSeasonId: 0,
+		claimSeasonState: 0,
 		premium: 0,
 		payoutAmount: 0,
 		totalPoliciesSold: 0,
 		contractBalance: 0,
-		weatherValue: 0
+		seniorBalance: 0,
+		seniorYieldPercent: 0,
+		weatherValue: 0,
+		remainingCapacity: 0,
+		outstandingLiability: 0,
+		lockedCapital: 0,
+		utilizationPercent: 0,
+		keeperReward: 0,
+		// Module that approves every purchase, if the fund has one
+		eligibilityModule: null,
+		regionExposure: 0,
+		regionOpen: true,
+		isBootstrapped: false,
+		totalClaimedPolicies: 0,
+		projectedPayout: 0,
+		claimsSettled: false,
+		weatherFinalized: false,
+		finalizedWeather: 0,
+		finalizedRoundId: 0,
+		finalizedAt: 0,
+		triggerDirection: 0,
+		triggerThreshold: 10,
+		indexType: 0,
+		indexThreshold: 0,
+		outcomePayoutBps: 0,
+		weatherFeeds: [],
+		minFeedQuorum: 1,
+		proposedFeed: null,
+		payoutTiers: [],
+		phaseBoundaries: [],
+		// Contract time (including the testing offset) and the local time it was read at
+		chainTime: 0,
+		fetchedAt: 0,
+		// Fund roles held by the admin account; buttons of the admin panel need the matching role
+		adminRoles: { defaultAdmin: false, seasonManager: false, oracleAdmin: false, pauser: false },
+		paused: { underwriting: false, claims: false, withdrawals: false },
+		emergencyExitOpen: false,
+		// Timelocked parameter changes that have been queued but not yet applied or cancelled
+		pendingChanges: []
+	});
+	// Ticks every second so the phase countdowns stay current between refreshes
+	const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+		return () => clearInterval(timer);
+	}, []);
+
+	// Histories of the current season and of every account, polled from the indexer. The indexer follows the
+	// chain a moment behind, so the feeds are refreshed on their own rather than after each transaction.
+	const [activity, setActivity] = useState({ available: false, season: [], accounts: {} });
+
+	useEffect(() => {
+		if (!deployed) return;
+		const load = async () => {
+			const get = async (route) => {
+				const response = await fetch(`${INDEXER_URL}${route}`);
+				if (!response.ok) throw new Error(`Indexer responded with ${response.status}`);
+				return response.json();
+			};
+			try {
+				const season = await get(`/seasons/${contractState.currentSeasonId}/events?regionId=${selectedRegion}`);
+				const accountActivity = {};
+				for (const [key, signer] of Object.entries(accounts)) {
+					if (key === 'owner') continue;
+					accountActivity[key] = toActivity(await get(`/accounts/${signer.address}/events`));
+				}
+				setActivity({ available: true, season: toActivity(season), accounts: accountActivity });
+			} catch (error) {
+				// Not running; the feeds say so instead of logging on every poll
+				setActivity({ available: false, season: [], accounts: {} });
+			}
+		};
+		load();
+		const timer = setInterval(load, 5000);
+		return () => clearInterval(timer);
+	}, [deployed, accounts, contractState.currentSeasonId, selectedRegion]);
+
+	const [policyAmount, setPolicyAmount] = useState(1);
+	const [premiumQuote, setPremiumQuote] = useState(null);
+
+	const [seasonConfig, setSeasonConfig] = useState({
+		premium: '9',
+		direction: '0',
+		threshold: '10',
+		indexType: '0',
+		indexThreshold: '0',
+		tiers: '',
+		// Phase durations of newly started seasons, in days
+		activeDays: '30',
+		coverageDays: '30',
+		claimDays: '30',
+		withdrawDays: '30'
 	});
 
 	const [balances, setBalances] = useState({
-		farmer1: { usdcBalance: 0, policyTokens: 0, shares: 0 },
-		farmer2: { usdcBalance: 0, policyTokens: 0, shares: 0 },
-		investor1: { usdcBalance: 0, policyTokens: 0, shares: 0 },
-		investor2: { usdcBalance: 0, policyTokens: 0, shares: 0 }
+		farmer1: { usdcBalance: 0, policyTokens: 0, registeredClaims: 0, shares: 0 },
+		farmer2: { usdcBalance: 0, policyTokens: 0, registeredClaims: 0, shares: 0 },
+		investor1: { usdcBalance: 0, policyTokens: 0, registeredClaims: 0, shares: 0, seniorShares: 0, seniorValue: 0 },
+		investor2: { usdcBalance: 0, policyTokens: 0, registeredClaims: 0, shares: 0, seniorShares: 0, seniorValue: 0 }
 	});
 
+	const isTriggered = (value) => contractState.triggerDirection === 0
+		? value < contractState.triggerThreshold
+		: value > contractState.triggerThreshold;
+
 	const addLog = (message, type = 'info') => {
 		const timestamp = new Date().toLocaleTimeString();
 		setLogs(prev => [...prev, { timestamp, message, type }]);
 	};
 
-	const connectToDeployedContracts = async () => {
+	// Reverts are logged with their decoded reason rather than the provider's error message
+	const revertReason = (error) => decodeRevertReason(error, contracts.rainyDayFund ? [contracts.rainyDayFund.interface] : []);
+
+	// Asks the wallet to switch to the chain the contracts were deployed to
+	const ensureWalletChain = async (chainId) => {
+		const expected = ethers.toQuantity(chainId);
+		if ((await window.ethereum.request({ method: 'eth_chainId' })).toLowerCase() === expected) return;
+		addLog(`🔀 Switching wallet to chain ${chainId}...`, 'info');
+		try {
+			await window.ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: expected }] });
+		} catch (error) {
+			throw new Error(`Wallet is not on chain ${chainId}, which the contracts were deployed to`);
+		}
+	};
+
+	const connectToDeployedContracts = async (connectMode) => {
 		try {
 			setLoading(true);
 			addLog('🔌 Connecting to deployed contracts...', 'info');
 
-			const localProvider = new ethers.JsonRpcProvider('http://127.0.0.1:8545');
-			setProvider(localProvider);
-
 			let deploymentInfo;
 			try {
 				const response = await fetch('/deployment-info.json');
@@ -87,41 +237,64 @@ export default function TestingInterface() {
 				throw new Error('Deployment info not found. Run: npx hardhat run scripts/deploy-for-testing.js --network localhost');
 			}
 
-			const owner = await localProvider.getSigner(deploymentInfo.accounts.owner);
-			const farmer1 = await localProvider.getSigner(deploymentInfo.accounts.farmer1);
-			const farmer2 = await localProvider.getSigner(deploymentInfo.accounts.farmer2);
-			const investor1 = await localProvider.getSigner(deploymentInfo.accounts.investor1);
-			const investor2 = await localProvider.getSigner(deploymentInfo.accounts.investor2);
-
-			setAccounts({ owner, farmer1, farmer2, investor1, investor2 });
-			addLog('✅ Connected to local Hardhat network', 'success');
-
-			const mockUSDC = new ethers.Contract(
-				deploymentInfo.contracts.MockUSDC,
-				MOCK_USDC_ABI,
-				localProvider
-			);
-
-			const mockWeatherOracle = new ethers.Contract(
-				deploymentInfo.contracts.MockWeatherOracle,
-				MOCK_WEATHER_ORACLE_ABI,
-				localProvider
-			);
-
-			const rainyDayFund = new ethers.Contract(
-				deploymentInfo.contracts.RainyDayFund,
-				RAINY_DAY_FUND_ABI,
-				localProvider
-			);
+			let localProvider;
+			let accountsObj;
+			if (connectMode === 'wallet') {
+				if (!window.ethereum) {
+					throw new Error('No injected wallet found. Install one such as MetaMask or use the sandbox.');
+				}
+				// The provider caches its network, so it is only created once the wallet is on the right chain
+				await ensureWalletChain(deploymentInfo.chainId);
+				localProvider = new ethers.BrowserProvider(window.ethereum);
+				const signer = await localProvider.getSigner();
+				// The connected account is both the admin and the only farmer and investor
+				accountsObj = { owner: signer, wallet: signer };
+				addLog(`✅ Connected wallet ${signer.address}`, 'success');
+			} else {
+				localProvider = new ethers.JsonRpcProvider('http://127.0.0.1:8545');
+				const owner = await localProvider.getSigner(deploymentInfo.accounts.owner);
+				const farmer1 = await localProvider.getSigner(deploymentInfo.accounts.farmer1);
+				const farmer2 = await localProvider.getSigner(deploymentInfo.accounts.farmer2);
+				const investor1 = await localProvider.getSigner(deploymentInfo.accounts.investor1);
+				const investor2 = await localProvider.getSigner(deploymentInfo.accounts.investor2);
+				accountsObj = { owner, farmer1, farmer2, investor1, investor2 };
+				addLog('✅ Connected to local Hardhat network', 'success');
+			}
+			setProvider(localProvider);
+			setAccounts(accountsObj);
+
+			// The SDK finds the USDC token and senior tranche through the fund; the mocks are only needed for the
+			// faucet and the weather buttons
+			const sdk = await RainyDaySdk.connect(deploymentInfo.contracts.RainyDayFund, localProvider);
+			const mockUSDC = MockUSDC__factory.connect(deploymentInfo.contracts.MockUSDC, localProvider);
+			const mockWeatherOracle = MockWeatherOracle__factory.connect(deploymentInfo.contracts.MockWeatherOracle, localProvider);
 
 			addLog('✅ Connected to deployed contracts', 'success');
 
-			setContracts({ mockUSDC, mockWeatherOracle, rainyDayFund });
+			setContracts({ sdk, mockUSDC, mockWeatherOracle, rainyDayFund: sdk.fund, seniorTranche: sdk.seniorTranche });
+			setMode(connectMode);
 			setDeployed(true);
 
+			if (connectMode === 'wallet') {
+				window.ethereum.on('accountsChanged', async (addresses) => {
+					// Disconnecting the last account returns to the connect screen
+					if (addresses.length === 0) {
+						window.location.reload();
+						return;
+					}
+					const signer = await localProvider.getSigner(addresses[0]);
+					const walletAccounts = { owner: signer, wallet: signer };
+					setAccounts(walletAccounts);
+					addLog(`🔄 Switched to account ${signer.address}`, 'info');
+					await updateAllDataWithContracts(sdk, walletAccounts, localProvider, selectedRegionRef.current);
+				});
+				// Contracts and provider belong to the deployment's chain, so a chain switch starts over
+				window.ethereum.on('chainChanged', () => window.location.reload());
+			}
+
 			// Wait a bit for state to update, then load data
 			setTimeout(async () => {
-				await updateAllDataWithContracts(mockUSDC, rainyDayFund, { owner, farmer1, farmer2, investor1, investor2 }, localProvider);
+				await updateAllDataWithContracts(sdk, accountsObj, localProvider);
 			}, 100);
 
 			addLog('🎉 Ready for testing!', 'success');
@@ -133,66 +306,208 @@ export default function TestingInterface() {
 		}
 	};
 
-	const updateAllData = async () => {
-		if (!contracts.rainyDayFund) return;
-		await updateAllDataWithContracts(contracts.mockUSDC, contracts.rainyDayFund, accounts, provider);
+	const updateAllData = async (regionId = selectedRegion) => {
+		if (!contracts.sdk) return;
+		await updateAllDataWithContracts(contracts.sdk, accounts, provider, regionId);
 	};
 
-	const updateAllDataWithContracts = async (mockUSDC, rainyDayFund, accountsObj, providerObj) => {
-		if (!rainyDayFund || !mockUSDC || !accountsObj || !providerObj) return;
+	const selectRegion = async (regionId) => {
+		setSelectedRegion(regionId);
+		selectedRegionRef.current = regionId;
+		await updateAllData(regionId);
+	};
+
+	const updateAllDataWithContracts = async (sdk, accountsObj, providerObj, regionId = 0) => {
+		if (!sdk?.seniorTranche || !accountsObj || !providerObj) return;
+		const { fund: rainyDayFund, seniorTranche } = sdk;
 
 		try {
+			const regionCount = Number(await rainyDayFund.regionCount());
+			const regionList = [];
+			for (let i = 0; i < regionCount; i++) {
+				const region = await rainyDayFund.regions(i);
+				regionList.push({
+					id: i,
+					name: region.name,
+					active: region.active,
+					minFeedQuorum: Number(region.minFeedQuorum),
+					// Feed the region is being handed over to, once the oracle admin accepts the proposal
+					proposedFeed: region.proposedFeed === ethers.ZeroAddress ? null : region.proposedFeed
+				});
+			}
+			setRegions(regionList);
+
 			const seasonId = await rainyDayFund.currentSeasonId();
-			const seasonState = await rainyDayFund.getSeasonState();
-			const seasonInfo = await rainyDayFund.seasonPolicies(seasonId);
+			const currentSeason = await sdk.seasonInfo(seasonId, regionId);
+			const seasonState = await rainyDayFund.getSeasonState(seasonId);
+			const seasonInfo = await rainyDayFund.seasonPolicies(regionId, seasonId);
+			// Seasons overlap: while the previous season is still in CLAIM or WITHDRAW, claims and
+			// withdrawals belong to it
+			const previousState = seasonId > 1n && seasonState < 2n ? await rainyDayFund.getSeasonState(seasonId - 1n) : 4n;
+			const claimSeasonId = previousState < 4n ? seasonId - 1n : seasonId;
+			const claimSeasonState = previousState < 4n ? previousState : seasonState;
+			const claimSeasonInfo = await rainyDayFund.seasonPolicies(regionId, claimSeasonId);
+			const chainTime = Number(await rainyDayFund.getCurrentTime());
 			const totalAssets = await rainyDayFund.totalAssets();
-			const weatherData = await rainyDayFund.getWeatherData();
+			const seniorAssets = await rainyDayFund.seniorTrancheAssets();
+			const seniorYieldBps = await rainyDayFund.seniorYieldBps();
+			const seniorDecimals = await seniorTranche.decimals();
+			const weatherData = await rainyDayFund.getWeatherData(regionId);
+			const remainingCapacity = await rainyDayFund.remainingCapacity(regionId);
+			const outstandingLiability = await rainyDayFund.outstandingLiability();
+			const lockedCapital = await rainyDayFund.lockedCapital();
+			const utilization = await rainyDayFund.utilization();
+			const keeperReward = await rainyDayFund.keeperReward();
+			const eligibilityModule = await rainyDayFund.eligibilityModule();
+			const regionExposure = await rainyDayFund.regionExposure(regionId);
+			const isBootstrapped = await rainyDayFund.isBootstrapped();
+			const shareDecimals = await rainyDayFund.decimals();
+			const projectedPayout = (await sdk.seasonInfo(claimSeasonId, regionId)).payoutPerPolicy;
+			const payoutTiers = await rainyDayFund.getPayoutTiers(regionId, seasonId);
+			const weatherFeeds = await rainyDayFund.getWeatherFeeds(regionId);
+			const adminAddress = accountsObj.owner.address;
+			const adminRoles = {
+				defaultAdmin: await rainyDayFund.hasRole(await rainyDayFund.DEFAULT_ADMIN_ROLE(), adminAddress),
+				seasonManager: await rainyDayFund.hasRole(await rainyDayFund.SEASON_MANAGER_ROLE(), adminAddress),
+				oracleAdmin: await rainyDayFund.hasRole(await rainyDayFund.ORACLE_ADMIN_ROLE(), adminAddress),
+				pauser: await rainyDayFund.hasRole(await rainyDayFund.PAUSER_ROLE(), adminAddress)
+			};
+			const paused = {};
+			for (const [index, [key]] of pauseFlags.entries()) {
+				paused[key] = (await rainyDayFund.pausedSince(index)) > 0n;
+			}
+			const emergencyExitOpen = await rainyDayFund.emergencyExitOpen();
+			const pendingChanges = [];
+			for (const event of await rainyDayFund.queryFilter(rainyDayFund.filters.ChangeQueued())) {
+				const { id, data } = event.args;
+				const { eta, exitSeason } = await rainyDayFund.queuedChanges(id);
+				// Applied and cancelled changes are removed from the queue; a change queued again is listed once
+				if (eta === 0n || pendingChanges.some(change => change.id === id)) continue;
+				const call = rainyDayFund.interface.parseTransaction({ data });
+				// A change applies once investors could leave during the exit season's WITHDRAW phase
+				const exitFinished = exitSeason <= seasonId && Number(await rainyDayFund.getSeasonState(exitSeason)) === 4;
+				pendingChanges.push({
+					id, data, name: call.name, args: call.args.map(String).join(', '), eta: Number(eta),
+					exitSeason: Number(exitSeason), exitFinished
+				});
+			}
+			// A region only has a policy token once its season has been opened
+			const regionOpen = seasonInfo.policyToken !== ethers.ZeroAddress;
+			const claimSeasonOpen = claimSeasonInfo.policyToken !== ethers.ZeroAddress;
 
 			setContractState({
 				currentSeasonId: Number(seasonId),
 				seasonState: Number(seasonState),
-				premium: Number(ethers.formatUnits(seasonInfo.premium, 6)),
-				payoutAmount: Number(ethers.formatUnits(seasonInfo.payoutAmount, 6)),
+				claimSeasonId: Number(claimSeasonId),
+				claimSeasonState: Number(claimSeasonState),
+				premium: Number(formatUsdc(seasonInfo.premium)),
+				payoutAmount: Number(formatUsdc(seasonInfo.payoutAmount)),
 				totalPoliciesSold: Number(seasonInfo.totalPoliciesSold),
-				contractBalance: Number(ethers.formatUnits(totalAssets, 6)),
-				weatherValue: Number(weatherData.weather)
+				contractBalance: Number(formatUsdc(totalAssets)),
+				seniorBalance: Number(formatUsdc(seniorAssets)),
+				seniorYieldPercent: Number(seniorYieldBps) / 100,
+				weatherValue: Number(weatherData.weather),
+				// MaxUint256 means premiums alone cover the required collateral
+				remainingCapacity: remainingCapacity === ethers.MaxUint256 ? Infinity : Number(remainingCapacity),
+				outstandingLiability: Number(formatUsdc(outstandingLiability)),
+				lockedCapital: Number(formatUsdc(lockedCapital)),
+				utilizationPercent: Number(utilization) / 100,
+				keeperReward: Number(formatUsdc(keeperReward)),
+				eligibilityModule: eligibilityModule === ethers.ZeroAddress ? null : eligibilityModule,
+				regionExposure: Number(formatUsdc(regionExposure)),
+				regionOpen,
+				isBootstrapped,
+				totalClaimedPolicies: Number(claimSeasonInfo.totalClaimedPolicies),
+				projectedPayout: Number(formatUsdc(projectedPayout)),
+				claimPayoutAmount: Number(formatUsdc(claimSeasonInfo.payoutAmount)),
+				claimsSettled: claimSeasonInfo.claimsSettled,
+				weatherFinalized: claimSeasonInfo.weatherFinalized,
+				finalizedWeather: Number(claimSeasonInfo.weather.answer),
+				finalizedRoundId: Number(claimSeasonInfo.weather.roundId),
+				finalizedAt: Number(claimSeasonInfo.weather.timestamp),
+				triggerDirection: Number(seasonInfo.triggerDirection),
+				triggerThreshold: Number(seasonInfo.triggerThreshold),
+				indexType: Number(seasonInfo.indexType),
+				indexThreshold: Number(seasonInfo.indexThreshold),
+				outcomePayoutBps: Number(claimSeasonInfo.outcomePayoutBps),
+				weatherFeeds: [...weatherFeeds],
+				minFeedQuorum: regionList[regionId].minFeedQuorum,
+				proposedFeed: regionList[regionId].proposedFeed,
+				payoutTiers: payoutTiers.map(tier => ({ bound: Number(tier.bound), payoutPercent: Number(tier.payoutBps) / 100 })),
+				// Pausing claims pushes the end of the claim window back
+				phaseBoundaries: [
+					{ label: 'Sales close', timestamp: Number(currentSeason.salesClose) },
+					{ label: 'Coverage ends', timestamp: Number(currentSeason.coverageEnd) },
+					{ label: 'Claims close', timestamp: Number(currentSeason.claimWindowEnd) },
+					{ label: 'Withdrawals close', timestamp: Number(currentSeason.withdrawalsClose) }
+				],
+				chainTime,
+				fetchedAt: Math.floor(Date.now() / 1000),
+				adminRoles,
+				paused,
+				emergencyExitOpen,
+				pendingChanges
 			});
 
-			const policyTokenAddress = seasonInfo.policyToken;
-			const policyToken = new ethers.Contract(policyTokenAddress, SEASON_POLICY_TOKEN_ABI, providerObj);
+			// Farmers hold and claim the policy tokens of the season that takes claims next
+			const policyToken = SeasonPolicyToken__factory.connect(claimSeasonInfo.policyToken, providerObj);
 
 			const newBalances = {};
 			for (const [key, signer] of Object.entries(accountsObj)) {
 				if (key === 'owner') continue;
 
-				const usdcBalance = await mockUSDC.balanceOf(signer.address);
-				const policyTokens = await policyToken.balanceOf(signer.address);
-				const shares = await rainyDayFund.balanceOf(signer.address);
+				const position = await sdk.investorPosition(signer.address);
+				const policyTokens = claimSeasonOpen ? await policyToken.balanceOf(signer.address) : 0;
+				const registeredClaims = await rainyDayFund.registeredClaims(regionId, claimSeasonId, signer.address);
+				const fundAllowance = await sdk.usdc.allowance(signer.address, await rainyDayFund.getAddress());
+				const seniorAllowance = await sdk.usdc.allowance(signer.address, await seniorTranche.getAddress());
 
 				newBalances[key] = {
-					usdcBalance: Number(ethers.formatUnits(usdcBalance, 6)),
+					usdcBalance: Number(formatUsdc(position.usdcBalance)),
 					policyTokens: Number(policyTokens),
-					shares: Number(ethers.formatUnits(shares, 6))
+					registeredClaims: Number(registeredClaims),
+					shares: Number(ethers.formatUnits(position.shares, shareDecimals)),
+					seniorShares: Number(ethers.formatUnits(position.seniorShares, seniorDecimals)),
+					seniorValue: Number(formatUsdc(position.seniorAssets)),
+					fundAllowance: Number(formatUsdc(fundAllowance)),
+					seniorAllowance: Number(formatUsdc(seniorAllowance))
 				};
 			}
 			setBalances(newBalances);
+			await refreshQuote(policyAmount, sdk, regionId);
 			addLog('✅ Data updated successfully', 'info');
 
 		} catch (error) {
 			console.error('Error updating data:', error);
-			addLog(`❌ Error updating data: ${error.message}`, 'error');
+			addLog(`❌ Error updating data: ${revertReason(error)}`, 'error');
 		}
 	};
 
 	const setWeather = async (value) => {
 		try {
 			setLoading(true);
-			const tx = await contracts.mockWeatherOracle.connect(accounts.owner).updatePrice(value);
+			// Demo regions report through a single mock oracle, its first feed
+			const regionOracle = MockWeatherOracle__factory.connect(contractState.weatherFeeds[0], provider);
+			const tx = await regionOracle.connect(accounts.owner).updatePrice(value);
+			await tx.wait();
+			addLog(`🌤️ Weather set to ${value} (${isTriggered(value) ? 'Bad - Payout eligible' : 'Good - No payout'})`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to set weather: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const finalizeWeather = async () => {
+		try {
+			setLoading(true);
+			const tx = await contracts.rainyDayFund.connect(accounts.owner).finalizeSeasonWeather(selectedRegion, contractState.claimSeasonId);
 			await tx.wait();
-			addLog(`🌤️ Weather set to ${value} (${value < 10 ? 'Bad - Payout eligible' : 'Good - No payout'})`, 'success');
+			addLog('🔒 Season weather outcome finalized', 'success');
 			await updateAllData();
 		} catch (error) {
-			addLog(`❌ Failed to set weather: ${error.message}`, 'error');
+			addLog(`❌ Failed to finalize weather: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
@@ -206,22 +521,74 @@ export default function TestingInterface() {
 			await updateAllData();
 			addLog(`⏰ Advanced to next phase`, 'success');
 		} catch (error) {
-			addLog(`❌ Failed to advance phase: ${error.message}`, 'error');
+			addLog(`❌ Failed to advance phase: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
 	};
 
-	const buyPolicy = async (farmerKey, amount) => {
+	const setPaused = async (flag, paused) => {
 		try {
 			setLoading(true);
-			const farmer = accounts[farmerKey];
-			const tx = await contracts.rainyDayFund.connect(farmer).buyPolicy(amount);
+			const tx = await contracts.rainyDayFund.connect(accounts.owner).setPaused(flag, paused);
+			await tx.wait();
+			addLog(`${paused ? '⏸️ Paused' : '▶️ Resumed'} ${pauseFlags[flag][1].toLowerCase()}`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to update pause flag: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	// Quotes the premium for a number of policies at the pool's current utilization
+	const refreshQuote = async (amount, sdk = contracts.sdk, regionId = selectedRegion) => {
+		if (!sdk || !(amount > 0)) {
+			setPremiumQuote(null);
+			return;
+		}
+		try {
+			setPremiumQuote((await sdk.quote(regionId, amount)).premium);
+		} catch (error) {
+			setPremiumQuote(null);
+			console.error('Error quoting premium:', error);
+		}
+	};
+
+	const changePolicyAmount = async (value) => {
+		const amount = Math.max(0, Math.floor(Number(value)));
+		setPolicyAmount(amount);
+		await refreshQuote(amount);
+	};
+
+	// The mock USDC mints to anyone, which gives a fresh wallet something to insure and invest with
+	const mintTestUSDC = async (amount) => {
+		try {
+			setLoading(true);
+			const tx = await contracts.mockUSDC.connect(accounts.wallet).mint(accounts.wallet.address, parseUsdc(amount));
 			await tx.wait();
-			addLog(`✅ ${farmerKey} bought ${amount} policies`, 'success');
+			addLog(`✅ Minted ${amount} test USDC`, 'success');
 			await updateAllData();
 		} catch (error) {
-			addLog(`❌ Failed to buy policy: ${error.message}`, 'error');
+			addLog(`❌ Failed to mint: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const buyPolicy = async (farmerKey) => {
+		try {
+			setLoading(true);
+			const farmer = accounts[farmerKey];
+			// The quoted premium is the most the farmer pays, so the purchase reverts if the price moved
+			// The SDK approves exactly this premium if the farmer's allowance falls short. Sandbox accounts are
+			// approved for MaxUint256 by the deployment script, so only wallets send an approval
+			const maxPremium = premiumQuote ?? (await contracts.sdk.quote(selectedRegion, policyAmount)).premium;
+			await contracts.sdk.withRunner(farmer).buyPolicy(selectedRegion, policyAmount, maxPremium);
+			addLog(`✅ ${farmerKey} bought ${policyAmount} policies for ${formatUsdc(maxPremium)} USDC max`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to buy policy: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
@@ -231,12 +598,25 @@ export default function TestingInterface() {
 		try {
 			setLoading(true);
 			const farmer = accounts[farmerKey];
-			const tx = await contracts.rainyDayFund.connect(farmer).claimPolicies();
-			await tx.wait();
-			addLog(`✅ ${farmerKey} claimed policies`, 'success');
+			await contracts.sdk.withRunner(farmer).claim(selectedRegion, contractState.claimSeasonId);
+			addLog(`✅ ${farmerKey} registered policies for payout`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to claim: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const withdrawClaim = async (farmerKey) => {
+		try {
+			setLoading(true);
+			const farmer = accounts[farmerKey];
+			await contracts.sdk.withRunner(farmer).withdrawPayout(selectedRegion, contractState.claimSeasonId);
+			addLog(`✅ ${farmerKey} withdrew claim payout`, 'success');
 			await updateAllData();
 		} catch (error) {
-			addLog(`❌ Failed to claim: ${error.message}`, 'error');
+			addLog(`❌ Failed to withdraw payout: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
@@ -246,13 +626,11 @@ export default function TestingInterface() {
 		try {
 			setLoading(true);
 			const investor = accounts[investorKey];
-			const amountWei = ethers.parseUnits(amount.toString(), 6);
-			const tx = await contracts.rainyDayFund.connect(investor).invest(amountWei);
-			await tx.wait();
+			await contracts.sdk.withRunner(investor).invest(parseUsdc(amount));
 			addLog(`✅ ${investorKey} invested ${amount} USDC`, 'success');
 			await updateAllData();
 		} catch (error) {
-			addLog(`❌ Failed to invest: ${error.message}`, 'error');
+			addLog(`❌ Failed to invest: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
@@ -262,33 +640,188 @@ export default function TestingInterface() {
 		try {
 			setLoading(true);
 			const investor = accounts[investorKey];
-			const sharesBalance = await contracts.rainyDayFund.balanceOf(investor.address);
-			const tx = await contracts.rainyDayFund.connect(investor).redeemShares(sharesBalance);
+			// Capital backing the running season stays locked, so only the free part can be redeemed
+			const shares = await contracts.rainyDayFund.maxRedeem(investor.address);
+			const tx = await contracts.rainyDayFund.connect(investor).redeemShares(shares);
+			await tx.wait();
+			addLog(`✅ ${investorKey} withdrew their free capital`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to withdraw: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const investSenior = async (investorKey, amount) => {
+		try {
+			setLoading(true);
+			const investor = accounts[investorKey];
+			const amountWei = parseUsdc(amount);
+			if (await contracts.sdk.withRunner(investor).ensureAllowance(contracts.seniorTranche, amountWei)) {
+				addLog(`🔓 Approved ${amount} USDC for the senior tranche`, 'info');
+			}
+			const tx = await contracts.seniorTranche.connect(investor).deposit(amountWei, investor.address);
 			await tx.wait();
-			addLog(`✅ ${investorKey} withdrew all shares`, 'success');
+			addLog(`✅ ${investorKey} invested ${amount} USDC in the senior tranche`, 'success');
 			await updateAllData();
 		} catch (error) {
-			addLog(`❌ Failed to withdraw: ${error.message}`, 'error');
+			addLog(`❌ Failed to invest in the senior tranche: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
 	};
 
+	const withdrawSenior = async (investorKey) => {
+		try {
+			setLoading(true);
+			const investor = accounts[investorKey];
+			const sharesBalance = await contracts.seniorTranche.balanceOf(investor.address);
+			const tx = await contracts.seniorTranche.connect(investor).redeem(sharesBalance, investor.address, investor.address);
+			await tx.wait();
+			addLog(`✅ ${investorKey} withdrew all senior shares`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to withdraw senior shares: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	// Once the pool has investors a timelocked call has to be queued with queueChange first; until then it
+	// applies right away. Returns whether the change was queued.
+	const submitChange = async (method, args) => {
+		const fund = contracts.rainyDayFund.connect(accounts.owner);
+		const data = fund.interface.encodeFunctionData(method, args);
+		if ((await fund.totalSupply()) === 0n && (await fund.seniorAssets()) === 0n) {
+			await (await fund.getFunction(method)(...args)).wait();
+			return false;
+		}
+		await (await fund.queueChange(data)).wait();
+		const { eta, exitSeason } = await fund.queuedChanges(ethers.keccak256(data));
+		addLog(`⏳ ${method} applies after Season ${exitSeason} has finished, not before ${new Date(Number(eta) * 1000).toLocaleString()}`, 'info');
+		return true;
+	};
+
+	// Repeating the queued call once it is due applies the change
+	const applyChange = async (change) => {
+		try {
+			setLoading(true);
+			const tx = await accounts.owner.sendTransaction({ to: await contracts.rainyDayFund.getAddress(), data: change.data });
+			await tx.wait();
+			addLog(`✅ Applied ${change.name}`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to apply ${change.name}: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const cancelChange = async (change) => {
+		try {
+			setLoading(true);
+			const tx = await contracts.rainyDayFund.connect(accounts.owner).cancelChange(change.id);
+			await tx.wait();
+			addLog(`🚫 Cancelled ${change.name}`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to cancel ${change.name}: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const buildSeasonTrigger = () => ({
+		direction: Number(seasonConfig.direction),
+		threshold: Number(seasonConfig.threshold),
+		indexType: Number(seasonConfig.indexType),
+		indexThreshold: Number(seasonConfig.indexThreshold),
+		tiers: parseTiers(seasonConfig.tiers)
+	});
+
+	const buildPhaseDurations = () => ({
+		active: Math.round(Number(seasonConfig.activeDays) * DAY),
+		coverage: Math.round(Number(seasonConfig.coverageDays) * DAY),
+		claim: Math.round(Number(seasonConfig.claimDays) * DAY),
+		withdraw: Math.round(Number(seasonConfig.withdrawDays) * DAY)
+	});
+
 	const startNewSeason = async () => {
 		try {
 			setLoading(true);
-			const newPremium = ethers.parseUnits('9', 6); // 9 USDC
-			const tx = await contracts.rainyDayFund.connect(accounts.owner).startNewSeason(newPremium);
+			const newPremium = parseUsdc(seasonConfig.premium);
+			const trigger = buildSeasonTrigger();
+			// Once coverage is over the fund moves to the next season, otherwise the region joins the current one
+			const startsNextSeason = contractState.seasonState >= 2;
+			const queued = startsNextSeason
+				? await submitChange('startNewSeason', [selectedRegion, newPremium, trigger, buildPhaseDurations()])
+				: await submitChange('openRegionSeason', [selectedRegion, newPremium, trigger]);
+			const seasonId = contractState.currentSeasonId + (startsNextSeason ? 1 : 0);
+			const action = queued ? 'Queued start of' : 'Started';
+			addLog(`✅ ${action} Season ${seasonId} in ${regions[selectedRegion]?.name} (${seasonConfig.premium} USDC, payout ${triggerDirectionNames[trigger.direction]} ${seasonConfig.threshold})`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to start new season: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	// Queued parameters are picked up by every following rollSeason until replaced
+	const queueSeason = async () => {
+		try {
+			setLoading(true);
+			const newPremium = parseUsdc(seasonConfig.premium);
+			const trigger = buildSeasonTrigger();
+			const queued = await submitChange('queueSeason', [selectedRegion, newPremium, trigger]);
+			const action = queued ? 'Announced' : 'Queued';
+			addLog(`✅ ${action} ${seasonConfig.premium} USDC, payout ${triggerDirectionNames[trigger.direction]} ${seasonConfig.threshold} for ${regions[selectedRegion]?.name}`, 'success');
+			await updateAllData();
+		} catch (error) {
+			addLog(`❌ Failed to queue season: ${revertReason(error)}`, 'error');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	// Anyone can roll over once the season's coverage is over; the keeper earns the keeper reward
+	const rollSeason = async (keeperKey) => {
+		try {
+			setLoading(true);
+			const tx = await contracts.rainyDayFund.connect(accounts[keeperKey]).rollSeason();
 			await tx.wait();
-			addLog(`✅ Started Season ${contractState.currentSeasonId + 1}`, 'success');
+			addLog(`✅ ${keeperKey} rolled over to Season ${contractState.currentSeasonId + 1}`, 'success');
 			await updateAllData();
 		} catch (error) {
-			addLog(`❌ Failed to start new season: ${error.message}`, 'error');
+			addLog(`❌ Failed to roll season: ${revertReason(error)}`, 'error');
 		} finally {
 			setLoading(false);
 		}
 	};
 
+	// The sandbox has two farmers and two investors; in wallet mode the connected account plays both parts
+	const farmerKeys = mode === 'wallet' ? ['wallet'] : ['farmer1', 'farmer2'];
+	const investorKeys = mode === 'wallet' ? ['wallet'] : ['investor1', 'investor2'];
+	const accountLabel = (key) => key === 'wallet'
+		? `Your Wallet (${accounts.wallet?.address.slice(0, 10)}...)`
+		: key.charAt(0).toUpperCase() + key.slice(1);
+	// Name of a known account in the activity feeds
+	const activityAccount = (address) => {
+		const entry = Object.entries(accounts).find(([key, signer]) => key !== 'owner' && signer.address.toLowerCase() === address);
+		return entry ? accountLabel(entry[0]) : `${address.slice(0, 10)}...`;
+	};
+	const activityList = (items) => (
+		<div className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+		{items.length === 0 && <p className="text-gray-500">{activity.available ? 'No activity yet' : `Indexer not reachable at ${INDEXER_URL}`}</p>}
+		{items.map(item => (
+			<div key={item.id} className="p-1 bg-white rounded">
+			<span className="text-gray-500">{new Date(item.timestamp * 1000).toLocaleString()}</span> {item.text}
+			</div>
+		))}
+		</div>
+	);
+
 	if (!deployed) {
 		return (
 			<div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-b from-blue-500 to-blue-200 px-4">
@@ -305,11 +838,21 @@ export default function TestingInterface() {
 			<AlertCircle className="w-16 h-16 text-blue-500 mx-auto mb-4" />
 			<h2 className="text-2xl font-bold text-gray-800 mb-4">Ready to Deploy</h2>
 			<button
-			onClick={connectToDeployedContracts}
-			disabled={loading}
+			onClick={() => connectToDeployedContracts('wallet')}
+			disabled={loading || !window.ethereum}
 			className="w-full py-3 bg-blue-600 text-white font-semibold rounded-2xl shadow-md hover:bg-blue-700 transition-all duration-300 disabled:opacity-50"
 			>
-			{loading ? 'Connecting...' : 'Connect to Contracts'}
+			{loading ? 'Connecting...' : 'Connect Wallet'}
+			</button>
+			{!window.ethereum && (
+				<p className="text-xs text-gray-500 mt-2">No injected wallet found in this browser</p>
+			)}
+			<button
+			onClick={() => connectToDeployedContracts('sandbox')}
+			disabled={loading}
+			className="w-full mt-3 py-3 bg-gray-600 text-white font-semibold rounded-2xl shadow-md hover:bg-gray-700 transition-all duration-300 disabled:opacity-50"
+			>
+			{loading ? 'Connecting...' : 'Sandbox (Hardhat Accounts)'}
 			</button>
 			</div>
 			</div>
@@ -323,7 +866,38 @@ export default function TestingInterface() {
 		<h1 className="text-4xl font-extrabold text-center text-white mb-2">
 		RainyDayFund Testing Interface
 		</h1>
-		<p className="text-center text-white mb-8">Season {contractState.currentSeasonId} - {seasonStateNames[contractState.seasonState]} Phase</p>
+		<div className="flex justify-center items-center gap-2 text-white mb-8">
+		<label htmlFor="region-select">Region</label>
+		<select
+		id="region-select"
+		value={selectedRegion}
+		onChange={(e) => selectRegion(Number(e.target.value))}
+		className="px-2 py-1 rounded text-gray-800"
+		>
+		{regions.map(region => (
+			<option key={region.id} value={region.id}>
+			{region.name}{region.active ? '' : ' (inactive)'}
+			</option>
+		))}
+		</select>
+		<span>
+		Season {contractState.currentSeasonId} - {seasonStateNames[contractState.seasonState]} Phase
+		{contractState.claimSeasonId !== contractState.currentSeasonId && ` · Season ${contractState.claimSeasonId} - ${seasonStateNames[contractState.claimSeasonState]}`}
+		{!contractState.regionOpen && ' · not open in this region'}
+		</span>
+		</div>
+		{mode === 'wallet' && (
+			<div className="flex justify-center items-center gap-2 text-white -mt-6 mb-8 text-sm">
+			<span className="font-mono">{accounts.wallet?.address}</span>
+			<button
+			onClick={() => mintTestUSDC(1000)}
+			disabled={loading}
+			className="px-2 py-1 bg-white text-blue-700 rounded hover:bg-blue-50 disabled:opacity-50"
+			>
+			Get 1000 Test USDC
+			</button>
+			</div>
+		)}
 
 		<div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
 		{/* Admin Controls */}
@@ -332,12 +906,18 @@ export default function TestingInterface() {
 		<Settings className="w-6 h-6 mr-2" />
 		Admin Controls
 		</h2>
+		<p className="text-xs text-gray-600 mb-4">
+		Roles: {[['defaultAdmin', 'Default admin'], ['seasonManager', 'Season manager'], ['oracleAdmin', 'Oracle admin'], ['pauser', 'Pauser']]
+			.filter(([key]) => contractState.adminRoles[key])
+			.map(([, label]) => label)
+			.join(', ') || 'none'}
+		</p>
 
 		{/* Weather Control */}
 		<div className="mb-6">
 		<h3 className="font-semibold mb-2 flex items-center">
-		{contractState.weatherValue < 10 ? <Sun className="w-4 h-4 mr-1" /> : <CloudRain className="w-4 h-4 mr-1" />}
-		Weather: {contractState.weatherValue} {contractState.weatherValue < 10 ? '(Bad)' : '(Good)'}
+		{isTriggered(contractState.weatherValue) ? <Sun className="w-4 h-4 mr-1" /> : <CloudRain className="w-4 h-4 mr-1" />}
+		Weather: {contractState.weatherValue} {isTriggered(contractState.weatherValue) ? '(Bad)' : '(Good)'}
 		</h3>
 		<div className="flex gap-2">
 		<button
@@ -355,8 +935,74 @@ export default function TestingInterface() {
 		Good (15)
 		</button>
 		</div>
+		{contractState.claimSeasonState === 2 && !contractState.weatherFinalized && (
+			<button
+			onClick={finalizeWeather}
+			disabled={loading || contractState.paused.claims}
+			className="mt-2 w-full py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+			>
+			Finalize Season {contractState.claimSeasonId} Weather
+			</button>
+		)}
+		</div>
+
+		{/* Guardian */}
+		<div className="mb-6">
+		<h3 className="font-semibold mb-2">Guardian</h3>
+		<div className="flex gap-2">
+		{pauseFlags.map(([key, label], flag) => (
+			<button
+			key={key}
+			onClick={() => setPaused(flag, !contractState.paused[key])}
+			disabled={loading || !contractState.adminRoles.pauser}
+			className={`flex-1 px-2 py-1 text-white rounded text-sm disabled:opacity-50 ${contractState.paused[key] ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+			>
+			{contractState.paused[key] ? 'Resume' : 'Pause'} {label}
+			</button>
+		))}
+		</div>
+		{contractState.emergencyExitOpen && (
+			<p className="mt-2 text-xs text-red-600">Emergency exit open: investors can withdraw their free capital</p>
+		)}
 		</div>
 
+		{/* Pending Changes */}
+		{contractState.pendingChanges.length > 0 && (
+			<div className="mb-6">
+			<h3 className="font-semibold mb-2">Pending Changes</h3>
+			<div className="space-y-2">
+			{contractState.pendingChanges.map(change => {
+				const remaining = change.eta - contractState.chainTime - (now - contractState.fetchedAt);
+				return (
+					<div key={change.id} className="p-2 bg-gray-50 rounded text-sm">
+					<div className="font-semibold">{change.name}</div>
+					<div className="text-xs text-gray-600 break-all">{change.args}</div>
+					<div className="text-xs mb-1">
+					ETA {new Date(change.eta * 1000).toLocaleString()} ({formatCountdown(remaining)}), after Season {change.exitSeason} has finished
+					</div>
+					<div className="flex gap-2">
+					<button
+					onClick={() => applyChange(change)}
+					disabled={loading || remaining > 0 || !change.exitFinished}
+					className="flex-1 px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+					>
+					Apply
+					</button>
+					<button
+					onClick={() => cancelChange(change)}
+					disabled={loading}
+					className="flex-1 px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+					>
+					Cancel
+					</button>
+					</div>
+					</div>
+				);
+			})}
+			</div>
+			</div>
+		)}
+
 		{/* Phase Control */}
 		{contractState.seasonState !== 4 && (
 			<div className="mb-6">
@@ -366,7 +1012,7 @@ export default function TestingInterface() {
 			</h3>
 			<button
 			onClick={advancePhase}
-			disabled={loading}
+			disabled={loading || !contractState.adminRoles.seasonManager}
 			className="w-full py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
 			>
 			Advance to Next Phase
@@ -374,18 +1020,122 @@ export default function TestingInterface() {
 			</div>
 		)}
 
-		{/* Season Control */}
-		{contractState.seasonState === 4 && (
+		{contractState.seasonState >= 2 && (
 			<div className="mb-4">
 			<button
-			onClick={startNewSeason}
+			onClick={() => rollSeason(farmerKeys[0])}
 			disabled={loading}
-			className="w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+			className="w-full py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
 			>
-			Start New Season
+			Roll Season{mode === 'wallet' ? '' : ' as Farmer1'} (earns {contractState.keeperReward.toFixed(2)} USDC)
 			</button>
 			</div>
 		)}
+
+		{/* Season Control */}
+		<div className="mb-4 space-y-2">
+		<h3 className="font-semibold">Season Parameters for {regions[selectedRegion]?.name}</h3>
+		<label className="flex justify-between items-center text-sm">
+		<span>Premium (USDC)</span>
+		<input
+		type="number"
+		min="0"
+		value={seasonConfig.premium}
+		onChange={(e) => setSeasonConfig({ ...seasonConfig, premium: e.target.value })}
+		className="w-24 px-2 py-1 border rounded"
+		/>
+		</label>
+		<label className="flex justify-between items-center text-sm">
+		<span>Pay out when weather is</span>
+		<select
+		value={seasonConfig.direction}
+		onChange={(e) => setSeasonConfig({ ...seasonConfig, direction: e.target.value })}
+		className="w-24 px-2 py-1 border rounded"
+		>
+		<option value="0">below</option>
+		<option value="1">above</option>
+		</select>
+		</label>
+		<label className="flex justify-between items-center text-sm">
+		<span>Threshold</span>
+		<input
+		type="number"
+		value={seasonConfig.threshold}
+		onChange={(e) => setSeasonConfig({ ...seasonConfig, threshold: e.target.value })}
+		className="w-24 px-2 py-1 border rounded"
+		/>
+		</label>
+		<label className="flex justify-between items-center text-sm">
+		<span>Measured on</span>
+		<select
+		value={seasonConfig.indexType}
+		onChange={(e) => setSeasonConfig({ ...seasonConfig, indexType: e.target.value })}
+		className="w-24 px-2 py-1 border rounded"
+		>
+		<option value="0">latest</option>
+		<option value="1">sum</option>
+		<option value="2">average</option>
+		<option value="3">days below</option>
+		</select>
+		</label>
+		{seasonConfig.indexType === '3' && (
+			<label className="flex justify-between items-center text-sm">
+			<span>Count readings below</span>
+			<input
+			type="number"
+			value={seasonConfig.indexThreshold}
+			onChange={(e) => setSeasonConfig({ ...seasonConfig, indexThreshold: e.target.value })}
+			className="w-24 px-2 py-1 border rounded"
+			/>
+			</label>
+		)}
+		<label className="block text-sm">
+		<span>Payout tiers (bound:percent, optional)</span>
+		<input
+		type="text"
+		placeholder="5:100, 10:50"
+		value={seasonConfig.tiers}
+		onChange={(e) => setSeasonConfig({ ...seasonConfig, tiers: e.target.value })}
+		className="w-full mt-1 px-2 py-1 border rounded"
+		/>
+		</label>
+		{contractState.seasonState >= 2 && (
+			<div className="text-sm">
+			<span>Phase durations of the new season (days)</span>
+			<div className="grid grid-cols-4 gap-1 mt-1">
+			{[['activeDays', 'Sales'], ['coverageDays', 'Coverage'], ['claimDays', 'Claims'], ['withdrawDays', 'Withdraw']].map(([key, label]) => (
+				<label key={key} className="text-xs text-gray-600">
+				{label}
+				<input
+				type="number"
+				min="0"
+				step="0.01"
+				value={seasonConfig[key]}
+				onChange={(e) => setSeasonConfig({ ...seasonConfig, [key]: e.target.value })}
+				className="w-full px-1 py-1 border rounded"
+				/>
+				</label>
+			))}
+			</div>
+			</div>
+		)}
+		<button
+		onClick={queueSeason}
+		disabled={loading || !contractState.adminRoles.seasonManager}
+		className="w-full py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+		>
+		Queue for Next Seasons
+		</button>
+		{(contractState.seasonState >= 2 || (contractState.seasonState === 0 && !contractState.regionOpen)) && (
+			<button
+			onClick={startNewSeason}
+			disabled={loading || !contractState.adminRoles.seasonManager}
+			className="w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+			>
+			{contractState.seasonState >= 2 ? 'Start New Season' : 'Open Current Season'}
+			</button>
+		)}
+		</div>
 		</div>
 
 		{/* Contract State */}
@@ -412,27 +1162,104 @@ export default function TestingInterface() {
 		{seasonStateNames[contractState.seasonState]}
 		</span>
 		</div>
+		{contractState.phaseBoundaries.map(boundary => (
+			<div key={boundary.label} className="flex justify-between text-sm">
+			<span className="font-semibold">{boundary.label}:</span>
+			<span>
+			{new Date(boundary.timestamp * 1000).toLocaleString()} ({formatCountdown(boundary.timestamp - contractState.chainTime - (now - contractState.fetchedAt))})
+			</span>
+			</div>
+		))}
 		<div className="flex justify-between">
 		<span className="font-semibold">Premium:</span>
 		<span>{contractState.premium} USDC</span>
 		</div>
 		<div className="flex justify-between">
+		<span className="font-semibold">Eligibility:</span>
+		<span className={contractState.eligibilityModule ? 'font-mono' : ''}>
+		{contractState.eligibilityModule ? `${contractState.eligibilityModule.slice(0, 10)}...` : 'Open to all farmers'}
+		</span>
+		</div>
+		<div className="flex justify-between">
 		<span className="font-semibold">Payout:</span>
 		<span>{contractState.payoutAmount} USDC</span>
 		</div>
 		<div className="flex justify-between">
+		<span className="font-semibold">Trigger:</span>
+		<span>
+		{indexTypeNames[contractState.indexType]}{contractState.indexType === 3 && ` ${contractState.indexThreshold}`} {triggerDirectionNames[contractState.triggerDirection]} {contractState.triggerThreshold}
+		{contractState.payoutTiers.length > 0 && ` (${contractState.payoutTiers.map(tier => `${tier.bound}: ${tier.payoutPercent}%`).join(', ')})`}
+		</span>
+		</div>
+		<div className="flex justify-between">
+		<span className="font-semibold">Weather Feeds:</span>
+		<span>{contractState.weatherFeeds.length} (median, quorum {contractState.minFeedQuorum})</span>
+		</div>
+		{contractState.proposedFeed && (
+			<div className="flex justify-between text-sm">
+			<span className="font-semibold">Proposed Feed:</span>
+			<span className="font-mono">{contractState.proposedFeed.slice(0, 10)}...</span>
+			</div>
+		)}
+		<div className="flex justify-between">
+		<span className="font-semibold">Season Outcome:</span>
+		<span>
+		{contractState.weatherFinalized
+			? `${contractState.finalizedWeather} (${contractState.outcomePayoutBps / 100}% payout) · round ${contractState.finalizedRoundId} · ${new Date(contractState.finalizedAt * 1000).toLocaleString()}`
+			: 'Not finalized'}
+		</span>
+		</div>
+		<div className="flex justify-between">
 		<span className="font-semibold">Policies Sold:</span>
 		<span>{contractState.totalPoliciesSold}</span>
 		</div>
+		{contractState.claimSeasonState >= 2 && (
+			<div className="flex justify-between">
+			<span className="font-semibold">Season {contractState.claimSeasonId} {contractState.claimsSettled ? 'Settled Payout:' : 'Projected Payout:'}</span>
+			<span>
+			{contractState.projectedPayout.toFixed(2)} USDC / policy
+			{contractState.claimPayoutAmount > 0 && contractState.projectedPayout < contractState.claimPayoutAmount && (
+				<span className="ml-1 text-red-600">
+				(-{((1 - contractState.projectedPayout / contractState.claimPayoutAmount) * 100).toFixed(1)}%)
+				</span>
+			)}
+			</span>
+			</div>
+		)}
+		<div className="flex justify-between">
+		<span className="font-semibold">Region Exposure:</span>
+		<span>{contractState.regionExposure.toFixed(2)} USDC</span>
+		</div>
+		<div className="flex justify-between">
+		<span className="font-semibold">Outstanding Liability (all regions):</span>
+		<span>{contractState.outstandingLiability.toFixed(2)} USDC</span>
+		</div>
+		<div className="flex justify-between">
+		<span className="font-semibold">Locked Capital:</span>
+		<span>{contractState.lockedCapital.toFixed(2)} USDC</span>
+		</div>
+		<div className="flex justify-between">
+		<span className="font-semibold">Pool Utilization:</span>
+		<span>{contractState.utilizationPercent.toFixed(2)}%</span>
+		</div>
+		<div className="flex justify-between">
+		<span className="font-semibold">Remaining Capacity:</span>
+		<span>{contractState.remainingCapacity === Infinity ? 'Unlimited' : `${contractState.remainingCapacity} policies`}</span>
+		</div>
 		<div className="border-t pt-2">
 		<div className="flex justify-between font-bold">
-		<span>Risk Pool:</span>
+		<span>Risk Pool (junior):</span>
 		<span>{contractState.contractBalance.toFixed(2)} USDC</span>
 		</div>
+		<div className="flex justify-between font-bold">
+		<span>Senior Tranche ({contractState.seniorYieldPercent}% yield):</span>
+		<span>{contractState.seniorBalance.toFixed(2)} USDC</span>
+		</div>
 		</div>
 		</div>
 		</div>
 
+		<div className="space-y-6">
 		{/* Activity Log */}
 		<div className="bg-white rounded-3xl p-6 shadow-2xl">
 		<h2 className="text-2xl font-bold text-gray-800 mb-4">Activity Log</h2>
@@ -448,6 +1275,15 @@ export default function TestingInterface() {
 		))}
 		</div>
 		</div>
+
+		{/* Season history from the indexer */}
+		<div className="bg-white rounded-3xl p-6 shadow-2xl">
+		<h2 className="text-2xl font-bold text-gray-800 mb-4">Season {contractState.currentSeasonId} History ({regions[selectedRegion]?.name})</h2>
+		{activityList(activity.season.map(item => item.account
+			? { ...item, text: `${activityAccount(item.account)}: ${item.text}` }
+			: item))}
+		</div>
+		</div>
 		</div>
 
 		{/* Address Balances and Actions */}
@@ -459,9 +1295,36 @@ export default function TestingInterface() {
 		Farmers
 		</h2>
 
-		{['farmer1', 'farmer2'].map((farmerKey) => (
+		{contractState.seasonState === 0 && contractState.regionOpen && (
+			<div className="mb-4 p-4 bg-green-50 rounded-lg text-sm">
+			<div className="flex items-center justify-between gap-2">
+			<label htmlFor="policyAmount" className="font-semibold">Policies to buy:</label>
+			<input
+			id="policyAmount"
+			type="number"
+			min="1"
+			value={policyAmount}
+			onChange={(e) => changePolicyAmount(e.target.value)}
+			className="w-24 px-2 py-1 border rounded"
+			/>
+			</div>
+			<div className="flex justify-between mt-2">
+			<span>Live Quote:</span>
+			<span>
+			{premiumQuote === null
+				? '-'
+				: `${Number(formatUsdc(premiumQuote)).toFixed(2)} USDC (${(Number(formatUsdc(premiumQuote)) / policyAmount).toFixed(4)} per policy)`}
+			</span>
+			</div>
+			<p className="text-xs text-gray-500 mt-1">
+			Pool utilization {contractState.utilizationPercent.toFixed(2)}%; premiums rise above the kink of the pricing curve
+			</p>
+			</div>
+		)}
+
+		{farmerKeys.map((farmerKey) => (
 			<div key={farmerKey} className="mb-6 p-4 bg-gray-50 rounded-lg">
-			<h3 className="font-bold mb-2">{farmerKey.charAt(0).toUpperCase() + farmerKey.slice(1)}</h3>
+			<h3 className="font-bold mb-2">{accountLabel(farmerKey)}</h3>
 			<div className="text-sm space-y-1 mb-3">
 			<div className="flex justify-between">
 			<span>USDC Balance:</span>
@@ -471,35 +1334,59 @@ export default function TestingInterface() {
 			<span>Policy Tokens:</span>
 			<span>{balances[farmerKey]?.policyTokens || 0}</span>
 			</div>
+			<div className="flex justify-between">
+			<span>Registered Claims:</span>
+			<span>{balances[farmerKey]?.registeredClaims || 0}</span>
+			</div>
+			{mode === 'wallet' && (
+				<div className="flex justify-between">
+				<span>Approved for Fund:</span>
+				<span>{balances[farmerKey]?.fundAllowance?.toFixed(2) || '0'} USDC</span>
+				</div>
+			)}
 			</div>
+			<details className="mb-3 text-sm">
+			<summary className="cursor-pointer font-semibold">Policy History</summary>
+			{activityList((activity.accounts[farmerKey] || []).filter(item => FARMER_EVENTS.includes(item.name)))}
+			</details>
 
 			<div className="space-y-2">
 			{contractState.seasonState === 0 && (
-				<div className="flex gap-1">
+				<p className="text-xs text-gray-500">
+				{!contractState.isBootstrapped
+					? 'Waiting for investors to bootstrap the pool'
+					: contractState.remainingCapacity === Infinity
+						? 'No capacity limit'
+						: `${contractState.remainingCapacity} policies left in the pool`}
+				</p>
+			)}
+			{contractState.seasonState === 0 && contractState.regionOpen && (
 				<button
-				onClick={() => buyPolicy(farmerKey, 1)}
-				disabled={loading}
+				onClick={() => buyPolicy(farmerKey)}
+				disabled={loading || contractState.paused.underwriting || !contractState.isBootstrapped || policyAmount < 1 || contractState.remainingCapacity < policyAmount}
 				className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
 				>
-				Buy 1 Policy
+				Buy {policyAmount} {policyAmount === 1 ? 'Policy' : 'Policies'}
 				</button>
+			)}
+
+			{contractState.claimSeasonState === 2 && balances[farmerKey]?.policyTokens > 0 && (
 				<button
-				onClick={() => buyPolicy(farmerKey, 3)}
-				disabled={loading}
-				className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+				onClick={() => claimPolicies(farmerKey)}
+				disabled={loading || contractState.paused.claims}
+				className="w-full py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50"
 				>
-				Buy 3 Policies
+				Claim Season {contractState.claimSeasonId} Policies
 				</button>
-				</div>
 			)}
 
-			{contractState.seasonState === 2 && balances[farmerKey]?.policyTokens > 0 && (
+			{contractState.claimSeasonState >= 3 && balances[farmerKey]?.registeredClaims > 0 && (
 				<button
-				onClick={() => claimPolicies(farmerKey)}
-				disabled={loading}
+				onClick={() => withdrawClaim(farmerKey)}
+				disabled={loading || contractState.paused.claims}
 				className="w-full py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50"
 				>
-				Claim Policies
+				Withdraw Payout ({(balances[farmerKey].registeredClaims * contractState.projectedPayout).toFixed(2)} USDC)
 				</button>
 			)}
 			</div>
@@ -514,47 +1401,78 @@ export default function TestingInterface() {
 		Investors
 		</h2>
 
-		{['investor1', 'investor2'].map((investorKey) => (
+		{investorKeys.map((investorKey) => (
 			<div key={investorKey} className="mb-6 p-4 bg-gray-50 rounded-lg">
-			<h3 className="font-bold mb-2">{investorKey.charAt(0).toUpperCase() + investorKey.slice(1)}</h3>
+			<h3 className="font-bold mb-2">{accountLabel(investorKey)}</h3>
 			<div className="text-sm space-y-1 mb-3">
 			<div className="flex justify-between">
 			<span>USDC Balance:</span>
 			<span>{balances[investorKey]?.usdcBalance?.toFixed(2) || '0'}</span>
 			</div>
 			<div className="flex justify-between">
-			<span>Investor Shares:</span>
+			<span>Junior Shares:</span>
 			<span>{balances[investorKey]?.shares?.toFixed(4) || '0'}</span>
 			</div>
+			<div className="flex justify-between">
+			<span>Senior Shares:</span>
+			<span>{balances[investorKey]?.seniorShares?.toFixed(4) || '0'} ({balances[investorKey]?.seniorValue?.toFixed(2) || '0'} USDC)</span>
+			</div>
+			{mode === 'wallet' && (
+				<div className="flex justify-between">
+				<span>Approved for Senior Tranche:</span>
+				<span>{balances[investorKey]?.seniorAllowance?.toFixed(2) || '0'} USDC</span>
+				</div>
+			)}
 			</div>
+			<details className="mb-3 text-sm">
+			<summary className="cursor-pointer font-semibold">Investment History</summary>
+			{activityList((activity.accounts[investorKey] || []).filter(item => !FARMER_EVENTS.includes(item.name)))}
+			</details>
 
 			<div className="space-y-2">
-			{(contractState.seasonState === 0 || contractState.seasonState === 1) && (
+			{contractState.seasonState <= 1 && contractState.claimSeasonState !== 2 && (
 				<div className="flex gap-1">
 				<button
 				onClick={() => invest(investorKey, 100)}
-				disabled={loading}
+				disabled={loading || contractState.paused.underwriting}
 				className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
 				>
 				Invest 100
 				</button>
 				<button
 				onClick={() => invest(investorKey, 500)}
-				disabled={loading}
+				disabled={loading || contractState.paused.underwriting}
 				className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
 				>
 				Invest 500
 				</button>
+				<button
+				onClick={() => investSenior(investorKey, 500)}
+				disabled={loading || contractState.paused.underwriting}
+				className="px-3 py-1 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700 disabled:opacity-50"
+				>
+				Senior 500
+				</button>
 				</div>
 			)}
 
-			{contractState.seasonState === 3 && balances[investorKey]?.shares > 0 && (
+			{(contractState.claimSeasonState === 3 || contractState.emergencyExitOpen) && balances[investorKey]?.shares > 0 && (
 				<button
 				onClick={() => withdraw(investorKey)}
-				disabled={loading}
+				disabled={loading || (contractState.paused.withdrawals && !contractState.emergencyExitOpen)}
 				className="w-full py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
 				>
-				Withdraw All
+				{contractState.emergencyExitOpen ? 'Emergency Exit (Free Capital)' : 'Withdraw Free Capital'}
+				</button>
+			)}
+
+			{(contractState.claimSeasonState === 3 || contractState.emergencyExitOpen) && balances[investorKey]?.seniorShares > 0 && (
+				<button
+				onClick={() => withdrawSenior(investorKey)}
+				disabled={loading || (contractState.paused.withdrawals && !contractState.emergencyExitOpen)}
+				className="w-full py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+				>
+				{contractState.emergencyExitOpen ? 'Emergency Exit (Senior)' : 'Withdraw Senior'}
 				</button>
 			)}
 			</div>
@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./RainyDayFund.sol";
+
+// Liability, claim and tranche accounting of RainyDayFund across regions and unsettled seasons. Deployed once and
+// linked into the fund to keep it below the contract size limit; season phases are read back from the fund.
+library CapitalLib {
+  uint256 private constant BASIS_POINTS = 10_000;
+
+  // Full payout of all registered claims of the seasons that are not settled yet, across regions
+  function unsettledClaims(
+    mapping(uint256 => mapping(uint256 => RainyDayFund.SeasonPolicy)) storage seasonPolicies,
+    uint256 regionCount,
+    uint256 fromSeason,
+    uint256 toSeason
+  ) public view returns (uint256 owed) {
+    for (uint256 seasonId = fromSeason; seasonId <= toSeason; seasonId++) {
+      owed += _unsettledClaims(seasonPolicies, regionCount, seasonId);
+    }
+  }
+
+  // Worst-case payout of every policy that can still be claimed in the seasons. Registered claims are
+  // already set aside in the pool assets, and nothing can be claimed once a claim window has closed.
+  function liability(
+    mapping(uint256 => mapping(uint256 => RainyDayFund.SeasonPolicy)) storage seasonPolicies,
+    uint256 regionCount,
+    uint256 fromSeason,
+    uint256 toSeason
+  ) public view returns (uint256 total) {
+    for (uint256 seasonId = fromSeason; seasonId <= toSeason; seasonId++) {
+      if (RainyDayFund(address(this)).getSeasonState(seasonId) >= RainyDayFund.SeasonState.WITHDRAW) {
+        continue;
+      }
+      for (uint256 regionId = 0; regionId < regionCount; regionId++) {
+        total += regionLiability(seasonPolicies[regionId][seasonId]);
+      }
+    }
+  }
+
+  // Worst-case payout if every policy of the region's season that is not registered yet is claimed
+  function regionLiability(RainyDayFund.SeasonPolicy storage policy) public view returns (uint256) {
+    return (policy.totalPoliciesSold - policy.totalClaimedPolicies) * _claimablePayout(policy);
+  }
+
+  // Payout per policy if the claim window closed now: the full payout, or the same haircut for every
+  // region of the season if `available` cannot cover all of the season's registered claims
+  function projectedPayoutPerPolicy(
+    mapping(uint256 => mapping(uint256 => RainyDayFund.SeasonPolicy)) storage seasonPolicies,
+    uint256 regionCount,
+    uint256 regionId,
+    uint256 seasonId,
+    uint256 available
+  ) public view returns (uint256) {
+    RainyDayFund.SeasonPolicy storage policy = seasonPolicies[regionId][seasonId];
+    if (policy.claimsSettled) {
+      return policy.payoutPerPolicy;
+    }
+    uint256 fullPayout = _claimablePayout(policy);
+    uint256 owed = _unsettledClaims(seasonPolicies, regionCount, seasonId);
+    if (owed <= available) {
+      return fullPayout;
+    }
+    return fullPayout * available / owed;
+  }
+
+  // Number of policies that can still be sold without `locked` capital exceeding the pool's assets at the
+  // collateralization ratio. The premium of the new policies is counted as pool capital, at the base rate
+  // since utilization pricing only ever charges more.
+  function remainingCapacity(
+    RainyDayFund.SeasonPolicy storage policy,
+    uint256 collateralizationRatio,
+    uint256 baseRateBps,
+    uint256 locked,
+    uint256 poolAssets
+  ) public view returns (uint256) {
+    uint256 requiredPerPolicy = policy.payoutAmount * collateralizationRatio;
+    uint256 fundedPerPolicy = policy.premium * baseRateBps;
+    if (requiredPerPolicy <= fundedPerPolicy) {
+      return type(uint256).max;
+    }
+    uint256 required = locked * BASIS_POINTS;
+    uint256 available = poolAssets * BASIS_POINTS;
+    if (available <= required) {
+      return 0;
+    }
+    return (available - required) / (requiredPerPolicy - fundedPerPolicy);
+  }
+
+  // Senior yield of the seasons whose claim window has closed that is not locked in yet, each capped by the
+  // premiums the season collected. A season's yield only counts once it can be settled, so the senior tranche
+  // never holds more than settling leaves in seniorAssets.
+  function pendingSeniorYield(
+    mapping(uint256 => uint256) storage seasonPremiums,
+    mapping(uint256 => bool) storage waterfallApplied,
+    uint256 seniorAssets,
+    uint256 seniorYieldBps,
+    uint256 fromSeason,
+    uint256 toSeason
+  ) public view returns (uint256 pending) {
+    uint256 cap = seniorAssets * seniorYieldBps / BASIS_POINTS;
+    RainyDayFund fund = RainyDayFund(address(this));
+    for (
+      uint256 seasonId = fromSeason;
+      seasonId <= toSeason && fund.getSeasonState(seasonId) >= RainyDayFund.SeasonState.WITHDRAW;
+      seasonId++
+    ) {
+      if (!waterfallApplied[seasonId]) {
+        pending += Math.min(cap, seasonPremiums[seasonId]);
+      }
+    }
+  }
+
+  function _unsettledClaims(
+    mapping(uint256 => mapping(uint256 => RainyDayFund.SeasonPolicy)) storage seasonPolicies,
+    uint256 regionCount,
+    uint256 seasonId
+  ) private view returns (uint256 owed) {
+    for (uint256 regionId = 0; regionId < regionCount; regionId++) {
+      RainyDayFund.SeasonPolicy storage policy = seasonPolicies[regionId][seasonId];
+      if (!policy.claimsSettled) {
+        owed += policy.totalClaimedPolicies * _claimablePayout(policy);
+      }
+    }
+  }
+
+  // Payout per policy owed by the season's outcome, before any pro-rata haircut
+  function _claimablePayout(RainyDayFund.SeasonPolicy storage policy) private view returns (uint256) {
+    if (!policy.weatherFinalized) {
+      return policy.payoutAmount;
+    }
+    return policy.payoutAmount * policy.outcomePayoutBps / BASIS_POINTS;
+  }
+}
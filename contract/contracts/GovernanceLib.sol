@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./RainyDayFund.sol";
+
+// Timelock bookkeeping of RainyDayFund's parameter changes and the guardian's pause flags, linked into the
+// fund to keep it below the contract size limit. Events are emitted as the fund's; season phases are read
+// back from the fund.
+library GovernanceLib {
+  // Revert reason of a timelocked call that passed every check of the function while it was being queued
+  string internal constant CHANGE_VALIDATED = "Change validated";
+
+  // Queues a change, identified by its calldata, after the fund ran the call with `success` and `result`
+  // as the outcome (see RainyDayFund.queueChange). Any other revert than CHANGE_VALIDATED is passed on.
+  // The change is due `delay` from now, and once the first season whose WITHDRAW phase has not begun
+  // yet has finished, or, if every season has, the next one, so investors can exit before it applies.
+  function queue(
+    mapping(bytes32 => RainyDayFund.QueuedChange) storage queuedChanges,
+    bytes memory data,
+    bool success,
+    bytes memory result,
+    uint256 delay
+  ) public {
+    require(!success, "Not a timelocked change");
+    if (keccak256(result) != keccak256(abi.encodeWithSignature("Error(string)", CHANGE_VALIDATED))) {
+      assembly {
+        revert(add(result, 32), mload(result))
+      }
+    }
+    bytes32 id = keccak256(data);
+    require(queuedChanges[id].eta == 0, "Change already queued");
+
+    RainyDayFund fund = RainyDayFund(address(this));
+    uint256 currentSeasonId = fund.currentSeasonId();
+    uint256 exitSeason = currentSeasonId + 1;
+    for (uint256 seasonId = fund.oldestUnsettledSeason(); seasonId <= currentSeasonId; seasonId++) {
+      if (fund.getSeasonState(seasonId) < RainyDayFund.SeasonState.WITHDRAW) {
+        exitSeason = seasonId;
+        break;
+      }
+    }
+    uint256 eta = fund.getCurrentTime() + delay;
+    queuedChanges[id] = RainyDayFund.QueuedChange(eta, msg.sender, exitSeason);
+    emit RainyDayFund.ChangeQueued(id, msg.sender, data, eta, exitSeason);
+  }
+
+  // Takes a change that is due out of the queue before it applies. As long as nobody has invested
+  // there is no one to protect, and changes apply without being queued.
+  function execute(mapping(bytes32 => RainyDayFund.QueuedChange) storage queuedChanges, bytes memory data) public {
+    RainyDayFund fund = RainyDayFund(address(this));
+    bytes32 id = keccak256(data);
+    RainyDayFund.QueuedChange memory change = queuedChanges[id];
+    if (fund.totalSupply() > 0 || fund.seniorAssets() > 0) {
+      require(change.eta != 0, "Change not queued");
+      require(
+        fund.getCurrentTime() >= change.eta &&
+          change.exitSeason <= fund.currentSeasonId() &&
+          fund.getSeasonState(change.exitSeason) == RainyDayFund.SeasonState.FINISHED,
+        "Change not due yet"
+      );
+    }
+    delete queuedChanges[id];
+    emit RainyDayFund.ChangeExecuted(id);
+  }
+
+  function setPaused(
+    mapping(RainyDayFund.PauseFlag => uint256) storage pausedSince,
+    mapping(uint256 => uint256) storage claimExtensions,
+    RainyDayFund.PauseFlag flag,
+    bool paused
+  ) public {
+    require(paused != (pausedSince[flag] != 0), "Pause flag unchanged");
+    RainyDayFund fund = RainyDayFund(address(this));
+    if (paused) {
+      pausedSince[flag] = fund.getCurrentTime();
+    } else {
+      if (flag == RainyDayFund.PauseFlag.CLAIMS) {
+        // claimWindowEnd() includes the time the ongoing pause has overlapped the window so far
+        for (uint256 seasonId = fund.oldestUnsettledSeason(); seasonId <= fund.currentSeasonId(); seasonId++) {
+          (, , uint256 claim, ) = fund.seasonDurations(seasonId);
+          claimExtensions[seasonId] = fund.claimWindowEnd(seasonId) - fund.seasonOverTimeStamps(seasonId) - claim;
+        }
+      }
+      pausedSince[flag] = 0;
+    }
+    emit RainyDayFund.PauseUpdated(flag, paused);
+  }
+
+  function cancel(mapping(bytes32 => RainyDayFund.QueuedChange) storage queuedChanges, bytes32 id, bool guardian)
+    public
+  {
+    RainyDayFund.QueuedChange storage change = queuedChanges[id];
+    require(change.eta != 0, "Change not queued");
+    require(msg.sender == change.proposer || guardian, "Not proposer or guardian");
+    delete queuedChanges[id];
+    emit RainyDayFund.ChangeCancelled(id);
+  }
+}
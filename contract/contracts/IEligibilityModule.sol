@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+// Decides whether a farmer may buy policies from RainyDayFund, e.g. through a KYC allowlist, a Merkle
+// proof of membership submitted to the module, per-farmer limits per season or a registered plot's value.
+// The fund consults it on every purchase while one is set.
+interface IEligibilityModule {
+  // Reverts with the reason if `farmer` may not buy `amount` more policies of the region's season,
+  // each paying out at most `payoutAmount`. Only the fund calls it, so modules can count purchases.
+  function checkPurchase(address farmer, uint256 regionId, uint256 seasonId, uint256 amount, uint256 payoutAmount)
+    external;
+}
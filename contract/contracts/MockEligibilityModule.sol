@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+import "./IEligibilityModule.sol";
+
+// Eligibility module for tests and local demos. Farmers qualify through the allowlist, which they can
+// also join with a Merkle proof, hold at most maxPoliciesPerSeason policies of a region's season
+// (0 means no limit) and insure at most the value of their registered plot, if they have one.
+contract MockEligibilityModule is IEligibilityModule {
+    address public immutable rainyDayFund;
+    bytes32 public allowlistRoot;
+    uint256 public maxPoliciesPerSeason;
+    mapping(address => bool) public allowlisted;
+    // Maximum insured value per farmer and region
+    mapping(address => mapping(uint256 => uint256)) public plotValues;
+    // Policies bought per farmer, region and season
+    mapping(address => mapping(uint256 => mapping(uint256 => uint256))) public policiesBought;
+
+    constructor(address _fund) {
+        rainyDayFund = _fund;
+    }
+
+    function setAllowlisted(address _farmer, bool _allowlisted) external {
+        allowlisted[_farmer] = _allowlisted;
+    }
+
+    function setAllowlistRoot(bytes32 _root) external {
+        allowlistRoot = _root;
+    }
+
+    // Leaves are the double-hashed ABI encoded farmer addresses
+    function joinAllowlist(bytes32[] calldata _proof) external {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        require(MerkleProof.verifyCalldata(_proof, allowlistRoot, leaf), "Invalid proof");
+        allowlisted[msg.sender] = true;
+    }
+
+    function setMaxPoliciesPerSeason(uint256 _max) external {
+        maxPoliciesPerSeason = _max;
+    }
+
+    function registerPlot(address _farmer, uint256 _regionId, uint256 _maxInsuredValue) external {
+        plotValues[_farmer][_regionId] = _maxInsuredValue;
+    }
+
+    function checkPurchase(address farmer, uint256 regionId, uint256 seasonId, uint256 amount, uint256 payoutAmount)
+        external
+    {
+        require(msg.sender == rainyDayFund, "Only fund");
+        require(allowlisted[farmer], "Not allowlisted");
+
+        uint256 bought = policiesBought[farmer][regionId][seasonId] + amount;
+        require(maxPoliciesPerSeason == 0 || bought <= maxPoliciesPerSeason, "Policy limit reached");
+        uint256 plotValue = plotValues[farmer][regionId];
+        require(plotValue == 0 || bought * payoutAmount <= plotValue, "Exceeds plot value");
+        policiesBought[farmer][regionId][seasonId] = bought;
+    }
+}
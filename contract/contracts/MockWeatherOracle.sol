@@ -2,21 +2,58 @@
 pragma solidity ^0.8.28;
 
 contract MockWeatherOracle {
+    struct RoundData {
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
     int256 public latestWeather;
     uint80 public latestRound;
+    mapping(uint80 => RoundData) public rounds;
+    // Makes every read revert, simulating a feed that is down
+    bool public reverting;
 
     constructor(int256 _initialWeather) {
-        latestWeather = _initialWeather;
-        latestRound = 1;
+        _setRound(1, _initialWeather, block.timestamp, block.timestamp, 1);
     }
 
     function updatePrice(int256 _newWeather) external {
-        latestWeather = _newWeather;
-        latestRound += 1;
+        uint80 roundId = latestRound + 1;
+        _setRound(roundId, _newWeather, block.timestamp, block.timestamp, roundId);
     }
 
-    function latestRoundData()
-        external
+    // Full control over the reported round, used to simulate broken or stale feeds
+    // and to build a deterministic round history
+    function setRoundData(
+        uint80 _roundId,
+        int256 _answer,
+        uint256 _startedAt,
+        uint256 _updatedAt,
+        uint80 _answeredInRound
+    ) external {
+        _setRound(_roundId, _answer, _startedAt, _updatedAt, _answeredInRound);
+    }
+
+    function setReverting(bool _reverting) external {
+        reverting = _reverting;
+    }
+
+    function _setRound(
+        uint80 _roundId,
+        int256 _answer,
+        uint256 _startedAt,
+        uint256 _updatedAt,
+        uint80 _answeredInRound
+    ) internal {
+        rounds[_roundId] = RoundData(_answer, _startedAt, _updatedAt, _answeredInRound);
+        latestRound = _roundId;
+        latestWeather = _answer;
+    }
+
+    function getRoundData(uint80 _roundId)
+        public
         view
         returns (
             uint80 roundId,
@@ -26,12 +63,28 @@ contract MockWeatherOracle {
             uint80 answeredInRound
         )
     {
+        require(!reverting, "Feed unavailable");
+        RoundData memory round = rounds[_roundId];
         return (
-            latestRound,
-            latestWeather,
-            block.timestamp,
-            block.timestamp,
-            latestRound
+            _roundId,
+            round.answer,
+            round.startedAt,
+            round.updatedAt,
+            round.answeredInRound
         );
     }
+
+    function latestRoundData()
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return getRoundData(latestRound);
+    }
 }
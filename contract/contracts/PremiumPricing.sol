@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+// Prices policies off the utilization of the pool, i.e. its outstanding liability over its assets.
+// Up to the kink a policy costs baseRateBps of the season's premium; beyond it the rate grows by
+// slopeBps for every 100% of additional utilization.
+library PremiumPricing {
+  uint256 internal constant BASIS_POINTS = 10_000;
+
+  struct Curve {
+    uint256 baseRateBps;
+    uint256 kinkBps;
+    uint256 slopeBps;
+  }
+
+  function utilization(uint256 liability, uint256 assets) internal pure returns (uint256) {
+    if (assets == 0) {
+      return liability == 0 ? 0 : BASIS_POINTS;
+    }
+    return liability * BASIS_POINTS / assets;
+  }
+
+  // Rate at a single utilization
+  function rateAt(Curve memory curve, uint256 utilizationBps) internal pure returns (uint256) {
+    if (utilizationBps <= curve.kinkBps) {
+      return curve.baseRateBps;
+    }
+    return curve.baseRateBps + (utilizationBps - curve.kinkBps) * curve.slopeBps / BASIS_POINTS;
+  }
+
+  // Average rate while utilization moves from `fromBps` to `toBps`, so a purchase costs the same
+  // whether it is made at once or split into several smaller ones
+  function averageRate(Curve memory curve, uint256 fromBps, uint256 toBps) internal pure returns (uint256) {
+    if (toBps <= fromBps) {
+      return rateAt(curve, toBps);
+    }
+    if (toBps <= curve.kinkBps) {
+      return curve.baseRateBps;
+    }
+    uint256 excessFrom = fromBps > curve.kinkBps ? fromBps - curve.kinkBps : 0;
+    uint256 excessTo = toBps - curve.kinkBps;
+    uint256 meanExcess = (excessTo * excessTo - excessFrom * excessFrom) / (2 * (toBps - fromBps));
+    return curve.baseRateBps + meanExcess * curve.slopeBps / BASIS_POINTS;
+  }
+
+  // Total premium for `amount` policies, given the pool's liability and assets before the purchase
+  function quote(
+    Curve memory curve,
+    uint256 premium,
+    uint256 payoutAmount,
+    uint256 amount,
+    uint256 liability,
+    uint256 assets
+  ) public pure returns (uint256) {
+    uint256 rate = averageRate(
+      curve,
+      utilization(liability, assets),
+      utilization(liability + amount * payoutAmount, assets)
+    );
+    return Math.mulDiv(premium * amount, rate, BASIS_POINTS, Math.Rounding.Ceil);
+  }
+}
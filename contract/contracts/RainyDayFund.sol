@@ -1,209 +1,905 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 
-interface AggregatorV3Interface {
-  function latestRoundData() external view returns (
-    uint80 roundId,
-    int256 answer,
-    uint256 startedAt,
-    uint256 updatedAt,
-    uint80 answeredInRound
-  );
-}
+import "./SeasonPolicyToken.sol";
+import "./WeatherFeedLib.sol";
+import "./IEligibilityModule.sol";
+import "./PremiumPricing.sol";
+import "./SeasonLib.sol";
+import "./RegionLib.sol";
+import "./CapitalLib.sol";
+import "./GovernanceLib.sol";
 
-contract RainyDayFund is ERC4626, Ownable, ReentrancyGuard {
+contract RainyDayFund is ERC4626, AccessControl, ReentrancyGuard {
   IERC20 public immutable usdc;
 
+  // The default admin grants and revokes every role and owns the capital parameters of the pool.
+  // Once deployed, it is handed over to a RainyDayTimelock so its changes only take effect after a delay.
+  bytes32 public constant SEASON_MANAGER_ROLE = keccak256("SEASON_MANAGER_ROLE");
+  bytes32 public constant ORACLE_ADMIN_ROLE = keccak256("ORACLE_ADMIN_ROLE");
+  bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+  bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
+  // Seasons overlap: the next season can start as soon as the current one's coverage is over, while
+  // the previous season is still in CLAIM and WITHDRAW. Each season keeps its own timeline, ending its
+  // coverage at seasonOverTimeStamps and lasting as long as its seasonDurations.
   uint256 public currentSeasonId;
-  uint256 public seasonOverTimeStamp;
-  uint256 public constant timeUnit = 30 days;
-  uint256 premium = 9 * 10**6; // 9 USDC
+  mapping(uint256 => uint256) public seasonOverTimeStamps;
+  mapping(uint256 => PhaseDurations) public seasonDurations;
+  // Every season before it has its claims settled and its tranche waterfall applied
+  uint256 public oldestUnsettledSeason = 1;
+  uint256 public constant DEFAULT_PHASE_DURATION = 30 days;
+  uint256 public constant MAX_PHASE_DURATION = 365 days;
+  uint256 public constant DEFAULT_PREMIUM = 9 * 10**6; // 9 USDC
+  int256 public constant DEFAULT_WEATHER_THRESHOLD = 10;
+  uint256 public constant MAX_PAYOUT_TIERS = 8;
+  uint256 public constant BASIS_POINTS = 10_000;
+
+  // The guardian (PAUSER_ROLE) pauses underwriting, claims and withdrawals independently. Claim windows
+  // are extended by the time claims were paused during them, and once claims or withdrawals have been
+  // paused for EMERGENCY_EXIT_DELAY investors can exit with their free capital at any time.
+  enum PauseFlag { UNDERWRITING, CLAIMS, WITHDRAWALS }
+  mapping(PauseFlag => uint256) public pausedSince;
+  mapping(uint256 => uint256) public claimExtensions;
+  uint256 public constant EMERGENCY_EXIT_DELAY = 30 days;
+
+  // Parameter changes are timelocked: queueChange queues the calldata of a timelocked call, and the
+  // identical call applies it once CHANGE_DELAY has passed and a WITHDRAW phase that had not begun yet
+  // (the one of exitSeason) is over, so investors can exit before it takes effect. The proposer or the
+  // guardian can cancel a queued change in between.
+  struct QueuedChange {
+    uint256 eta;
+    address proposer;
+    uint256 exitSeason;
+  }
+  uint256 public constant CHANGE_DELAY = 7 days;
+  mapping(bytes32 => QueuedChange) public queuedChanges;
+  // Set while queueChange runs a timelocked call through its checks
+  bool private validatingChange;
+
+  // Optional check every purchase has to pass, such as a KYC allowlist or per-farmer coverage limits.
+  // Without a module anyone can buy.
+  IEligibilityModule public eligibilityModule;
+
+  // Share of the outstanding liability that must be backed by pool assets (in basis points)
+  uint256 public collateralizationRatio = BASIS_POINTS;
 
-  AggregatorV3Interface public weatherFeed;
+  // Payout of a policy as a multiple of its premium, for seasons opened from now on
+  uint256 public payoutMultiple = 4;
+  uint256 public constant MAX_PAYOUT_MULTIPLE = 10;
 
-  // Testing variables for time control
-  uint256 public testingTimeOffset;
-  bool public testingMode;
+  // Investor capital required before any policy can be sold (100 USDC)
+  uint256 public constant MINIMUM_BOOTSTRAP_ASSETS = 100 * 10**6;
+  // Virtual share offset protecting the first investor against donation (inflation) attacks
+  uint8 private constant SHARES_DECIMALS_OFFSET = 6;
+
+  // Regions are insured side by side and share one investor pool. Each region settles on the
+  // median of its own weather feeds, as long as at least minFeedQuorum of them report a valid round.
+  uint256 public constant MAX_REGIONS = 16;
+  uint256 public constant MAX_WEATHER_FEEDS = 10;
+  uint256 public constant DEFAULT_REGION = 0;
+
+  // Anyone can roll the fund into the next season once the current one has finished. The keeper
+  // doing so is paid keeperReward out of the junior tranche.
+  uint256 public constant MAX_KEEPER_REWARD = 10 * 10**6;
+  uint256 public keeperReward = 1 * 10**6;
+
+  // Oracle sanity bounds. The observation finalized for a season may be at most
+  // oracleMaxStaleness older than the season end (0 disables the check).
+  uint256 public oracleMaxStaleness;
+  int256 public minWeatherAnswer = 0;
+  int256 public maxWeatherAnswer = 10_000;
+
+  // Policies are priced off pool utilization. The default curve charges the season's premium
+  // up to 80% utilization and 20% more at full utilization.
+  PremiumPricing.Curve public pricingCurve = PremiumPricing.Curve(BASIS_POINTS, 8_000, BASIS_POINTS);
 
   enum SeasonState { ACTIVE, INACTIVE, CLAIM, WITHDRAW, FINISHED }
 
+  // Length of each phase of a season. Policies are sold during `active`; coverage runs on for
+  // `coverage` after sales close, which is also the window index seasons record their rounds in.
+  struct PhaseDurations {
+    uint256 active;
+    uint256 coverage;
+    uint256 claim;
+    uint256 withdraw;
+  }
+
+  enum TriggerDirection { BELOW, ABOVE }
+  // How the season outcome is derived: the latest reading at season end, or an index
+  // aggregated from the rounds recorded during the coverage window
+  enum IndexType { LATEST, SUM, AVERAGE, COUNT_BELOW }
+
+  // Readings beyond `bound` (in the trigger direction) pay out `payoutBps` of the full payout.
+  // Tiers are ordered from the most severe bound towards the trigger threshold.
+  struct PayoutTier {
+    int256 bound;
+    uint256 payoutBps;
+  }
+
+  // indexThreshold is only used by COUNT_BELOW, e.g. the rainfall below which a day counts as dry
+  struct SeasonTrigger {
+    TriggerDirection direction;
+    int256 threshold;
+    IndexType indexType;
+    int256 indexThreshold;
+    PayoutTier[] tiers;
+  }
+
+  struct SeasonIndex {
+    uint256 observationCount;
+    int256 sum;
+    uint256 countBelow;
+    uint80 lastRoundId;
+    uint256 lastTimestamp;
+  }
+
+  struct Region {
+    string name;
+    bool active;
+    uint256 minFeedQuorum;
+    AggregatorV3Interface[] weatherFeeds;
+    // Pending handover of replacedFeed to proposedFeed, see proposeWeatherFeed
+    address proposedFeed;
+    address replacedFeed;
+  }
+
   struct SeasonPolicy {
     uint256 creationTimestamp;
     uint256 payoutAmount;
     uint256 premium;
     uint256 totalPoliciesSold;
     ERC20 policyToken;
+    uint256 totalClaimedPolicies;
+    uint256 payoutPerPolicy;
+    bool claimsSettled;
+    WeatherObservation weather;
+    bool weatherFinalized;
+    TriggerDirection triggerDirection;
+    int256 triggerThreshold;
+    uint256 outcomePayoutBps;
+    IndexType indexType;
+    int256 indexThreshold;
+    PayoutTier[] payoutTiers;
+    address[] settlementFeeds;
   }
 
-  mapping(uint256 => SeasonPolicy) public seasonPolicies;
+  // Premium and trigger a region's next seasons are opened with by rollSeason. They stay in place
+  // until the season manager queues different ones.
+  struct QueuedSeason {
+    bool queued;
+    uint256 premium;
+    SeasonTrigger trigger;
+  }
+
+  mapping(uint256 => Region) public regions;
+  uint256 public regionCount;
+  mapping(uint256 => QueuedSeason) internal queuedSeasons;
+
+  // regionId => seasonId => policy of the region for that season
+  mapping(uint256 => mapping(uint256 => SeasonPolicy)) public seasonPolicies;
+  mapping(uint256 => mapping(uint256 => SeasonIndex)) public seasonIndexes;
+  // regionId => seasonId => farmer => policies registered for payout during the claim window
+  mapping(uint256 => mapping(uint256 => mapping(address => uint256))) public registeredClaims;
+
+  // regionId => seasonId => feed => last round of that feed added to the season index
+  mapping(uint256 => mapping(uint256 => mapping(address => uint80))) public lastRecordedRound;
+
+  // Settled payouts that have not been withdrawn by farmers yet
+  uint256 public reservedPayouts;
+
+  // RDIS shares form the junior tranche, which absorbs claim losses first and keeps the premiums.
+  // The optional senior tranche vault keeps its capital in this pool; it earns up to seniorYieldBps
+  // of its assets per season out of premiums and only loses money once the junior tranche is wiped out.
+  address public seniorTranche;
+  uint256 public seniorAssets;
+  uint256 public seniorYieldBps = 200;
+  mapping(uint256 => uint256) public seasonPremiums;
+  mapping(uint256 => bool) public waterfallApplied;
 
-  event PolicyBought(address indexed farmer, uint256 seasonId, uint256 amount, uint256 totalPremium);
-  event ClaimMade(address indexed farmer, uint256 seasonId, uint256 amount, uint256 totalPayout);
+  event PolicyBought(
+    address indexed farmer,
+    uint256 regionId,
+    uint256 seasonId,
+    uint256 amount,
+    uint256 totalPremium,
+    uint256 pricePerPolicy
+  );
+  event ClaimMade(address indexed farmer, uint256 regionId, uint256 seasonId, uint256 amount, uint256 totalPayout);
+  event ClaimRegistered(address indexed farmer, uint256 regionId, uint256 seasonId, uint256 amount);
+  event ClaimSettled(uint256 regionId, uint256 seasonId, uint256 totalEligiblePolicies, uint256 payoutPerPolicy);
   event InvestmentMade(address indexed investor, uint256 amount);
   event InvestmentWithdrawn(address indexed investor, uint256 amount);
-  event NewSeasonStarted(uint256 seasonId, uint256 premium, uint256 payoutAmount);
-  event TimeAdvanced(uint256 newTimestamp, SeasonState newState);
+  event NewSeasonStarted(uint256 regionId, uint256 seasonId, uint256 premium, uint256 payoutAmount, SeasonTrigger trigger);
+  event SeasonScheduled(uint256 seasonId, uint256 seasonOverTimeStamp, PhaseDurations durations);
+  event ObservationRecorded(uint256 regionId, uint256 seasonId, uint80 roundId, int256 weather, uint256 timestamp);
+  event CollateralizationRatioUpdated(uint256 ratio);
+  event PayoutMultipleUpdated(uint256 multiple);
+  event SeasonOutcomeFinalized(uint256 regionId, uint256 seasonId, uint80 roundId, int256 weather, uint256 timestamp);
+  event OracleParametersUpdated(uint256 maxStaleness, int256 minAnswer, int256 maxAnswer);
+  event RegionAdded(uint256 regionId, string name, address weatherFeed);
+  event RegionStatusUpdated(uint256 regionId, bool active);
+  event WeatherFeedAdded(uint256 regionId, address feed);
+  event WeatherFeedRemoved(uint256 regionId, address feed);
+  event FeedQuorumUpdated(uint256 regionId, uint256 quorum);
+  event WeatherFeedProposed(uint256 regionId, address oldFeed, address newFeed);
+  event WeatherFeedMigrated(uint256 regionId, address oldFeed, address newFeed);
+  event WeatherFeedExcluded(uint256 regionId, uint256 seasonId, address feed, string reason);
+  event SeasonQueued(uint256 regionId, uint256 premium, SeasonTrigger trigger);
+  event SeasonRolled(uint256 seasonId, address indexed keeper, uint256 reward);
+  event KeeperRewardUpdated(uint256 reward);
+  event EligibilityModuleUpdated(address module);
+  event PricingCurveUpdated(uint256 baseRateBps, uint256 kinkBps, uint256 slopeBps);
+  event SeniorTrancheSet(address tranche);
+  event SeniorYieldUpdated(uint256 yieldBps);
+  event TrancheWaterfallApplied(uint256 seasonId, uint256 seniorAssets, uint256 juniorAssets);
+  event PauseUpdated(PauseFlag flag, bool paused);
+  event ChangeQueued(bytes32 id, address proposer, bytes data, uint256 eta, uint256 exitSeason);
+  event ChangeExecuted(bytes32 id);
+  event ChangeCancelled(bytes32 id);
 
   constructor(address _usdcAddress, address _weatherOracle)
   ERC4626(IERC20Metadata(_usdcAddress))
   ERC20("RainyDay Investor Shares", "RDIS")
-  Ownable(msg.sender)
   {
     require(_usdcAddress != address(0), "USDC address zero");
     usdc = IERC20(_usdcAddress);
+    _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    _grantRole(SEASON_MANAGER_ROLE, msg.sender);
+    _grantRole(ORACLE_ADMIN_ROLE, msg.sender);
+    _grantRole(PAUSER_ROLE, msg.sender);
+    _grantRole(KEEPER_ROLE, msg.sender);
 
-    require(_weatherOracle != address(0), "Weather oracle zero");
-    weatherFeed = AggregatorV3Interface(_weatherOracle);
+    _addRegion("Default", _weatherOracle);
 
     currentSeasonId = 1;
-    _initializeSeason(currentSeasonId);
-    seasonOverTimeStamp = getCurrentTime() + 2 * timeUnit; 
-
-    // Enable testing mode by default for local testing
-    testingMode = true;
+    SeasonTrigger memory defaultTrigger;
+    defaultTrigger.direction = TriggerDirection.BELOW;
+    defaultTrigger.threshold = DEFAULT_WEATHER_THRESHOLD;
+    _initializeSeason(DEFAULT_REGION, currentSeasonId, DEFAULT_PREMIUM, defaultTrigger);
+    _queueSeason(DEFAULT_REGION, DEFAULT_PREMIUM, defaultTrigger);
+    _scheduleSeason(
+      currentSeasonId,
+      PhaseDurations(DEFAULT_PHASE_DURATION, DEFAULT_PHASE_DURATION, DEFAULT_PHASE_DURATION, DEFAULT_PHASE_DURATION)
+    );
   }
 
-  // Testing function to get current time (can be offset in testing mode)
-  function getCurrentTime() public view returns (uint256) {
-    if (testingMode) {
-      return block.timestamp + testingTimeOffset;
-    }
+  // Time all phases are measured in. Production deployments always use the block timestamp;
+  // only RainyDayFundTestHarness overrides it.
+  function getCurrentTime() public view virtual returns (uint256) {
     return block.timestamp;
   }
 
-  // Testing function to advance time manually
-  function advanceToNextPhase() external onlyOwner {
-    require(testingMode, "Not in testing mode");
-
-    SeasonState currentState = getSeasonState();
-    uint256 nowBlock = block.timestamp;
-    if (currentState == SeasonState.ACTIVE) {
-      uint256 target = seasonOverTimeStamp - timeUnit + 1; // +1 to ensure inside the next phase
-      testingTimeOffset = target - nowBlock;
-    } else if (currentState == SeasonState.INACTIVE) {
-      uint256 target = seasonOverTimeStamp + 1;
-      testingTimeOffset = target - nowBlock;
-    } else if (currentState == SeasonState.CLAIM) {
-      uint256 target = seasonOverTimeStamp + timeUnit + 1;
-      testingTimeOffset = target - nowBlock;
-    } else if (currentState == SeasonState.WITHDRAW) {
-      uint256 target = seasonOverTimeStamp + 2 * timeUnit + 1;
-      testingTimeOffset = target - nowBlock;
-    } else {
-      // already finished, do nothing
-      emit TimeAdvanced(getCurrentTime(), getSeasonState());
-      return;
-    }
+  function setCollateralizationRatio(uint256 _ratio) external onlyRole(DEFAULT_ADMIN_ROLE) timelocked {
+    require(_ratio > 0, "Ratio > 0");
+    collateralizationRatio = _ratio;
+    emit CollateralizationRatioUpdated(_ratio);
+  }
 
-    emit TimeAdvanced(getCurrentTime(), getSeasonState());
+  function setPayoutMultiple(uint256 _multiple) external onlyRole(SEASON_MANAGER_ROLE) timelocked {
+    require(_multiple > 0 && _multiple <= MAX_PAYOUT_MULTIPLE, "Invalid payout multiple");
+    payoutMultiple = _multiple;
+    emit PayoutMultipleUpdated(_multiple);
   }
 
+  // Runs the call through every check of the timelocked function, including the modifiers listed after
+  // `timelocked`, and queues it if they pass. The call is reverted either way, nothing applies yet.
+  function queueChange(bytes calldata _data) external {
+    validatingChange = true;
+    (bool success, bytes memory result) = address(this).delegatecall(_data);
+    validatingChange = false;
+    GovernanceLib.queue(queuedChanges, _data, success, result, CHANGE_DELAY);
+  }
+
+  // Applies a due change, or, inside queueChange, reverts with GovernanceLib.CHANGE_VALIDATED once the
+  // function has passed its checks
+  modifier timelocked() {
+    bool validating = _beginChange();
+    _;
+    _endChange(validating);
+  }
 
-  // Testing function to set testing mode
-  function setTestingMode(bool _enabled) external onlyOwner {
-    testingMode = _enabled;
-    if (!_enabled) {
-      testingTimeOffset = 0;
+  function _beginChange() internal returns (bool) {
+    if (validatingChange) {
+      return true;
     }
+    GovernanceLib.execute(queuedChanges, msg.data);
+    return false;
+  }
+
+  function _endChange(bool validating) internal pure {
+    require(!validating, GovernanceLib.CHANGE_VALIDATED);
+  }
+
+  function cancelChange(bytes32 _id) external {
+    GovernanceLib.cancel(queuedChanges, _id, hasRole(PAUSER_ROLE, msg.sender));
+  }
+
+  function setOracleParameters(uint256 _maxStaleness, int256 _minAnswer, int256 _maxAnswer)
+    external
+    onlyRole(ORACLE_ADMIN_ROLE)
+    timelocked
+  {
+    require(_minAnswer >= 0 && _minAnswer <= _maxAnswer, "Invalid weather bounds");
+    oracleMaxStaleness = _maxStaleness;
+    minWeatherAnswer = _minAnswer;
+    maxWeatherAnswer = _maxAnswer;
+    emit OracleParametersUpdated(_maxStaleness, _minAnswer, _maxAnswer);
+  }
+
+  function setKeeperReward(uint256 _reward) external onlyRole(SEASON_MANAGER_ROLE) timelocked {
+    require(_reward <= MAX_KEEPER_REWARD, "Keeper reward too high");
+    keeperReward = _reward;
+    emit KeeperRewardUpdated(_reward);
+  }
+
+  function setPricingCurve(uint256 _baseRateBps, uint256 _kinkBps, uint256 _slopeBps)
+    external
+    onlyRole(SEASON_MANAGER_ROLE)
+    timelocked
+  {
+    require(_baseRateBps > 0, "Invalid base rate");
+    require(_kinkBps <= BASIS_POINTS, "Invalid kink");
+    pricingCurve = PremiumPricing.Curve(_baseRateBps, _kinkBps, _slopeBps);
+    emit PricingCurveUpdated(_baseRateBps, _kinkBps, _slopeBps);
+  }
+
+  function setEligibilityModule(address _module) external onlyRole(SEASON_MANAGER_ROLE) timelocked {
+    eligibilityModule = IEligibilityModule(_module);
+    emit EligibilityModuleUpdated(_module);
+  }
+
+  function setSeniorTranche(address _tranche) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    require(_tranche != address(0), "Tranche address zero");
+    require(seniorTranche == address(0), "Senior tranche already set");
+    seniorTranche = _tranche;
+    emit SeniorTrancheSet(_tranche);
+  }
+
+  function setSeniorYield(uint256 _yieldBps) external onlyRole(DEFAULT_ADMIN_ROLE) timelocked {
+    require(_yieldBps <= BASIS_POINTS, "Invalid senior yield");
+    seniorYieldBps = _yieldBps;
+    emit SeniorYieldUpdated(_yieldBps);
   }
 
-  function _initializeSeason(uint256 seasonId) internal {
-    SeasonPolicyToken policyToken = new SeasonPolicyToken(
-      string(abi.encodePacked("RainyDay Policy Season ", _toString(seasonId))),
-      string(abi.encodePacked("RDP", _toString(seasonId))),
-      address(this)
+  // Unpausing claims makes the extension of every claim window the pause overlapped permanent
+  function setPaused(PauseFlag _flag, bool _paused) external onlyRole(PAUSER_ROLE) {
+    GovernanceLib.setPaused(pausedSince, claimExtensions, _flag, _paused);
+  }
+
+  modifier whenNotPaused(PauseFlag _flag) {
+    _requireNotPaused(_flag);
+    _;
+  }
+
+  function _requireNotPaused(PauseFlag flag) internal view {
+    require(pausedSince[flag] == 0, "Paused");
+  }
+
+  function emergencyExitOpen() public view returns (bool) {
+    return _pausedFor(PauseFlag.CLAIMS) >= EMERGENCY_EXIT_DELAY || _pausedFor(PauseFlag.WITHDRAWALS) >= EMERGENCY_EXIT_DELAY;
+  }
+
+  function _pausedFor(PauseFlag flag) internal view returns (uint256) {
+    return pausedSince[flag] == 0 ? 0 : getCurrentTime() - pausedSince[flag];
+  }
+
+  modifier validRegion(uint256 _regionId) {
+    _requireValidRegion(_regionId);
+    _;
+  }
+
+  function _requireValidRegion(uint256 regionId) internal view {
+    require(regionId < regionCount, "Unknown region");
+  }
+
+  function addRegion(string calldata _name, address _weatherFeed) external onlyRole(SEASON_MANAGER_ROLE) returns (uint256) {
+    return _addRegion(_name, _weatherFeed);
+  }
+
+  function _addRegion(string memory _name, address _weatherFeed) internal returns (uint256 regionId) {
+    require(regionCount < MAX_REGIONS, "Too many regions");
+    regionId = regionCount++;
+    RegionLib.initialize(regions[regionId], regionId, _name, _weatherFeed);
+  }
+
+  // Inactive regions sell no new policies, claims of their open season are unaffected
+  function setRegionActive(uint256 _regionId, bool _active) external onlyRole(SEASON_MANAGER_ROLE) validRegion(_regionId) {
+    regions[_regionId].active = _active;
+    emit RegionStatusUpdated(_regionId, _active);
+  }
+
+  function addWeatherFeed(uint256 _regionId, address _feed)
+    external
+    onlyRole(ORACLE_ADMIN_ROLE)
+    timelocked
+    validRegion(_regionId)
+    noOpenClaims(_regionId)
+  {
+    RegionLib.addFeed(regions[_regionId], _regionId, _feed);
+  }
+
+  function removeWeatherFeed(uint256 _regionId, address _feed)
+    external
+    onlyRole(ORACLE_ADMIN_ROLE)
+    timelocked
+    validRegion(_regionId)
+    noOpenClaims(_regionId)
+  {
+    RegionLib.removeFeed(regions[_regionId], _regionId, _feed);
+  }
+
+  function setMinFeedQuorum(uint256 _regionId, uint256 _quorum)
+    external
+    onlyRole(ORACLE_ADMIN_ROLE)
+    timelocked
+    validRegion(_regionId)
+    noOpenClaims(_regionId)
+  {
+    RegionLib.setQuorum(regions[_regionId], _regionId, _quorum);
+  }
+
+  // Replacing a deprecated feed is a handover: the oracle admin proposes its successor, and accepting
+  // the proposal (a timelocked change) swaps it in at the same position. The new feed must report a
+  // valid latest round at both steps, and neither is possible while a season of the region is in CLAIM
+  // with its outcome still open. Finalized outcomes are snapshots that keep the feeds they were settled
+  // on (settlementFeeds).
+  function proposeWeatherFeed(uint256 _regionId, address _oldFeed, address _newFeed)
+    external
+    onlyRole(ORACLE_ADMIN_ROLE)
+    validRegion(_regionId)
+    noOpenClaims(_regionId)
+  {
+    RegionLib.proposeFeed(regions[_regionId], _regionId, _oldFeed, _newFeed, _readParams(_regionId));
+  }
+
+  function acceptWeatherFeed(uint256 _regionId, address _oldFeed, address _newFeed)
+    external
+    onlyRole(ORACLE_ADMIN_ROLE)
+    timelocked
+    validRegion(_regionId)
+    noOpenClaims(_regionId)
+  {
+    RegionLib.acceptFeed(regions[_regionId], _regionId, _oldFeed, _newFeed, _readParams(_regionId));
+  }
+
+  // Feed and quorum changes wait until no season of the region is in CLAIM with an open outcome
+  modifier noOpenClaims(uint256 _regionId) {
+    _requireNoOpenClaims(_regionId);
+    _;
+  }
+
+  function _requireNoOpenClaims(uint256 regionId) internal view {
+    RegionLib.requireNoOpenClaims(seasonPolicies[regionId]);
+  }
+
+  function getWeatherFeeds(uint256 _regionId) external view returns (AggregatorV3Interface[] memory) {
+    return regions[_regionId].weatherFeeds;
+  }
+
+  function _initializeSeason(uint256 regionId, uint256 seasonId, uint256 premium, SeasonTrigger memory trigger)
+    internal
+  {
+    SeasonLib.initialize(
+      seasonPolicies[regionId][seasonId],
+      regions[regionId],
+      premium,
+      trigger,
+      regionId,
+      seasonId,
+      getCurrentTime(),
+      payoutMultiple
     );
+  }
 
-    seasonPolicies[seasonId] = SeasonPolicy({
-      creationTimestamp: getCurrentTime(),
-      payoutAmount: premium * 4,
-      premium: premium,
-      totalPoliciesSold: 0,
-      policyToken: policyToken
-    });
+  // Share of the full payout (in basis points) a reading triggers for the season
+  function payoutBpsFor(uint256 regionId, uint256 seasonId, int256 weather) public view returns (uint256) {
+    return SeasonLib.payoutBps(seasonPolicies[regionId][seasonId], weather);
+  }
 
-    emit NewSeasonStarted(seasonId, premium, seasonPolicies[seasonId].payoutAmount);
+  function getPayoutTiers(uint256 regionId, uint256 seasonId) external view returns (PayoutTier[] memory) {
+    return seasonPolicies[regionId][seasonId].payoutTiers;
   }
 
-  function getSeasonState() public view returns (SeasonState) {
+  // Feeds whose readings counted towards the season's outcome, in the order they first did
+  function settlementFeeds(uint256 regionId, uint256 seasonId, uint256 index) external view returns (address) {
+    return seasonPolicies[regionId][seasonId].settlementFeeds[index];
+  }
+
+  function getSeasonState(uint256 seasonId) public view returns (SeasonState) {
+    require(seasonId > 0 && seasonId <= currentSeasonId, "Unknown season");
+    uint256 seasonOverTimeStamp = seasonOverTimeStamps[seasonId];
+    uint256 claimEnd = claimWindowEnd(seasonId);
     uint256 currentTime = getCurrentTime();
-    if (currentTime < seasonOverTimeStamp - timeUnit) {
+    if (currentTime < seasonOverTimeStamp - seasonDurations[seasonId].coverage) {
       return SeasonState.ACTIVE;
     } else if (currentTime < seasonOverTimeStamp) {
       return SeasonState.INACTIVE;
-    } else if (currentTime < seasonOverTimeStamp + timeUnit) {
+    } else if (currentTime < claimEnd) {
       return SeasonState.CLAIM;
-    } else if (currentTime < seasonOverTimeStamp + 2 * timeUnit) {
+    } else if (currentTime < claimEnd + seasonDurations[seasonId].withdraw) {
       return SeasonState.WITHDRAW;
     } else {
       return SeasonState.FINISHED;
     }
   }
 
-  modifier onlyAfterFullSeasonCycle() {
-    require(getSeasonState() == SeasonState.FINISHED, "Season not fully finished yet");
+  // End of the season's claim window, moved back by the time claims were paused during it. While
+  // claims are paused the window of a season in CLAIM keeps moving, so it never closes mid-pause.
+  function claimWindowEnd(uint256 seasonId) public view returns (uint256) {
+    return seasonOverTimeStamps[seasonId] + seasonDurations[seasonId].claim + claimExtensions[seasonId] +
+      _claimPauseExtension(seasonId);
+  }
+
+  // Time the ongoing claims pause has overlapped the season's claim window so far
+  function _claimPauseExtension(uint256 seasonId) internal view returns (uint256) {
+    uint256 pausedAt = pausedSince[PauseFlag.CLAIMS];
+    uint256 claimStart = seasonOverTimeStamps[seasonId];
+    uint256 claimEnd = claimStart + seasonDurations[seasonId].claim + claimExtensions[seasonId];
+    uint256 from = Math.max(pausedAt, claimStart);
+    uint256 currentTime = getCurrentTime();
+    if (pausedAt == 0 || claimEnd <= pausedAt || currentTime <= from) {
+      return 0;
+    }
+    return currentTime - from;
+  }
+
+  // The next season can start once the current season's coverage is over
+  modifier onlyAfterCoverage() {
+    _requireCoverageOver();
     _;
   }
 
+  function _requireCoverageOver() internal view {
+    require(getSeasonState(currentSeasonId) >= SeasonState.CLAIM, "Season coverage not over");
+  }
+
+  // New capital may join while the current season is running, but not while an earlier season's
+  // outcome is known and its claims are still coming in
   modifier onlyDuringSeason() {
+    _requireDuringSeason();
+    _;
+  }
+
+  function _requireDuringSeason() internal view {
+    SeasonState state = getSeasonState(currentSeasonId);
+    require(state == SeasonState.ACTIVE || state == SeasonState.INACTIVE, "Season not active aymore");
     require(
-      getSeasonState() == SeasonState.ACTIVE ||
-      getSeasonState() == SeasonState.INACTIVE,
-      "Season not active aymore");
-      _;
+      currentSeasonId == 1 || getSeasonState(currentSeasonId - 1) != SeasonState.CLAIM,
+      "Previous season claims open"
+    );
+  }
+
+  // Investors can exit while the latest season whose coverage has ended is in its WITHDRAW phase
+  function _inWithdrawalPeriod() internal view returns (bool) {
+    return _endedSeasonState() == SeasonState.WITHDRAW;
   }
 
-  function startNewSeason(uint256 _premium) external onlyOwner onlyAfterFullSeasonCycle {
+  // State of the latest season whose coverage has ended (or of the first season, before it has). Seasons
+  // run on their own calendars, so CLAIM while any unsettled season is still taking claims.
+  function _endedSeasonState() internal view returns (SeasonState) {
+    for (uint256 seasonId = oldestUnsettledSeason; seasonId < currentSeasonId; seasonId++) {
+      if (getSeasonState(seasonId) == SeasonState.CLAIM) {
+        return SeasonState.CLAIM;
+      }
+    }
+    uint256 latest = currentSeasonId;
+    if (latest > 1 && getSeasonState(latest) < SeasonState.CLAIM) {
+      latest--;
+    }
+    return getSeasonState(latest);
+  }
+
+  function _startNextSeason(PhaseDurations memory durations) internal {
+    _settleEndedSeasons();
     currentSeasonId++;
-    premium = _premium;
-    seasonOverTimeStamp = getCurrentTime() + 2 * timeUnit;
-    _initializeSeason(currentSeasonId);
+    _scheduleSeason(currentSeasonId, durations);
+  }
+
+  function _scheduleSeason(uint256 seasonId, PhaseDurations memory durations) internal {
+    SeasonLib.schedule(seasonDurations, seasonOverTimeStamps, seasonId, durations, getCurrentTime());
+  }
+
+  // Starts the next season for one region, running on the given calendar. Other regions join it
+  // through openRegionSeason.
+  function startNewSeason(
+    uint256 _regionId,
+    uint256 _premium,
+    SeasonTrigger calldata _trigger,
+    PhaseDurations calldata _durations
+  ) external onlyRole(SEASON_MANAGER_ROLE) timelocked onlyAfterCoverage validRegion(_regionId) {
+    _startNextSeason(_durations);
+    _initializeSeason(_regionId, currentSeasonId, _premium, _trigger);
+  }
+
+  // Queues the premium and trigger the region's seasons are opened with from the next roll onwards
+  function queueSeason(uint256 _regionId, uint256 _premium, SeasonTrigger calldata _trigger)
+    external
+    onlyRole(SEASON_MANAGER_ROLE)
+    timelocked
+    validRegion(_regionId)
+  {
+    _queueSeason(_regionId, _premium, _trigger);
+  }
+
+  function _queueSeason(uint256 regionId, uint256 premium, SeasonTrigger memory trigger) internal {
+    SeasonLib.queue(queuedSeasons[regionId], premium, trigger, regionId);
   }
 
-  function buyPolicy(uint256 _amount) external nonReentrant returns (uint256 seasonId) {
-    require(_amount > 0, "Amount > 0");
-    require(getSeasonState() == SeasonState.ACTIVE, "Not in active period");
+  function getQueuedSeason(uint256 regionId) external view returns (QueuedSeason memory) {
+    return queuedSeasons[regionId];
+  }
 
-    SeasonPolicy storage policy = seasonPolicies[currentSeasonId];
+  // Permissionless: once the current season's coverage is over, opens the next season for every
+  // active region with queued parameters and pays the caller the keeper reward. The next season
+  // keeps the phase durations of the current one.
+  function rollSeason() external nonReentrant onlyAfterCoverage {
+    _startNextSeason(seasonDurations[currentSeasonId]);
+    SeasonLib.roll(queuedSeasons, regions, seasonPolicies, usdc, currentSeasonId, payoutMultiple);
+  }
 
-    uint256 totalPremium = policy.premium * _amount;
-    require(usdc.transferFrom(msg.sender, address(this), totalPremium), "Transfer failed");
+  // Opens the current season for a region that has not started it yet
+  function openRegionSeason(uint256 _regionId, uint256 _premium, SeasonTrigger calldata _trigger)
+    external
+    onlyRole(SEASON_MANAGER_ROLE)
+    timelocked
+    validRegion(_regionId)
+  {
+    require(getSeasonState(currentSeasonId) == SeasonState.ACTIVE, "Not in active period");
+    require(!_isOpen(_regionId, currentSeasonId), "Region season already open");
+    _initializeSeason(_regionId, currentSeasonId, _premium, _trigger);
+  }
 
-    SeasonPolicyToken(address(policy.policyToken)).mint(msg.sender, _amount);
-    policy.totalPoliciesSold += _amount;
+  function _isOpen(uint256 regionId, uint256 seasonId) internal view returns (bool) {
+    return address(seasonPolicies[regionId][seasonId].policyToken) != address(0);
+  }
 
-    emit PolicyBought(msg.sender, currentSeasonId, _amount, totalPremium);
+  function _requireOpen(uint256 regionId, uint256 seasonId) internal view {
+    require(_isOpen(regionId, seasonId), "Region season not open");
+  }
+
+  function _requireInClaimPeriod(uint256 regionId, uint256 seasonId) internal view {
+    require(getSeasonState(seasonId) == SeasonState.CLAIM, "Not in claim period");
+    _requireOpen(regionId, seasonId);
+  }
+
+  function _requireClaimWindowClosed(uint256 seasonId) internal view {
+    require(getSeasonState(seasonId) >= SeasonState.WITHDRAW, "Claim window still open");
+  }
+
+  // Buys policies at the current utilization price, paying at most _maxPremium in total
+  function buyPolicy(uint256 _regionId, uint256 _amount, uint256 _maxPremium)
+    external
+    nonReentrant
+    whenNotPaused(PauseFlag.UNDERWRITING)
+    returns (uint256 seasonId)
+  {
+    seasonPremiums[currentSeasonId] += SeasonLib.issuePolicies(
+      seasonPolicies[_regionId][currentSeasonId],
+      regions[_regionId],
+      eligibilityModule,
+      usdc,
+      _amount,
+      _maxPremium,
+      _regionId,
+      currentSeasonId
+    );
     return currentSeasonId;
   }
 
-  function claimPolicies() external nonReentrant {
-    require(getSeasonState() == SeasonState.CLAIM, "Not in claim period");
+  // Total premium for buying _amount policies of the region's current season right now
+  function quotePremium(uint256 _regionId, uint256 _amount) public view returns (uint256) {
+    SeasonPolicy storage policy = seasonPolicies[_regionId][currentSeasonId];
+    return PremiumPricing.quote(
+      pricingCurve,
+      policy.premium,
+      policy.payoutAmount,
+      _amount,
+      outstandingLiability(),
+      poolAssets()
+    );
+  }
+
+  // Outstanding liability over pool assets, in basis points
+  function utilization() external view returns (uint256) {
+    return PremiumPricing.utilization(outstandingLiability(), poolAssets());
+  }
+
+  // Registers all policy tokens of the caller for payout. Payouts are only fixed once the
+  // claim window has closed, so every eligible farmer gets the same share of the pool.
+  function claimPolicies(uint256 _regionId, uint256 _seasonId) external nonReentrant whenNotPaused(PauseFlag.CLAIMS) {
+    _requireInClaimPeriod(_regionId, _seasonId);
+
+    SeasonPolicy storage policy = seasonPolicies[_regionId][_seasonId];
+    if (!policy.weatherFinalized) {
+      _finalizeSeasonWeather(_regionId, _seasonId);
+    }
+    SeasonLib.registerClaim(policy, registeredClaims[_regionId][_seasonId], msg.sender, _regionId, _seasonId);
+  }
+
+  // Fixes the payout per policy once the claim window of the season has closed
+  function settleClaims(uint256 _regionId, uint256 _seasonId) external nonReentrant whenNotPaused(PauseFlag.CLAIMS) {
+    _requireClaimWindowClosed(_seasonId);
+    _requireOpen(_regionId, _seasonId);
+    require(!seasonPolicies[_regionId][_seasonId].claimsSettled, "Claims already settled");
+    _settleClaims(_regionId, _seasonId);
+  }
+
+  function withdrawClaim(uint256 _regionId, uint256 seasonId) external nonReentrant whenNotPaused(PauseFlag.CLAIMS) {
+    require(registeredClaims[_regionId][seasonId][msg.sender] > 0, "No claim to withdraw");
+
+    SeasonPolicy storage policy = seasonPolicies[_regionId][seasonId];
+    if (!policy.claimsSettled) {
+      _requireClaimWindowClosed(seasonId);
+      _settleClaims(_regionId, seasonId);
+    }
+
+    reservedPayouts -= SeasonLib.payClaim(policy, registeredClaims[_regionId][seasonId], usdc, _regionId, seasonId);
+  }
+
+  // Payout per policy if the claim window closed now: the full payout, or the same haircut
+  // for every region of the season if the pool cannot cover all registered claims
+  function projectedPayoutPerPolicy(uint256 regionId, uint256 seasonId) public view returns (uint256) {
+    return CapitalLib.projectedPayoutPerPolicy(
+      seasonPolicies,
+      regionCount,
+      regionId,
+      seasonId,
+      usdc.balanceOf(address(this)) - reservedPayouts
+    );
+  }
 
-    SeasonPolicy storage policy = seasonPolicies[currentSeasonId];
-    SeasonPolicyToken token = SeasonPolicyToken(address(policy.policyToken));
-    uint256 amount = token.balanceOf(msg.sender);
-    require(amount > 0, "No policies to claim");
+  // Settles every season whose claim window has closed, oldest first
+  function _settleEndedSeasons() internal {
+    while (oldestUnsettledSeason <= currentSeasonId && getSeasonState(oldestUnsettledSeason) >= SeasonState.WITHDRAW) {
+      _settleSeason(oldestUnsettledSeason);
+      oldestUnsettledSeason++;
+    }
+  }
 
-    (,int256 weather,) = getWeatherData();
-    require(uint256(weather) < 10, "Weather not bad enough");
+  function _settleSeason(uint256 seasonId) internal {
+    for (uint256 regionId = 0; regionId < regionCount; regionId++) {
+      if (_isOpen(regionId, seasonId)) {
+        _settleClaims(regionId, seasonId);
+      }
+    }
+    _applyWaterfall(seasonId);
+  }
 
-    uint256 totalPayout = policy.payoutAmount * amount;
-    require(usdc.balanceOf(address(this)) >= totalPayout, "Insufficient funds");
+  // Locks in the tranche split once every claim of the season is settled: the senior tranche
+  // receives its capped yield, or takes whatever loss the junior tranche could not absorb
+  function _applyWaterfall(uint256 seasonId) internal {
+    if (waterfallApplied[seasonId]) {
+      return;
+    }
+    seniorAssets = Math.min(seniorAssets + _pendingSeniorYield(seasonId, seasonId), poolAssets());
+    waterfallApplied[seasonId] = true;
+    emit TrancheWaterfallApplied(seasonId, seniorAssets, totalAssets());
+  }
 
-    require(usdc.transfer(msg.sender, totalPayout), "Payout failed");
-    token.burnFrom(msg.sender, amount);
+  function _settleClaims(uint256 regionId, uint256 seasonId) internal {
+    SeasonPolicy storage policy = seasonPolicies[regionId][seasonId];
+    if (policy.claimsSettled) {
+      return;
+    }
+
+    policy.payoutPerPolicy = projectedPayoutPerPolicy(regionId, seasonId);
+    policy.claimsSettled = true;
+    reservedPayouts += policy.payoutPerPolicy * policy.totalClaimedPolicies;
 
-    emit ClaimMade(msg.sender, currentSeasonId, amount, totalPayout);
+    emit ClaimSettled(regionId, seasonId, policy.totalClaimedPolicies, policy.payoutPerPolicy);
   }
 
-  function getWeatherData() public view returns (uint80 roundId, int256 weather, uint256 timestamp) {
-    (roundId, weather,,timestamp,) = weatherFeed.latestRoundData();
+  // Premiums must never flow into a vault without shareholders, otherwise the first
+  // investor would capture them and the share price would start out skewed
+  function isBootstrapped() public view returns (bool) {
+    return totalSupply() > 0 && totalAssets() >= MINIMUM_BOOTSTRAP_ASSETS;
+  }
+
+  // Worst-case payout of every policy that can still be claimed, across regions and unsettled seasons
+  function outstandingLiability() public view returns (uint256) {
+    return CapitalLib.liability(seasonPolicies, regionCount, oldestUnsettledSeason, currentSeasonId);
+  }
+
+  // Worst-case payout of the season's policies that can still be claimed. Registered claims are
+  // already set aside in poolAssets(), and nothing can be claimed once the claim window has closed.
+  function seasonLiability(uint256 seasonId) public view returns (uint256) {
+    return CapitalLib.liability(seasonPolicies, regionCount, seasonId, seasonId);
+  }
+
+  // Worst-case payout if every policy the region sold in the current season is claimed
+  function regionExposure(uint256 regionId) public view returns (uint256) {
+    return CapitalLib.regionLiability(seasonPolicies[regionId][currentSeasonId]);
+  }
+
+  // Capital backing the outstanding liability at the collateralization ratio. Investors cannot
+  // withdraw it until the seasons it backs are settled; the junior tranche backs it first.
+  function lockedCapital() public view returns (uint256) {
+    return outstandingLiability() * collateralizationRatio / BASIS_POINTS;
+  }
+
+  // Number of policies the region can still sell without breaking the collateralization ratio
+  // of the shared pool. The premium of the new policies is counted as pool capital, at the base rate
+  // since utilization pricing only ever charges more.
+  function remainingCapacity(uint256 regionId) public view returns (uint256) {
+    return CapitalLib.remainingCapacity(
+      seasonPolicies[regionId][currentSeasonId],
+      collateralizationRatio,
+      pricingCurve.baseRateBps,
+      outstandingLiability() * collateralizationRatio / BASIS_POINTS,
+      poolAssets()
+    );
+  }
+
+  // Median of the region's latest readings, rejecting incomplete rounds and implausible answers
+  function getWeatherData(uint256 regionId) public view returns (uint80 roundId, int256 weather, uint256 timestamp) {
+    WeatherObservation memory median = WeatherFeedLib.latestMedian(
+      regions[regionId].weatherFeeds,
+      _readParams(regionId)
+    );
+    return (median.roundId, median.answer, median.timestamp);
+  }
+
+  // Reading rules for the region's latest rounds; callers narrow the window where needed
+  function _readParams(uint256 regionId) internal view returns (WeatherFeedLib.ReadParams memory) {
+    return WeatherFeedLib.ReadParams({
+      minAnswer: minWeatherAnswer,
+      maxAnswer: maxWeatherAnswer,
+      currentTime: getCurrentTime(),
+      notBefore: 0,
+      notAfter: type(uint256).max,
+      windowError: "",
+      quorum: regions[regionId].minFeedQuorum
+    });
+  }
+
+  // Adds the region's readings from the season's coverage window to its index, one round id per
+  // registered feed (in getWeatherFeeds() order). Keepers call it for every round; each feed's
+  // rounds must be recorded consecutively so none is skipped or counts twice.
+  function recordObservation(uint256 _regionId, uint256 _seasonId, uint80[] calldata _roundIds)
+    external
+    onlyRole(KEEPER_ROLE)
+    whenNotPaused(PauseFlag.CLAIMS)
+  {
+    _requireOpen(_regionId, _seasonId);
+    SeasonLib.recordObservation(
+      regions[_regionId],
+      seasonPolicies[_regionId][_seasonId],
+      seasonIndexes[_regionId][_seasonId],
+      lastRecordedRound[_regionId][_seasonId],
+      _roundIds,
+      _regionId,
+      _seasonId
+    );
+  }
+
+  // Value the season's trigger is evaluated on, as aggregated from the recorded rounds
+  function seasonIndexValue(uint256 regionId, uint256 seasonId) public view returns (int256) {
+    return SeasonLib.indexValue(seasonPolicies[regionId][seasonId], seasonIndexes[regionId][seasonId]);
+  }
+
+  // Snapshots the season's weather outcome once the season is over. Anyone can trigger it,
+  // and every claim of the season is judged against the stored observation.
+  function finalizeSeasonWeather(uint256 _regionId, uint256 _seasonId) external whenNotPaused(PauseFlag.CLAIMS) {
+    _requireInClaimPeriod(_regionId, _seasonId);
+    require(!seasonPolicies[_regionId][_seasonId].weatherFinalized, "Outcome already finalized");
+    _finalizeSeasonWeather(_regionId, _seasonId);
+  }
+
+  function _finalizeSeasonWeather(uint256 regionId, uint256 seasonId) internal {
+    SeasonLib.finalizeOutcome(
+      regions[regionId],
+      seasonPolicies[regionId][seasonId],
+      seasonIndexes[regionId][seasonId],
+      regionId,
+      seasonId
+    );
   }
 
   // ERC4626 investment logic
@@ -213,36 +909,132 @@ contract RainyDayFund is ERC4626, Ownable, ReentrancyGuard {
     emit InvestmentMade(msg.sender, assets);
   }
 
+  // Outside the WITHDRAW phase only once the emergency exit is open. Capital locked to back the
+  // outstanding liability stays in the pool either way, so policyholders keep their cover.
   function redeemShares(uint256 shares) external nonReentrant {
-    require(getSeasonState() == SeasonState.WITHDRAW, "Not in withdrawal period");
+    _requireWithdrawalPeriod();
+    _settleEndedSeasons();
     uint256 assets = redeem(shares, msg.sender, msg.sender);
     emit InvestmentWithdrawn(msg.sender, assets);
   }
 
+  // Every deposit and withdrawal, including direct ERC4626 calls, honours the pause flags
+  function _deposit(address caller, address receiver, uint256 assets, uint256 shares)
+    internal
+    override
+    whenNotPaused(PauseFlag.UNDERWRITING)
+  {
+    super._deposit(caller, receiver, assets, shares);
+  }
+
+  function _withdraw(address caller, address receiver, address owner, uint256 assets, uint256 shares)
+    internal
+    override
+  {
+    _requireWithdrawalsNotPaused();
+    super._withdraw(caller, receiver, owner, assets, shares);
+  }
+
+  function _requireWithdrawalPeriod() internal view {
+    require(_inWithdrawalPeriod() || emergencyExitOpen(), "Not in withdrawal period");
+  }
+
+  // The emergency exit lifts the pause on withdrawals
+  function _requireWithdrawalsNotPaused() internal view {
+    if (!emergencyExitOpen()) {
+      _requireNotPaused(PauseFlag.WITHDRAWALS);
+    }
+  }
+
+  // Capital of both tranches: the balance minus settled payouts and, until settlement, the full
+  // payout of registered claims
+  function poolAssets() public view returns (uint256) {
+    uint256 committed = reservedPayouts +
+      CapitalLib.unsettledClaims(seasonPolicies, regionCount, oldestUnsettledSeason, currentSeasonId);
+    uint256 balance = usdc.balanceOf(address(this));
+    return balance > committed ? balance - committed : 0;
+  }
+
+  // Junior tranche (RDIS) assets: whatever the pool holds beyond the senior tranche's claim
   function totalAssets() public view override returns (uint256) {
-    return usdc.balanceOf(address(this));
+    return poolAssets() - seniorTrancheAssets();
   }
 
-  // minimal utility
-  function _toString(uint256 value) internal pure returns (string memory) {
-    if (value == 0) return "0";
-    uint256 temp = value;
-    uint256 digits;
-    while (temp != 0) { digits++; temp /= 10; }
-    bytes memory buffer = new bytes(digits);
-    while (value != 0) { digits--; buffer[digits] = bytes1(uint8(48 + value % 10)); value /= 10; }
-    return string(buffer);
+  // Senior tranche assets including the yield of ended seasons that are not settled yet, as far as the pool can
+  // cover them. The yield of a running season is credited once its claim window has closed.
+  function seniorTrancheAssets() public view returns (uint256) {
+    return Math.min(seniorAssets + _pendingSeniorYield(oldestUnsettledSeason, currentSeasonId), poolAssets());
   }
-}
 
-contract SeasonPolicyToken is ERC20 {
-  address public immutable rainyDayFund;
-  modifier onlyRainyDayFund() { require(msg.sender == rainyDayFund, "Only fund"); _; }
+  // Senior yield of the ended seasons that is not locked in yet, each capped by the premiums the season collected
+  function _pendingSeniorYield(uint256 fromSeason, uint256 toSeason) internal view returns (uint256) {
+    return CapitalLib.pendingSeniorYield(
+      seasonPremiums,
+      waterfallApplied,
+      seniorAssets,
+      seniorYieldBps,
+      fromSeason,
+      toSeason
+    );
+  }
+
+  // Junior assets not needed to back the outstanding liability
+  function _freeJuniorAssets() internal view returns (uint256) {
+    uint256 junior = totalAssets();
+    uint256 locked = lockedCapital();
+    return junior > locked ? junior - locked : 0;
+  }
 
-  constructor(string memory name, string memory symbol, address _fund) ERC20(name, symbol) {
-    rainyDayFund = _fund;
+  // Senior assets not needed to back the part of the outstanding liability the junior tranche cannot
+  function _freeSeniorAssets() internal view returns (uint256) {
+    uint256 junior = totalAssets();
+    uint256 locked = lockedCapital();
+    uint256 shortfall = locked > junior ? locked - junior : 0;
+    uint256 senior = seniorTrancheAssets();
+    return senior > shortfall ? senior - shortfall : 0;
   }
 
-  function mint(address to, uint256 amount) external onlyRainyDayFund { _mint(to, amount); }
-  function burnFrom(address from, uint256 amount) external onlyRainyDayFund { _burn(from, amount); }
+  function maxWithdraw(address owner) public view override returns (uint256) {
+    return Math.min(super.maxWithdraw(owner), _freeJuniorAssets());
+  }
+
+  function maxRedeem(address owner) public view override returns (uint256) {
+    uint256 shares = super.maxRedeem(owner);
+    uint256 free = _freeJuniorAssets();
+    if (_convertToAssets(shares, Math.Rounding.Floor) <= free) {
+      return shares;
+    }
+    return _convertToShares(free, Math.Rounding.Floor);
+  }
+
+  modifier onlySeniorTranche() {
+    require(msg.sender == seniorTranche, "Only senior tranche");
+    _;
+  }
+
+  // Called by the senior tranche vault for every deposit; the fund pulls the deposited assets
+  function depositSeniorAssets(uint256 assets)
+    external
+    nonReentrant
+    onlySeniorTranche
+    onlyDuringSeason
+    whenNotPaused(PauseFlag.UNDERWRITING)
+  {
+    require(usdc.transferFrom(msg.sender, address(this), assets), "Transfer failed");
+    seniorAssets += assets;
+  }
+
+  // Called by the senior tranche vault for every redemption; sends the assets to the vault
+  function withdrawSeniorAssets(uint256 assets) external nonReentrant onlySeniorTranche {
+    _requireWithdrawalPeriod();
+    _requireWithdrawalsNotPaused();
+    _settleEndedSeasons();
+    require(assets <= _freeSeniorAssets(), "Capital locked");
+    seniorAssets -= assets;
+    require(usdc.transfer(msg.sender, assets), "Transfer failed");
+  }
+
+  function _decimalsOffset() internal pure override returns (uint8) {
+    return SHARES_DECIMALS_OFFSET;
+  }
 }
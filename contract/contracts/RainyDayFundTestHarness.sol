@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./RainyDayFund.sol";
+
+// RainyDayFund with a clock the season manager controls, for local demos and the frontend. Never deploy it to a
+// real network: the season manager can move any season straight into its claim window.
+contract RainyDayFundTestHarness is RainyDayFund {
+  uint256 public testingTimeOffset;
+  bool public testingMode = true;
+
+  event TimeAdvanced(uint256 newTimestamp, SeasonState newState);
+
+  constructor(address _usdcAddress, address _weatherOracle) RainyDayFund(_usdcAddress, _weatherOracle) {}
+
+  // Block timestamp, offset by the time travelled in testing mode (the offset is reset when it ends)
+  function getCurrentTime() public view override returns (uint256) {
+    return block.timestamp + testingTimeOffset;
+  }
+
+  // Moves the clock to the start of the next phase of the current season (a finished season stays finished)
+  function advanceToNextPhase() external onlyRole(SEASON_MANAGER_ROLE) {
+    require(testingMode, "Not in testing mode");
+
+    SeasonState currentState = getSeasonState(currentSeasonId);
+    if (currentState != SeasonState.FINISHED) {
+      uint256 seasonOverTimeStamp = seasonOverTimeStamps[currentSeasonId];
+      uint256 claimEnd = claimWindowEnd(currentSeasonId);
+      PhaseDurations storage durations = seasonDurations[currentSeasonId];
+      uint256[4] memory phaseEnds =
+        [seasonOverTimeStamp - durations.coverage, seasonOverTimeStamp, claimEnd, claimEnd + durations.withdraw];
+      // +1 to ensure inside the next phase
+      testingTimeOffset = phaseEnds[uint256(currentState)] + 1 - block.timestamp;
+    }
+
+    emit TimeAdvanced(getCurrentTime(), getSeasonState(currentSeasonId));
+  }
+
+  function setTestingMode(bool _enabled) external onlyRole(SEASON_MANAGER_ROLE) {
+    testingMode = _enabled;
+    if (!_enabled) {
+      testingTimeOffset = 0;
+    }
+  }
+}
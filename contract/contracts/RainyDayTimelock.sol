@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+// Holds the default admin role of RainyDayFund. Role changes and capital parameter updates are
+// scheduled by a proposer and can only be executed once MIN_DELAY has passed.
+contract RainyDayTimelock is TimelockController {
+  uint256 public constant MIN_DELAY = 2 days;
+
+  constructor(address[] memory proposers, address[] memory executors)
+  TimelockController(MIN_DELAY, proposers, executors, address(0))
+  {}
+}
@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./RainyDayFund.sol";
+import "./WeatherFeedLib.sol";
+
+// Region and weather feed administration of RainyDayFund, linked into the fund to keep it below the
+// contract size limit. Events are emitted as the fund's.
+library RegionLib {
+  uint256 private constant MAX_WEATHER_FEEDS = 10;
+
+  function initialize(RainyDayFund.Region storage region, uint256 regionId, string memory name, address weatherFeed)
+    public
+  {
+    require(bytes(name).length > 0, "Region name empty");
+    require(weatherFeed != address(0), "Weather oracle zero");
+
+    region.name = name;
+    region.active = true;
+    region.minFeedQuorum = 1;
+    region.weatherFeeds.push(AggregatorV3Interface(weatherFeed));
+
+    emit RainyDayFund.RegionAdded(regionId, name, weatherFeed);
+  }
+
+  function addFeed(RainyDayFund.Region storage region, uint256 regionId, address feed) public {
+    AggregatorV3Interface[] storage feeds = region.weatherFeeds;
+    require(feed != address(0), "Weather oracle zero");
+    require(feeds.length < MAX_WEATHER_FEEDS, "Too many feeds");
+    require(WeatherFeedLib.indexOf(feeds, feed) == type(uint256).max, "Feed already registered");
+    feeds.push(AggregatorV3Interface(feed));
+    emit RainyDayFund.WeatherFeedAdded(regionId, feed);
+  }
+
+  function removeFeed(RainyDayFund.Region storage region, uint256 regionId, address feed) public {
+    uint256 feedIndex = WeatherFeedLib.indexOf(region.weatherFeeds, feed);
+    require(feedIndex != type(uint256).max, "Feed not registered");
+    require(region.weatherFeeds.length > region.minFeedQuorum, "Would break feed quorum");
+    // Shifts the later feeds down, recordObservation takes one round per feed in registry order
+    for (uint256 i = feedIndex + 1; i < region.weatherFeeds.length; i++) {
+      region.weatherFeeds[i - 1] = region.weatherFeeds[i];
+    }
+    region.weatherFeeds.pop();
+    emit RainyDayFund.WeatherFeedRemoved(regionId, feed);
+  }
+
+  function proposeFeed(
+    RainyDayFund.Region storage region,
+    uint256 regionId,
+    address oldFeed,
+    address newFeed,
+    WeatherFeedLib.ReadParams memory params
+  ) public {
+    require(WeatherFeedLib.indexOf(region.weatherFeeds, oldFeed) != type(uint256).max, "Feed not registered");
+    _requireUsableFeed(region, newFeed, params);
+    region.proposedFeed = newFeed;
+    region.replacedFeed = oldFeed;
+    emit RainyDayFund.WeatherFeedProposed(regionId, oldFeed, newFeed);
+  }
+
+  // Swaps the proposed feed in for the one it replaces, keeping the feed order and quorum
+  function acceptFeed(
+    RainyDayFund.Region storage region,
+    uint256 regionId,
+    address oldFeed,
+    address newFeed,
+    WeatherFeedLib.ReadParams memory params
+  ) public {
+    require(
+      newFeed != address(0) && newFeed == region.proposedFeed && oldFeed == region.replacedFeed,
+      "Feed not proposed"
+    );
+    uint256 feedIndex = WeatherFeedLib.indexOf(region.weatherFeeds, oldFeed);
+    require(feedIndex != type(uint256).max, "Feed not registered");
+    _requireUsableFeed(region, newFeed, params);
+    region.weatherFeeds[feedIndex] = AggregatorV3Interface(newFeed);
+    delete region.proposedFeed;
+    delete region.replacedFeed;
+    emit RainyDayFund.WeatherFeedMigrated(regionId, oldFeed, newFeed);
+  }
+
+  function setQuorum(RainyDayFund.Region storage region, uint256 regionId, uint256 quorum) public {
+    require(quorum > 0 && quorum <= region.weatherFeeds.length, "Invalid quorum");
+    region.minFeedQuorum = quorum;
+    emit RainyDayFund.FeedQuorumUpdated(regionId, quorum);
+  }
+
+  // The feeds and quorum of a region decide the outcome of its seasons until it is finalized, so they
+  // stay fixed while any of them is in CLAIM with its outcome still open
+  function requireNoOpenClaims(mapping(uint256 => RainyDayFund.SeasonPolicy) storage policies) public view {
+    RainyDayFund fund = RainyDayFund(address(this));
+    for (uint256 seasonId = fund.oldestUnsettledSeason(); seasonId <= fund.currentSeasonId(); seasonId++) {
+      RainyDayFund.SeasonPolicy storage policy = policies[seasonId];
+      require(
+        address(policy.policyToken) == address(0) ||
+          policy.weatherFinalized ||
+          fund.getSeasonState(seasonId) != RainyDayFund.SeasonState.CLAIM,
+        "Season in claim period"
+      );
+    }
+  }
+
+  // A new feed must not be registered yet and must report a complete latest round within the weather bounds
+  function _requireUsableFeed(
+    RainyDayFund.Region storage region,
+    address feed,
+    WeatherFeedLib.ReadParams memory params
+  ) private view {
+    require(feed != address(0), "Weather oracle zero");
+    require(WeatherFeedLib.indexOf(region.weatherFeeds, feed) == type(uint256).max, "Feed already registered");
+    WeatherFeedLib.requireValid(AggregatorV3Interface(feed), params);
+  }
+}
@@ -0,0 +1,389 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+import "./RainyDayFund.sol";
+import "./SeasonPolicyToken.sol";
+import "./WeatherFeedLib.sol";
+import "./IEligibilityModule.sol";
+
+// Season setup, weather index and outcome logic of RainyDayFund. Deployed once and linked into
+// the fund, which keeps the fund below the contract size limit. Events are emitted as the fund's.
+library SeasonLib {
+  uint256 private constant BASIS_POINTS = 10_000;
+  uint256 private constant MAX_PAYOUT_TIERS = 8;
+  uint256 private constant MAX_PHASE_DURATION = 365 days;
+
+  function validateTrigger(RainyDayFund.SeasonTrigger memory trigger) public pure {
+    uint256 tierCount = trigger.tiers.length;
+    if (tierCount == 0) {
+      return;
+    }
+    require(tierCount <= MAX_PAYOUT_TIERS, "Too many payout tiers");
+    require(trigger.tiers[tierCount - 1].bound == trigger.threshold, "Last tier must end at threshold");
+
+    for (uint256 i = 0; i < tierCount; i++) {
+      RainyDayFund.PayoutTier memory tier = trigger.tiers[i];
+      require(tier.payoutBps > 0 && tier.payoutBps <= BASIS_POINTS, "Invalid tier payout");
+      if (i > 0) {
+        RainyDayFund.PayoutTier memory previous = trigger.tiers[i - 1];
+        require(_isBeyond(trigger.direction, previous.bound, tier.bound), "Tiers out of order");
+        require(tier.payoutBps <= previous.payoutBps, "Tier payouts must decrease");
+      }
+    }
+  }
+
+  // Every phase must last at least a second and at most MAX_PHASE_DURATION. The season's coverage
+  // ends once its active and coverage phases have passed from `startTime` on.
+  function schedule(
+    mapping(uint256 => RainyDayFund.PhaseDurations) storage seasonDurations,
+    mapping(uint256 => uint256) storage seasonOverTimeStamps,
+    uint256 seasonId,
+    RainyDayFund.PhaseDurations memory durations,
+    uint256 startTime
+  ) public {
+    require(
+      durations.active > 0 && durations.active <= MAX_PHASE_DURATION &&
+      durations.coverage > 0 && durations.coverage <= MAX_PHASE_DURATION &&
+      durations.claim > 0 && durations.claim <= MAX_PHASE_DURATION &&
+      durations.withdraw > 0 && durations.withdraw <= MAX_PHASE_DURATION,
+      "Invalid phase duration"
+    );
+    seasonDurations[seasonId] = durations;
+    seasonOverTimeStamps[seasonId] = startTime + durations.active + durations.coverage;
+    emit RainyDayFund.SeasonScheduled(seasonId, seasonOverTimeStamps[seasonId], durations);
+  }
+
+  // Opens a new season of a region with a validated premium and trigger and deploys its policy token.
+  // Each policy pays out payoutMultiple times its premium.
+  function initialize(
+    RainyDayFund.SeasonPolicy storage policy,
+    RainyDayFund.Region storage region,
+    uint256 premium,
+    RainyDayFund.SeasonTrigger memory trigger,
+    uint256 regionId,
+    uint256 seasonId,
+    uint256 creationTimestamp,
+    uint256 payoutMultiple
+  ) public {
+    require(region.active, "Region inactive");
+    validateTrigger(trigger);
+    policy.creationTimestamp = creationTimestamp;
+    policy.payoutAmount = premium * payoutMultiple;
+    policy.premium = premium;
+    policy.policyToken = SeasonPolicyTokenDeployer.deploy(regionId, region.name, seasonId);
+    policy.triggerDirection = trigger.direction;
+    policy.triggerThreshold = trigger.threshold;
+    policy.indexType = trigger.indexType;
+    policy.indexThreshold = trigger.indexThreshold;
+    for (uint256 i = 0; i < trigger.tiers.length; i++) {
+      policy.payoutTiers.push(trigger.tiers[i]);
+    }
+    emit RainyDayFund.NewSeasonStarted(regionId, seasonId, premium, policy.payoutAmount, trigger);
+  }
+
+  // Opens the season for every active region with queued parameters, reverting if there is none, and
+  // pays the caller the keeper reward. totalAssets() excludes everything the senior tranche is entitled
+  // to, so only junior capital pays.
+  function roll(
+    mapping(uint256 => RainyDayFund.QueuedSeason) storage queuedSeasons,
+    mapping(uint256 => RainyDayFund.Region) storage regions,
+    mapping(uint256 => mapping(uint256 => RainyDayFund.SeasonPolicy)) storage seasonPolicies,
+    IERC20 usdc,
+    uint256 seasonId,
+    uint256 payoutMultiple
+  ) public {
+    RainyDayFund fund = RainyDayFund(address(this));
+    uint256 creationTimestamp = fund.getCurrentTime();
+    bool opened;
+    for (uint256 regionId = 0; regionId < fund.regionCount(); regionId++) {
+      RainyDayFund.QueuedSeason storage next = queuedSeasons[regionId];
+      if (next.queued && regions[regionId].active) {
+        initialize(
+          seasonPolicies[regionId][seasonId],
+          regions[regionId],
+          next.premium,
+          next.trigger,
+          regionId,
+          seasonId,
+          creationTimestamp,
+          payoutMultiple
+        );
+        opened = true;
+      }
+    }
+    require(opened, "No season queued");
+
+    uint256 reward = Math.min(fund.keeperReward(), fund.totalAssets());
+    if (reward > 0) {
+      require(usdc.transfer(msg.sender, reward), "Transfer failed");
+    }
+    emit RainyDayFund.SeasonRolled(seasonId, msg.sender, reward);
+  }
+
+  // Replaces a region's queued premium and trigger
+  function queue(
+    RainyDayFund.QueuedSeason storage next,
+    uint256 premium,
+    RainyDayFund.SeasonTrigger memory trigger,
+    uint256 regionId
+  ) public {
+    validateTrigger(trigger);
+    next.queued = true;
+    next.premium = premium;
+    next.trigger.direction = trigger.direction;
+    next.trigger.threshold = trigger.threshold;
+    next.trigger.indexType = trigger.indexType;
+    next.trigger.indexThreshold = trigger.indexThreshold;
+    delete next.trigger.tiers;
+    for (uint256 i = 0; i < trigger.tiers.length; i++) {
+      next.trigger.tiers.push(trigger.tiers[i]);
+    }
+    emit RainyDayFund.SeasonQueued(regionId, premium, trigger);
+  }
+
+  // Prices the purchase at the fund's current utilization, collects the premium from the buyer and mints
+  // the policies once the eligibility module, if the fund has one, approves the purchase. Returns the premium.
+  function issuePolicies(
+    RainyDayFund.SeasonPolicy storage policy,
+    RainyDayFund.Region storage region,
+    IEligibilityModule eligibilityModule,
+    IERC20 usdc,
+    uint256 amount,
+    uint256 maxPremium,
+    uint256 regionId,
+    uint256 seasonId
+  ) public returns (uint256 totalPremium) {
+    RainyDayFund fund = RainyDayFund(address(this));
+    require(amount > 0, "Amount > 0");
+    require(fund.getSeasonState(seasonId) == RainyDayFund.SeasonState.ACTIVE, "Not in active period");
+    require(address(policy.policyToken) != address(0), "Region season not open");
+    require(region.active, "Region inactive");
+    require(fund.isBootstrapped(), "Pool not bootstrapped");
+    require(amount <= fund.remainingCapacity(regionId), "Exceeds pool capacity");
+
+    totalPremium = fund.quotePremium(regionId, amount);
+    require(totalPremium <= maxPremium, "Premium exceeds maximum");
+    require(usdc.transferFrom(msg.sender, address(this), totalPremium), "Transfer failed");
+
+    if (address(eligibilityModule) != address(0)) {
+      eligibilityModule.checkPurchase(msg.sender, regionId, seasonId, amount, policy.payoutAmount);
+    }
+    SeasonPolicyToken(address(policy.policyToken)).mint(msg.sender, amount);
+    policy.totalPoliciesSold += amount;
+
+    emit RainyDayFund.PolicyBought(msg.sender, regionId, seasonId, amount, totalPremium, totalPremium / amount);
+  }
+
+  // Burns all policy tokens of the farmer and registers them for payout
+  function registerClaim(
+    RainyDayFund.SeasonPolicy storage policy,
+    mapping(address => uint256) storage registeredClaims,
+    address farmer,
+    uint256 regionId,
+    uint256 seasonId
+  ) public {
+    SeasonPolicyToken token = SeasonPolicyToken(address(policy.policyToken));
+    uint256 amount = token.balanceOf(farmer);
+    require(amount > 0, "No policies to claim");
+    require(policy.outcomePayoutBps > 0, "Weather not bad enough");
+
+    token.burnFrom(farmer, amount);
+    registeredClaims[farmer] += amount;
+    policy.totalClaimedPolicies += amount;
+
+    emit RainyDayFund.ClaimRegistered(farmer, regionId, seasonId, amount);
+  }
+
+  // Pays out the caller's registered claims at the settled payout per policy and returns the amount paid
+  function payClaim(
+    RainyDayFund.SeasonPolicy storage policy,
+    mapping(address => uint256) storage registeredClaims,
+    IERC20 usdc,
+    uint256 regionId,
+    uint256 seasonId
+  ) public returns (uint256 totalPayout) {
+    uint256 amount = registeredClaims[msg.sender];
+    totalPayout = policy.payoutPerPolicy * amount;
+    registeredClaims[msg.sender] = 0;
+
+    require(usdc.transfer(msg.sender, totalPayout), "Payout failed");
+
+    emit RainyDayFund.ClaimMade(msg.sender, regionId, seasonId, amount, totalPayout);
+  }
+
+  // Share of the full payout (in basis points) a reading triggers for the season
+  function payoutBps(RainyDayFund.SeasonPolicy storage policy, int256 weather) public view returns (uint256) {
+    if (!_isBeyond(policy.triggerDirection, weather, policy.triggerThreshold)) {
+      return 0;
+    }
+    if (policy.payoutTiers.length == 0) {
+      return BASIS_POINTS;
+    }
+    for (uint256 i = 0; i < policy.payoutTiers.length; i++) {
+      if (_isBeyond(policy.triggerDirection, weather, policy.payoutTiers[i].bound)) {
+        return policy.payoutTiers[i].payoutBps;
+      }
+    }
+    return 0;
+  }
+
+  // Adds the median of one round per feed to the season index. Rounds outside the season's coverage
+  // window are excluded. Each feed's rounds are recorded one after the
+  // other, starting with its first round in the window, so none can be skipped or counted twice; a
+  // round that was reported but excluded is used up as well, one that was not reported yet is not.
+  function recordObservation(
+    RainyDayFund.Region storage region,
+    RainyDayFund.SeasonPolicy storage policy,
+    RainyDayFund.SeasonIndex storage index,
+    mapping(address => uint80) storage lastRounds,
+    uint80[] memory roundIds,
+    uint256 regionId,
+    uint256 seasonId
+  ) public {
+    AggregatorV3Interface[] storage feeds = region.weatherFeeds;
+    require(policy.indexType != RainyDayFund.IndexType.LATEST, "Season uses latest reading");
+    require(!policy.weatherFinalized, "Outcome already finalized");
+    require(roundIds.length == feeds.length, "One round per feed");
+    RainyDayFund fund = RainyDayFund(address(this));
+    uint256 seasonEnd = fund.seasonOverTimeStamps(seasonId);
+    (, uint256 coverage, , ) = fund.seasonDurations(seasonId);
+    WeatherFeedLib.ReadParams memory params = _readParams(region);
+    params.notBefore = seasonEnd - coverage;
+    params.notAfter = seasonEnd - 1;
+    params.windowError = "Round outside coverage window";
+
+    (WeatherObservation memory median, string[] memory exclusions) = WeatherFeedLib.aggregate(feeds, roundIds, params);
+    for (uint256 i = 0; i < roundIds.length; i++) {
+      address feed = address(feeds[i]);
+      uint80 lastRound = lastRounds[feed];
+      if (lastRound == 0) {
+        require(
+          roundIds[i] <= 1 || _updatedAt(feeds[i], roundIds[i] - 1) < params.notBefore,
+          "Not the first round in window"
+        );
+      } else {
+        require(roundIds[i] > lastRound, "Round already recorded");
+        require(roundIds[i] == lastRound + 1, "Rounds must be consecutive");
+      }
+      if (_updatedAt(feeds[i], roundIds[i]) > 0) {
+        lastRounds[feed] = roundIds[i];
+      }
+      if (bytes(exclusions[i]).length == 0 && !_isSettlementFeed(policy, feed)) {
+        policy.settlementFeeds.push(feed);
+      }
+    }
+    _logExclusions(feeds, exclusions, regionId, seasonId);
+
+    index.observationCount++;
+    index.sum += median.answer;
+    if (median.answer < policy.indexThreshold) {
+      index.countBelow++;
+    }
+    index.lastRoundId = median.roundId;
+    index.lastTimestamp = median.timestamp;
+
+    emit RainyDayFund.ObservationRecorded(regionId, seasonId, median.roundId, median.answer, median.timestamp);
+  }
+
+  // Value the season's trigger is evaluated on, as aggregated from the recorded rounds
+  function indexValue(RainyDayFund.SeasonPolicy storage policy, RainyDayFund.SeasonIndex storage index)
+    public
+    view
+    returns (int256)
+  {
+    require(index.observationCount > 0, "No observations recorded");
+
+    if (policy.indexType == RainyDayFund.IndexType.SUM) {
+      return index.sum;
+    } else if (policy.indexType == RainyDayFund.IndexType.AVERAGE) {
+      return index.sum / int256(index.observationCount);
+    }
+    return int256(index.countBelow);
+  }
+
+  // Snapshots the season's weather outcome as of season end. Readings (or, for index seasons, the last
+  // recorded round) older than the fund's oracleMaxStaleness at season end do not count; 0 disables the check.
+  function finalizeOutcome(
+    RainyDayFund.Region storage region,
+    RainyDayFund.SeasonPolicy storage policy,
+    RainyDayFund.SeasonIndex storage index,
+    uint256 regionId,
+    uint256 seasonId
+  ) public {
+    AggregatorV3Interface[] storage feeds = region.weatherFeeds;
+    RainyDayFund fund = RainyDayFund(address(this));
+    uint256 maxStaleness = fund.oracleMaxStaleness();
+    uint256 seasonEnd = fund.seasonOverTimeStamps(seasonId);
+    WeatherObservation memory outcome;
+    if (policy.indexType == RainyDayFund.IndexType.LATEST) {
+      WeatherFeedLib.ReadParams memory params = _readParams(region);
+      // Each feed counts with its last reading at season end; readings posted later are skipped, and
+      // feeds whose reading is stale at season end do not count towards the quorum
+      params.notBefore = maxStaleness == 0 || maxStaleness > seasonEnd ? 0 : seasonEnd - maxStaleness;
+      params.notAfter = seasonEnd;
+      params.windowError = "Stale weather data";
+      string[] memory exclusions;
+      (outcome, exclusions) = WeatherFeedLib.aggregate(feeds, new uint80[](0), params);
+      _logExclusions(feeds, exclusions, regionId, seasonId);
+      for (uint256 i = 0; i < exclusions.length; i++) {
+        if (bytes(exclusions[i]).length == 0) {
+          policy.settlementFeeds.push(address(feeds[i]));
+        }
+      }
+    } else {
+      outcome = WeatherObservation(index.lastRoundId, indexValue(policy, index), index.lastTimestamp);
+      require(maxStaleness == 0 || outcome.timestamp + maxStaleness >= seasonEnd, "Stale weather data");
+    }
+
+    policy.weather = outcome;
+    policy.weatherFinalized = true;
+    policy.outcomePayoutBps = payoutBps(policy, outcome.answer);
+
+    emit RainyDayFund.SeasonOutcomeFinalized(regionId, seasonId, outcome.roundId, outcome.answer, outcome.timestamp);
+  }
+
+  // Reading rules the fund sets for the region's rounds; callers narrow the window
+  function _readParams(RainyDayFund.Region storage region) private view returns (WeatherFeedLib.ReadParams memory params) {
+    RainyDayFund fund = RainyDayFund(address(this));
+    params.minAnswer = fund.minWeatherAnswer();
+    params.maxAnswer = fund.maxWeatherAnswer();
+    params.currentTime = fund.getCurrentTime();
+    params.quorum = region.minFeedQuorum;
+  }
+
+  function _logExclusions(
+    AggregatorV3Interface[] storage feeds,
+    string[] memory exclusions,
+    uint256 regionId,
+    uint256 seasonId
+  ) private {
+    for (uint256 i = 0; i < exclusions.length; i++) {
+      if (bytes(exclusions[i]).length > 0) {
+        emit RainyDayFund.WeatherFeedExcluded(regionId, seasonId, address(feeds[i]), exclusions[i]);
+      }
+    }
+  }
+
+  // Time the feed reported the round at, or 0 if it has not reported it
+  function _updatedAt(AggregatorV3Interface feed, uint80 roundId) private view returns (uint256 updatedAt) {
+    try feed.getRoundData(roundId) returns (uint80, int256, uint256, uint256 u, uint80) {
+      updatedAt = u;
+    } catch {}
+  }
+
+  function _isSettlementFeed(RainyDayFund.SeasonPolicy storage policy, address feed) private view returns (bool) {
+    for (uint256 i = 0; i < policy.settlementFeeds.length; i++) {
+      if (policy.settlementFeeds[i] == feed) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  function _isBeyond(RainyDayFund.TriggerDirection direction, int256 value, int256 bound) private pure returns (bool) {
+    return direction == RainyDayFund.TriggerDirection.BELOW ? value < bound : value > bound;
+  }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract SeasonPolicyToken is ERC20 {
+  address public immutable rainyDayFund;
+  modifier onlyRainyDayFund() { require(msg.sender == rainyDayFund, "Only fund"); _; }
+
+  constructor(string memory name, string memory symbol, address _fund) ERC20(name, symbol) {
+    rainyDayFund = _fund;
+  }
+
+  function mint(address to, uint256 amount) external onlyRainyDayFund { _mint(to, amount); }
+  function burnFrom(address from, uint256 amount) external onlyRainyDayFund { _burn(from, amount); }
+}
+
+// Deploys the policy token of a region's season on behalf of the calling fund. Linked into
+// SeasonLib, so the token's creation code does not count towards the fund's contract size.
+library SeasonPolicyTokenDeployer {
+  function deploy(uint256 regionId, string memory regionName, uint256 seasonId) public returns (SeasonPolicyToken) {
+    return new SeasonPolicyToken(
+      string(abi.encodePacked("RainyDay Policy ", regionName, " Season ", _toString(seasonId))),
+      string(abi.encodePacked("RDP", _toString(regionId), "-", _toString(seasonId))),
+      address(this)
+    );
+  }
+
+  // minimal utility
+  function _toString(uint256 value) private pure returns (string memory) {
+    if (value == 0) return "0";
+    uint256 temp = value;
+    uint256 digits;
+    while (temp != 0) { digits++; temp /= 10; }
+    bytes memory buffer = new bytes(digits);
+    while (value != 0) { digits--; buffer[digits] = bytes1(uint8(48 + value % 10)); value /= 10; }
+    return string(buffer);
+  }
+}
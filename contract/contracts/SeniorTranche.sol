@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./RainyDayFund.sol";
+
+// Senior tranche of the RainyDayFund risk pool. The fund holds and accounts for its capital, so
+// deposits and redemptions follow the fund's season phases like RDIS shares do.
+contract SeniorTranche is ERC4626 {
+  using SafeERC20 for IERC20;
+
+  RainyDayFund public immutable fund;
+
+  // Virtual share offset protecting the first investor against donation (inflation) attacks
+  uint8 private constant SHARES_DECIMALS_OFFSET = 6;
+
+  constructor(RainyDayFund _fund)
+  ERC4626(_fund.usdc())
+  ERC20("RainyDay Senior Shares", "RDSS")
+  {
+    fund = _fund;
+  }
+
+  function totalAssets() public view override returns (uint256) {
+    return fund.seniorTrancheAssets();
+  }
+
+  function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+    super._deposit(caller, receiver, assets, shares);
+    IERC20(asset()).forceApprove(address(fund), assets);
+    fund.depositSeniorAssets(assets);
+  }
+
+  function _withdraw(address caller, address receiver, address owner, uint256 assets, uint256 shares)
+    internal
+    override
+  {
+    fund.withdrawSeniorAssets(assets);
+    super._withdraw(caller, receiver, owner, assets, shares);
+  }
+
+  function _decimalsOffset() internal pure override returns (uint8) {
+    return SHARES_DECIMALS_OFFSET;
+  }
+}
@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface AggregatorV3Interface {
+  function latestRoundData() external view returns (
+    uint80 roundId,
+    int256 answer,
+    uint256 startedAt,
+    uint256 updatedAt,
+    uint80 answeredInRound
+  );
+
+  function getRoundData(uint80 _roundId) external view returns (
+    uint80 roundId,
+    int256 answer,
+    uint256 startedAt,
+    uint256 updatedAt,
+    uint80 answeredInRound
+  );
+}
+
+struct WeatherObservation {
+  uint80 roundId;
+  int256 answer;
+  uint256 timestamp;
+}
+
+// Reads a set of weather feeds and reduces them to a single median observation.
+// Deployed once and linked into RainyDayFund, which keeps the fund below the contract size limit.
+library WeatherFeedLib {
+  // How far a feed's latest round is walked back to find the last round before notAfter
+  uint256 private constant MAX_ROUNDS_BACK = 24;
+
+  // Acceptance rules for a reading. Readings outside [notBefore, notAfter] are excluded with windowError.
+  struct ReadParams {
+    int256 minAnswer;
+    int256 maxAnswer;
+    uint256 currentTime;
+    uint256 notBefore;
+    uint256 notAfter;
+    string windowError;
+    uint256 quorum;
+  }
+
+  // Reads every feed, either its latest round or roundIds[i], and returns the median of the valid
+  // answers. With an even number of answers the upper middle one is used, so the result is always
+  // a reading an actual feed reported. exclusions[i] holds the reason feed i was left out, or is
+  // empty if it counted.
+  function aggregate(
+    AggregatorV3Interface[] storage feeds,
+    uint80[] memory roundIds,
+    ReadParams memory params
+  ) public view returns (WeatherObservation memory median, string[] memory exclusions) {
+    uint256 feedCount = feeds.length;
+    WeatherObservation[] memory valid = new WeatherObservation[](feedCount);
+    exclusions = new string[](feedCount);
+    uint256 validCount;
+
+    for (uint256 i = 0; i < feedCount; i++) {
+      (WeatherObservation memory observation, string memory error) =
+        _readFeed(feeds[i], roundIds.length == 0 ? 0 : roundIds[i], params);
+      if (bytes(error).length > 0) {
+        exclusions[i] = error;
+        continue;
+      }
+
+      // Insertion sort by answer
+      uint256 j = validCount++;
+      while (j > 0 && valid[j - 1].answer > observation.answer) {
+        valid[j] = valid[j - 1];
+        j--;
+      }
+      valid[j] = observation;
+    }
+
+    require(validCount >= params.quorum, "Oracle quorum not met");
+    median = valid[validCount / 2];
+  }
+
+  // Median of the feeds' latest rounds. Returns the observation only, which keeps decoding the result
+  // cheap for the calling contract.
+  function latestMedian(AggregatorV3Interface[] storage feeds, ReadParams memory params)
+    public
+    view
+    returns (WeatherObservation memory median)
+  {
+    (median, ) = aggregate(feeds, new uint80[](0), params);
+  }
+
+  // Reverts with the reason the feed's latest round cannot be used, if there is one
+  function requireValid(AggregatorV3Interface feed, ReadParams memory params) public view {
+    (, string memory error) = _readFeed(feed, 0, params);
+    require(bytes(error).length == 0, error);
+  }
+
+  function indexOf(AggregatorV3Interface[] storage feeds, address feed) internal view returns (uint256) {
+    for (uint256 i = 0; i < feeds.length; i++) {
+      if (address(feeds[i]) == feed) {
+        return i;
+      }
+    }
+    return type(uint256).max;
+  }
+
+  // Reads one round and returns why it cannot be used, if anything. With a roundId of 0 it reads the
+  // latest round at or before notAfter, so a reading posted after the window has closed does not count.
+  function _readFeed(AggregatorV3Interface feed, uint80 roundId, ReadParams memory params)
+    private
+    view
+    returns (WeatherObservation memory observation, string memory error)
+  {
+    bool ok;
+    uint256 startedAt;
+    uint80 answeredInRound;
+    if (roundId == 0) {
+      try feed.latestRoundData() returns (uint80 r, int256 a, uint256 s, uint256 u, uint80 air) {
+        (observation.roundId, observation.answer, startedAt, observation.timestamp, answeredInRound) = (r, a, s, u, air);
+        ok = true;
+      } catch {}
+      for (uint256 i = 0; i < MAX_ROUNDS_BACK && ok && observation.timestamp > params.notAfter; i++) {
+        if (observation.roundId <= 1) {
+          break;
+        }
+        (ok, observation, startedAt, answeredInRound) = _getRound(feed, observation.roundId - 1);
+      }
+    } else {
+      (ok, observation, startedAt, answeredInRound) = _getRound(feed, roundId);
+    }
+    if (!ok) {
+      return (observation, "Feed call failed");
+    }
+
+    if (roundId == 0 && observation.timestamp > params.notAfter) {
+      error = "No round before window end";
+    } else if (observation.roundId == 0 || startedAt == 0 || observation.timestamp < startedAt) {
+      error = "Incomplete oracle round";
+    } else if (answeredInRound < observation.roundId) {
+      error = "Stale oracle round";
+    } else if (observation.timestamp > params.currentTime) {
+      error = "Oracle timestamp in future";
+    } else if (observation.answer < params.minAnswer || observation.answer > params.maxAnswer) {
+      error = "Weather out of range";
+    } else if (observation.timestamp < params.notBefore || observation.timestamp > params.notAfter) {
+      error = params.windowError;
+    }
+  }
+
+  function _getRound(AggregatorV3Interface feed, uint80 roundId)
+    private
+    view
+    returns (bool ok, WeatherObservation memory observation, uint256 startedAt, uint80 answeredInRound)
+  {
+    try feed.getRoundData(roundId) returns (uint80 r, int256 a, uint256 s, uint256 u, uint80 air) {
+      (observation.roundId, observation.answer, startedAt, observation.timestamp, answeredInRound) = (r, a, s, u, air);
+      ok = true;
+    } catch {}
+  }
+}
@@ -28,14 +28,71 @@ async function main() {
   await mockWeatherOracle.waitForDeployment();
   console.log("✅ MockWeatherOracle deployed to:", await mockWeatherOracle.getAddress());
 
-  // Deploy RainyDayFund
-  const RainyDayFund = await ethers.getContractFactory("RainyDayFund");
+  // Deploy the libraries linked into RainyDayFund
+  const WeatherFeedLib = await ethers.getContractFactory("WeatherFeedLib");
+  const weatherFeedLib = await WeatherFeedLib.deploy();
+  await weatherFeedLib.waitForDeployment();
+  const SeasonPolicyTokenDeployer = await ethers.getContractFactory("SeasonPolicyTokenDeployer");
+  const seasonPolicyTokenDeployer = await SeasonPolicyTokenDeployer.deploy();
+  await seasonPolicyTokenDeployer.waitForDeployment();
+  const SeasonLib = await ethers.getContractFactory("SeasonLib", {
+    libraries: {
+      WeatherFeedLib: await weatherFeedLib.getAddress(),
+      SeasonPolicyTokenDeployer: await seasonPolicyTokenDeployer.getAddress()
+    }
+  });
+  const seasonLib = await SeasonLib.deploy();
+  await seasonLib.waitForDeployment();
+  const RegionLib = await ethers.getContractFactory("RegionLib", {
+    libraries: { WeatherFeedLib: await weatherFeedLib.getAddress() }
+  });
+  const regionLib = await RegionLib.deploy();
+  await regionLib.waitForDeployment();
+  const CapitalLib = await ethers.getContractFactory("CapitalLib");
+  const capitalLib = await CapitalLib.deploy();
+  await capitalLib.waitForDeployment();
+  const GovernanceLib = await ethers.getContractFactory("GovernanceLib");
+  const governanceLib = await GovernanceLib.deploy();
+  await governanceLib.waitForDeployment();
+  const PremiumPricing = await ethers.getContractFactory("PremiumPricing");
+  const premiumPricing = await PremiumPricing.deploy();
+  await premiumPricing.waitForDeployment();
+  console.log("✅ Libraries deployed");
+
+  // Deploy RainyDayFund. The frontend advances seasons phase by phase, so the local chain gets the
+  // test harness with its adjustable clock instead of the production contract.
+  const RainyDayFund = await ethers.getContractFactory("RainyDayFundTestHarness", {
+    libraries: {
+      WeatherFeedLib: await weatherFeedLib.getAddress(),
+      SeasonLib: await seasonLib.getAddress(),
+      RegionLib: await regionLib.getAddress(),
+      CapitalLib: await capitalLib.getAddress(),
+      GovernanceLib: await governanceLib.getAddress(),
+      PremiumPricing: await premiumPricing.getAddress()
+    }
+  });
   const rainyDayFund = await RainyDayFund.deploy(
     await mockUSDC.getAddress(),
     await mockWeatherOracle.getAddress()
   );
   await rainyDayFund.waitForDeployment();
-  console.log("✅ RainyDayFund deployed to:", await rainyDayFund.getAddress());
+  console.log("✅ RainyDayFund (test harness) deployed to:", await rainyDayFund.getAddress());
+
+  // Deploy the senior tranche vault and register it with the fund
+  const SeniorTranche = await ethers.getContractFactory("SeniorTranche");
+  const seniorTranche = await SeniorTranche.deploy(await rainyDayFund.getAddress());
+  await seniorTranche.waitForDeployment();
+  await rainyDayFund.setSeniorTranche(await seniorTranche.getAddress());
+  console.log("✅ SeniorTranche deployed to:", await seniorTranche.getAddress());
+
+  // Hand the default admin over to the timelock; the owner keeps the operational roles
+  const RainyDayTimelock = await ethers.getContractFactory("RainyDayTimelock");
+  const timelock = await RainyDayTimelock.deploy([owner.address], [owner.address]);
+  await timelock.waitForDeployment();
+  const defaultAdminRole = await rainyDayFund.DEFAULT_ADMIN_ROLE();
+  await rainyDayFund.grantRole(defaultAdminRole, await timelock.getAddress());
+  await rainyDayFund.renounceRole(defaultAdminRole, owner.address);
+  console.log("✅ RainyDayTimelock deployed to:", await timelock.getAddress());
 
   // Mint USDC to test accounts
   const initialBalance = ethers.parseUnits("10000", 6); // 10,000 USDC
@@ -51,15 +108,23 @@ async function main() {
   await mockUSDC.connect(farmer2).approve(await rainyDayFund.getAddress(), maxApproval);
   await mockUSDC.connect(investor1).approve(await rainyDayFund.getAddress(), maxApproval);
   await mockUSDC.connect(investor2).approve(await rainyDayFund.getAddress(), maxApproval);
+  await mockUSDC.connect(investor1).approve(await seniorTranche.getAddress(), maxApproval);
+  await mockUSDC.connect(investor2).approve(await seniorTranche.getAddress(), maxApproval);
   console.log("✅ Approvals set");
 
   // Save deployment info for frontend
   const deploymentInfo = {
     network: "localhost",
+    // Wallets connecting from the frontend have to be on this chain
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    // The indexer starts reading events here
+    deploymentBlock: (await rainyDayFund.deploymentTransaction().wait()).blockNumber,
     contracts: {
       MockUSDC: await mockUSDC.getAddress(),
       MockWeatherOracle: await mockWeatherOracle.getAddress(),
-      RainyDayFund: await rainyDayFund.getAddress()
+      RainyDayFund: await rainyDayFund.getAddress(),
+      SeniorTranche: await seniorTranche.getAddress(),
+      RainyDayTimelock: await timelock.getAddress()
     },
     accounts: {
       owner: owner.address,
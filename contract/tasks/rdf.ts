@@ -0,0 +1,309 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatUnits, keccak256, parseUnits } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { RainyDayFund, RainyDaySdk } from "../../sdk/src";
+
+// Tasks for operating a deployed fund from the command line, e.g.
+//   npx hardhat rdf:status --network localhost
+//   npx hardhat rdf:buy --account farmer1 --amount 3 --network localhost
+// Contract addresses and account names (owner, farmer1, ...) come from the deployment-info.json written by
+// deploy-for-testing.js. A revert ends the task with its decoded reason and a non-zero exit code.
+
+const PLUGIN = "rdf";
+const DAY = 24 * 60 * 60;
+const PAUSE_FLAGS = ["underwriting", "claims", "withdrawals"];
+
+type SdkModule = typeof import("../../sdk/src");
+
+interface DeploymentInfo {
+  contracts: { RainyDayFund: string };
+  accounts?: Record<string, string>;
+}
+
+interface FundContext {
+  sdkModule: SdkModule;
+  sdk: RainyDaySdk;
+  signer: HardhatEthersSigner;
+}
+
+interface TaskArgs {
+  deployment: string;
+  account: string;
+}
+
+// The SDK is built on the typechain bindings, which only exist once the contracts are compiled, so it is loaded
+// when a task runs rather than with the config
+async function connectFund(hre: HardhatRuntimeEnvironment, deployment: string, account: string): Promise<FundContext> {
+  if (!fs.existsSync(deployment)) {
+    throw new HardhatPluginError(PLUGIN, `${deployment} not found. Run scripts/deploy-for-testing.js first.`);
+  }
+  const info: DeploymentInfo = JSON.parse(fs.readFileSync(deployment, "utf8"));
+  // An account name from deployment-info.json, an index into the node's accounts or an address
+  const address = info.accounts?.[account]
+    ?? (/^\d+$/.test(account) ? (await hre.ethers.getSigners())[Number(account)]?.address : account);
+  if (!address || !hre.ethers.isAddress(address)) {
+    throw new HardhatPluginError(PLUGIN, `Unknown account ${account}`);
+  }
+  const signer = await hre.ethers.getSigner(address);
+  const sdkModule = await import("../../sdk/src");
+  const sdk = await sdkModule.RainyDaySdk.connect(info.contracts.RainyDayFund, signer);
+  return { sdkModule, sdk, signer };
+}
+
+// Runs a task against the fund, turning reverts into a plugin error with the decoded reason
+async function withFund(
+  hre: HardhatRuntimeEnvironment,
+  { deployment, account }: TaskArgs,
+  action: (context: FundContext) => Promise<void>
+): Promise<void> {
+  const context = await connectFund(hre, deployment, account);
+  try {
+    await action(context);
+  } catch (error) {
+    if (HardhatPluginError.isHardhatPluginError(error)) {
+      throw error;
+    }
+    const reason = context.sdkModule.decodeRevertReason(error, [context.sdk.fund.interface]);
+    throw new HardhatPluginError(PLUGIN, reason, error instanceof Error ? error : undefined);
+  }
+}
+
+function rdfTask(name: string, description: string, defaultAccount: string): ConfigurableTaskDefinition {
+  return task(name, description)
+    .addOptionalParam("deployment", "Path to the deployment-info.json with the contract addresses", "deployment-info.json")
+    .addOptionalParam("account", "Account name from deployment-info.json, account index or address", defaultAccount);
+}
+
+// The season that takes claims and withdrawals: the previous one while it is still in CLAIM or WITHDRAW
+async function claimSeasonId(fund: RainyDayFund): Promise<bigint> {
+  const seasonId = await fund.currentSeasonId();
+  if (seasonId > 1n && (await fund.getSeasonState(seasonId)) < 2n && (await fund.getSeasonState(seasonId - 1n)) < 4n) {
+    return seasonId - 1n;
+  }
+  return seasonId;
+}
+
+// Timelocked changes are queued with queueChange once the pool has investors; until then they apply right away
+async function mustQueue(fund: RainyDayFund, data: string): Promise<boolean> {
+  const invested = (await fund.totalSupply()) > 0n || (await fund.seniorAssets()) > 0n;
+  return invested && (await fund.queuedChanges(keccak256(data))).eta === 0n;
+}
+
+// Decimals of a whole vault share: the vault's decimals offset on top of the 6 USDC decimals the fund works with.
+// The vault's own decimals() adds the offset to the token's reported decimals, which MockUSDC leaves at 18.
+async function shareDecimals(hre: HardhatRuntimeEnvironment, { USDC_DECIMALS }: SdkModule, vault: string): Promise<number> {
+  const shares = await hre.ethers.getContractAt("IERC4626", vault);
+  const asset = await hre.ethers.getContractAt("IERC20Metadata", await shares.asset());
+  return Number((await shares.decimals()) - (await asset.decimals())) + USDC_DECIMALS;
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return `${new Date(Number(timestamp) * 1000).toISOString().replace("T", " ").slice(0, 19)} UTC`;
+}
+
+// A phase boundary with the time left until it
+function formatDate(timestamp: bigint, now: bigint): string {
+  const date = formatTimestamp(timestamp);
+  const seconds = Number(timestamp - now);
+  if (seconds <= 0) {
+    return `${date} (passed)`;
+  }
+  return `${date} (in ${Math.floor(seconds / DAY)}d ${Math.floor((seconds % DAY) / 3600)}h)`;
+}
+
+rdfTask("rdf:status", "Prints the current season's phase and dates and the state of the pool", "owner")
+  .addOptionalParam("region", "Region id", 0, types.int)
+  .setAction(async (args: TaskArgs & { region: number }, hre) => {
+    await withFund(hre, args, async ({ sdkModule, sdk }) => {
+      const { SeasonState, formatUsdc } = sdkModule;
+      const { fund } = sdk;
+      const usdc = (amount: bigint) => `${formatUsdc(amount)} USDC`;
+      const now = await fund.getCurrentTime();
+      const seasonId = await fund.currentSeasonId();
+      const season = await sdk.seasonInfo(seasonId, args.region);
+
+      console.log(`RainyDayFund ${await fund.getAddress()} on ${hre.network.name}, chain time ${formatTimestamp(now)}`);
+      console.log(`Season ${seasonId} in ${(await fund.regions(args.region)).name}: ${SeasonState[season.state]}`);
+      if (season.policyToken) {
+        console.log(`  Premium ${usdc(season.premium)}, payout ${usdc(season.payoutAmount)}, ${season.totalPoliciesSold} policies sold`);
+      } else {
+        console.log("  Not opened in this region");
+      }
+      console.log(`  Sales close       ${formatDate(season.salesClose, now)}`);
+      console.log(`  Coverage ends     ${formatDate(season.coverageEnd, now)}`);
+      console.log(`  Claims close      ${formatDate(season.claimWindowEnd, now)}`);
+      console.log(`  Withdrawals close ${formatDate(season.withdrawalsClose, now)}`);
+      const claimSeason = await claimSeasonId(fund);
+      if (claimSeason !== seasonId) {
+        const previous = await sdk.seasonInfo(claimSeason, args.region);
+        console.log(`Season ${claimSeason}: ${SeasonState[previous.state]}, ${previous.totalClaimedPolicies} policies claimed, ` +
+          `${usdc(previous.payoutPerPolicy)} per policy`);
+      }
+
+      const juniorShare = 10n ** BigInt(await shareDecimals(hre, sdkModule, await fund.getAddress()));
+      console.log(`Junior tranche    ${usdc(await fund.totalAssets())}, ${usdc(await fund.convertToAssets(juniorShare))} per RDIS share`);
+      if (sdk.seniorTranche) {
+        const seniorShare = 10n ** BigInt(await shareDecimals(hre, sdkModule, await sdk.seniorTranche.getAddress()));
+        console.log(`Senior tranche    ${usdc(await fund.seniorTrancheAssets())}, ` +
+          `${usdc(await sdk.seniorTranche.convertToAssets(seniorShare))} per RDSS share`);
+      }
+      console.log(`Liability         ${usdc(await fund.outstandingLiability())}`);
+      console.log(`Locked capital    ${usdc(await fund.lockedCapital())}`);
+      console.log(`Utilization       ${Number(await fund.utilization()) / 100}%`);
+      const paused = [];
+      for (const [flag, name] of PAUSE_FLAGS.entries()) {
+        if ((await fund.pausedSince(flag)) > 0n) {
+          paused.push(name);
+        }
+      }
+      if (paused.length > 0) {
+        console.log(`Paused            ${paused.join(", ")}`);
+      }
+    });
+  });
+
+rdfTask("rdf:buy", "Buys policies of the current season", "farmer1")
+  .addParam("amount", "Number of policies", undefined, types.int)
+  .addOptionalParam("region", "Region id", 0, types.int)
+  .addOptionalParam("maxPremium", "Most to pay in total in USDC, the current quote by default", undefined, types.string)
+  .setAction(async (args: TaskArgs & { amount: number; region: number; maxPremium?: string }, hre) => {
+    await withFund(hre, args, async ({ sdkModule: { formatUsdc, parseUsdc }, sdk, signer }) => {
+      const limit = args.maxPremium === undefined ? undefined : parseUsdc(args.maxPremium);
+      const receipt = await sdk.buyPolicy(args.region, args.amount, limit);
+      const bought = receipt.logs.map((log) => sdk.fund.interface.parseLog(log)).find((event) => event?.name === "PolicyBought");
+      console.log(`${signer.address} bought ${args.amount} policies of season ${bought?.args.seasonId} ` +
+        `for ${formatUsdc(bought?.args.totalPremium ?? 0n)} USDC`);
+    });
+  });
+
+rdfTask("rdf:invest", "Invests USDC into the junior or senior tranche", "investor1")
+  .addParam("amount", "USDC to invest", undefined, types.string)
+  .addFlag("senior", "Invest into the senior tranche")
+  .setAction(async (args: TaskArgs & { amount: string; senior: boolean }, hre) => {
+    await withFund(hre, args, async ({ sdkModule, sdk, signer }) => {
+      const assets = sdkModule.parseUsdc(args.amount);
+      if (args.senior) {
+        const tranche = sdk.seniorTranche;
+        if (!tranche) {
+          throw new HardhatPluginError(PLUGIN, "The fund has no senior tranche");
+        }
+        await sdk.ensureAllowance(tranche, assets);
+        await (await tranche.deposit(assets, signer.address)).wait();
+      } else {
+        await sdk.invest(assets);
+      }
+      const vault = args.senior ? sdk.seniorTranche! : sdk.fund;
+      const shares = formatUnits(await vault.balanceOf(signer.address), await shareDecimals(hre, sdkModule, await vault.getAddress()));
+      console.log(`${signer.address} invested ${args.amount} USDC and holds ${shares} ${args.senior ? "RDSS" : "RDIS"} shares`);
+    });
+  });
+
+rdfTask("rdf:redeem", "Redeems junior or senior shares; by default all that are redeemable", "investor1")
+  .addOptionalParam("shares", "Shares to redeem, e.g. 12.5", undefined, types.string)
+  .addFlag("senior", "Redeem senior tranche shares")
+  .setAction(async (args: TaskArgs & { shares?: string; senior: boolean }, hre) => {
+    await withFund(hre, args, async ({ sdkModule, sdk, signer }) => {
+      const tranche = sdk.seniorTranche;
+      if (args.senior && !tranche) {
+        throw new HardhatPluginError(PLUGIN, "The fund has no senior tranche");
+      }
+      const vault = args.senior ? tranche! : sdk.fund;
+      const shares = args.shares === undefined
+        ? await vault.maxRedeem(signer.address)
+        : parseUnits(args.shares, await shareDecimals(hre, sdkModule, await vault.getAddress()));
+      if (shares === 0n) {
+        throw new HardhatPluginError(PLUGIN, "No redeemable shares");
+      }
+      const before = await sdk.usdc.balanceOf(signer.address);
+      if (args.senior) {
+        await (await tranche!.redeem(shares, signer.address, signer.address)).wait();
+      } else {
+        await (await sdk.fund.redeemShares(shares)).wait();
+      }
+      const received = (await sdk.usdc.balanceOf(signer.address)) - before;
+      console.log(`${signer.address} received ${sdkModule.formatUsdc(received)} USDC`);
+    });
+  });
+
+rdfTask("rdf:claim", "Registers policies for payout during CLAIM, withdraws the payout from WITHDRAW on", "farmer1")
+  .addOptionalParam("region", "Region id", 0, types.int)
+  .addOptionalParam("season", "Season id, the one currently taking claims by default", undefined, types.int)
+  .setAction(async (args: TaskArgs & { region: number; season?: number }, hre) => {
+    await withFund(hre, args, async ({ sdkModule: { SeasonState, formatUsdc }, sdk, signer }) => {
+      const seasonId = args.season === undefined ? await claimSeasonId(sdk.fund) : BigInt(args.season);
+      const state = Number(await sdk.fund.getSeasonState(seasonId));
+      if (state === SeasonState.CLAIM) {
+        await sdk.claim(args.region, seasonId);
+        const claimed = await sdk.fund.registeredClaims(args.region, seasonId, signer.address);
+        console.log(`${signer.address} registered ${claimed} policies of season ${seasonId} for payout`);
+      } else if (state >= SeasonState.WITHDRAW) {
+        const before = await sdk.usdc.balanceOf(signer.address);
+        await sdk.withdrawPayout(args.region, seasonId);
+        console.log(`${signer.address} withdrew ${formatUsdc((await sdk.usdc.balanceOf(signer.address)) - before)} USDC ` +
+          `for season ${seasonId}`);
+      } else {
+        throw new HardhatPluginError(PLUGIN, `Season ${seasonId} is ${SeasonState[state]}, claims open with CLAIM`);
+      }
+    });
+  });
+
+rdfTask("rdf:set-weather", "Reports a new reading on the region's first weather feed (MockWeatherOracle)", "owner")
+  .addParam("value", "Weather reading", undefined, types.int)
+  .addOptionalParam("region", "Region id", 0, types.int)
+  .setAction(async (args: TaskArgs & { value: number; region: number }, hre) => {
+    await withFund(hre, args, async ({ sdk, signer }) => {
+      const [feed] = await sdk.fund.getWeatherFeeds(args.region);
+      const oracle = await hre.ethers.getContractAt("MockWeatherOracle", feed, signer);
+      await (await oracle.updatePrice(args.value)).wait();
+      console.log(`Weather of region ${args.region} set to ${args.value} (round ${await oracle.latestRound()})`);
+    });
+  });
+
+rdfTask("rdf:advance-phase", "Moves the clock of a RainyDayFundTestHarness to the next phase", "owner")
+  .setAction(async (args: TaskArgs, hre) => {
+    await withFund(hre, args, async ({ sdkModule: { SeasonState }, sdk, signer }) => {
+      const harness = await hre.ethers.getContractAt("RainyDayFundTestHarness", await sdk.fund.getAddress(), signer);
+      await (await harness.advanceToNextPhase()).wait();
+      const seasonId = await sdk.fund.currentSeasonId();
+      console.log(`Season ${seasonId} is now ${SeasonState[Number(await sdk.fund.getSeasonState(seasonId))]}`);
+    });
+  });
+
+rdfTask("rdf:new-season", "Starts the next season, or opens the current one in a region. Timelocked: " +
+  "once the pool has investors the first run queues the change, the identical run once it is due applies it", "owner")
+  .addParam("premium", "Premium per policy in USDC", undefined, types.string)
+  .addOptionalParam("region", "Region id", 0, types.int)
+  .addOptionalParam("direction", "Pay out when the weather ends up below or above the threshold", "below", types.string)
+  .addOptionalParam("threshold", "Weather threshold of the payout", 10, types.int)
+  .addOptionalParam("days", "Length of each of the four phases in days", 30, types.int)
+  .setAction(async (args: TaskArgs & { premium: string; region: number; direction: string; threshold: number; days: number }, hre) => {
+    if (args.direction !== "below" && args.direction !== "above") {
+      throw new HardhatPluginError(PLUGIN, "--direction must be below or above");
+    }
+    await withFund(hre, args, async ({ sdkModule: { SeasonState, parseUsdc }, sdk, signer }) => {
+      const { fund } = sdk;
+      const trigger = { direction: args.direction === "below" ? 0 : 1, threshold: args.threshold, indexType: 0, indexThreshold: 0, tiers: [] };
+      const phase = args.days * DAY;
+      const durations = { active: phase, coverage: phase, claim: phase, withdraw: phase };
+      // Once coverage is over the fund moves to the next season, otherwise the region joins the current one
+      const seasonId = await fund.currentSeasonId();
+      const startsNextSeason = Number(await fund.getSeasonState(seasonId)) >= SeasonState.CLAIM;
+      const change = startsNextSeason
+        ? fund.startNewSeason.populateTransaction(args.region, parseUsdc(args.premium), trigger, durations)
+        : fund.openRegionSeason.populateTransaction(args.region, parseUsdc(args.premium), trigger);
+      const { data } = await change;
+      if (await mustQueue(fund, data)) {
+        await (await fund.queueChange(data)).wait();
+        const { eta, exitSeason } = await fund.queuedChanges(keccak256(data));
+        const now = await fund.getCurrentTime();
+        console.log(`Queued; run the same command again once season ${exitSeason} has finished, ` +
+          `but not before ${formatDate(eta, now)}, to apply it`);
+      } else {
+        await (await signer.sendTransaction(await change)).wait();
+        console.log(`Season ${startsNextSeason ? seasonId + 1n : seasonId} started in region ${args.region}`);
+      }
+    });
+  });
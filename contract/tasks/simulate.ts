@@ -0,0 +1,174 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { IndexType, PayoutTier, ReplayNetwork, SimulationConfig } from "../../simulator/src";
+
+// Monte Carlo simulation of the fund's economics over a historical weather series, e.g.
+//   npx hardhat rdf:simulate --weather ../simulator/examples/rainfall.csv --premium 9 --threshold 10
+//   npx hardhat rdf:simulate --weather ../simulator/examples/rainfall.csv --replay 0,3
+// --replay runs the listed paths against a RainyDayFund deployed on the in-process Hardhat network and fails if the
+// contract ends any season in a different state than the model.
+
+const PLUGIN = "rdf";
+const INDEX_TYPES: Record<string, IndexType> = { latest: "latest", sum: "sum", average: "average", "count-below": "countBelow" };
+
+interface SimulateArgs {
+  weather: string;
+  column?: string;
+  scale: number;
+  seasonLength: number;
+  paths: number;
+  seasons: number;
+  seed: number;
+  premium: string;
+  payoutMultiple: number;
+  collateralRatio: number;
+  direction: string;
+  threshold: number;
+  index: string;
+  indexThreshold: number;
+  tiers: string;
+  farmers: number;
+  maxPolicies: number;
+  juniorCapital: string;
+  seniorCapital: string;
+  replay: string;
+}
+
+// "2:10000,5:5000" pays in full below (or above) 2 and half below 5
+function parseTiers(tiers: string): PayoutTier[] {
+  return tiers.split(",").filter((tier) => tier.trim() !== "").map((tier) => {
+    const [bound, payoutBps] = tier.split(":").map((part) => Number(part.trim()));
+    if (!Number.isInteger(bound) || !Number.isInteger(payoutBps)) {
+      throw new HardhatPluginError(PLUGIN, `Invalid payout tier ${tier}, expected bound:payoutBps`);
+    }
+    return { bound, payoutBps };
+  });
+}
+
+function parseIndices(list: string, paths: number): number[] {
+  return list.split(",").filter((item) => item.trim() !== "").map((item) => {
+    const index = Number(item.trim());
+    if (!Number.isInteger(index) || index < 0 || index >= paths) {
+      throw new HardhatPluginError(PLUGIN, `Path ${item} is not one of the ${paths} simulated paths`);
+    }
+    return index;
+  });
+}
+
+async function replayNetwork(hre: HardhatRuntimeEnvironment): Promise<ReplayNetwork> {
+  return {
+    signers: await hre.ethers.getSigners(),
+    // The replay talks to the contracts through their typechain bindings, so deploying only needs the constructor.
+    // ethers would warn about every library function taking an enum or contract type.
+    deploy: async (contract, args = [], libraries) => {
+      const artifact = await hre.artifacts.readArtifact(contract);
+      const constructorOnly = { ...artifact, abi: artifact.abi.filter((fragment) => fragment.type === "constructor") };
+      const factory = await hre.ethers.getContractFactoryFromArtifact(constructorOnly, { libraries });
+      return (await factory.deploy(...args)).getAddress();
+    },
+    increaseTo: async (timestamp) => {
+      await hre.network.provider.request({ method: "evm_mine", params: [Number(timestamp)] });
+    },
+  };
+}
+
+task("rdf:simulate", "Simulates seasons of random farmer and investor flows over a historical weather series and " +
+  "reports loss ratio, probability of ruin and investor returns")
+  .addParam("weather", "CSV file with a header row and one reading per line, oldest first")
+  .addOptionalParam("column", "Header of the reading column (default: the second column)")
+  .addOptionalParam("scale", "Factor applied to the readings before rounding them to the oracle's integers", 1, types.float)
+  .addOptionalParam("seasonLength", "Readings per historical season", 30, types.int)
+  .addOptionalParam("paths", "Number of simulated paths", 1000, types.int)
+  .addOptionalParam("seasons", "Seasons per path", 10, types.int)
+  .addOptionalParam("seed", "Random seed", 1, types.int)
+  .addOptionalParam("premium", "Premium per policy in USDC", "9", types.string)
+  .addOptionalParam("payoutMultiple", "Full payout as a multiple of the premium", 4, types.int)
+  .addOptionalParam("collateralRatio", "Capital the pool must hold per unit of liability, in basis points", 10_000, types.int)
+  .addOptionalParam("direction", "Pay out when the weather ends up below or above the threshold", "below", types.string)
+  .addOptionalParam("threshold", "Weather threshold of the payout", 10, types.int)
+  .addOptionalParam("index", "Outcome of a season: latest, sum, average or count-below", "latest", types.string)
+  .addOptionalParam("indexThreshold", "Readings below it count towards a count-below index", 0, types.int)
+  .addOptionalParam("tiers", "Payout tiers as bound:payoutBps pairs, most severe first", "", types.string)
+  .addOptionalParam("farmers", "Number of farmers", 5, types.int)
+  .addOptionalParam("maxPolicies", "Most policies a farmer buys at once", 20, types.int)
+  .addOptionalParam("juniorCapital", "Junior capital deposited before the first season, in USDC", "1000", types.string)
+  .addOptionalParam("seniorCapital", "Senior capital deposited before the first season, in USDC", "500", types.string)
+  .addOptionalParam("replay", "Comma-separated paths to replay against the contract", "", types.string)
+  .setAction(async (args: SimulateArgs, hre) => {
+    if (args.direction !== "below" && args.direction !== "above") {
+      throw new HardhatPluginError(PLUGIN, "--direction must be below or above");
+    }
+    const indexType = INDEX_TYPES[args.index];
+    if (!indexType) {
+      throw new HardhatPluginError(PLUGIN, "--index must be latest, sum, average or count-below");
+    }
+    // The simulator replays through the typechain bindings, which only exist once the contracts are compiled
+    const simulator = await import("../../simulator/src");
+    const sdk = await import("../../sdk/src");
+    const replays = parseIndices(args.replay, args.paths);
+    if (replays.length > 0 && hre.network.name !== "hardhat") {
+      throw new HardhatPluginError(PLUGIN, "Paths can only be replayed on the in-process hardhat network");
+    }
+
+    let mismatched = 0;
+    try {
+      const series = simulator.loadWeatherCsv(args.weather, { column: args.column, scale: args.scale });
+      const weather = simulator.historicalSeasons(series, args.seasonLength);
+      const config: SimulationConfig = {
+        fund: {
+          ...simulator.DEFAULT_FUND_PARAMETERS,
+          premium: sdk.parseUsdc(args.premium),
+          payoutMultiple: BigInt(args.payoutMultiple),
+          collateralizationRatioBps: BigInt(args.collateralRatio),
+          trigger: {
+            direction: args.direction,
+            threshold: args.threshold,
+            indexType,
+            indexThreshold: args.indexThreshold,
+            tiers: parseTiers(args.tiers),
+          },
+        },
+        flows: {
+          ...simulator.DEFAULT_FLOW_PARAMETERS,
+          farmers: args.farmers,
+          maxPolicies: args.maxPolicies,
+          initialJuniorCapital: sdk.parseUsdc(args.juniorCapital),
+          initialSeniorCapital: sdk.parseUsdc(args.seniorCapital),
+        },
+        weather,
+        seasonsPerPath: args.seasons,
+        paths: args.paths,
+        seed: args.seed,
+      };
+
+      console.log(`${weather.length} historical seasons of ${args.seasonLength} readings from ${args.weather}`);
+      for (const line of simulator.formatReport(simulator.simulate(config))) {
+        console.log(line);
+      }
+
+      for (const index of replays) {
+        const result = await simulator.replayPath(await replayNetwork(hre), config, index);
+        if (result.matches) {
+          console.log(`Path ${index}: the contract matches the model over ${result.seasons.length} seasons`);
+          continue;
+        }
+        mismatched++;
+        for (const season of result.seasons) {
+          for (const key of season.mismatches) {
+            console.log(`Path ${index}, season ${season.season + 1}: ${key} is ${season.chain[key]} on chain, ` +
+              `${season.model[key]} in the model`);
+          }
+        }
+      }
+    } catch (error) {
+      if (HardhatPluginError.isHardhatPluginError(error)) {
+        throw error;
+      }
+      const interfaces = [sdk.RainyDayFund__factory.createInterface(), sdk.SeniorTranche__factory.createInterface()];
+      throw new HardhatPluginError(PLUGIN, sdk.decodeRevertReason(error, interfaces), error instanceof Error ? error : undefined);
+    }
+    if (mismatched > 0) {
+      throw new HardhatPluginError(PLUGIN, `${mismatched} replayed path(s) differ from the model`);
+    }
+  });
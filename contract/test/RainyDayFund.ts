@@ -1,7 +1,32 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { RainyDayFund, MockUSDC, MockWeatherOracle, SeasonPolicyToken } from "../typechain-types";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { ethers, run } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { RainyDayFund, RainyDayFundTestHarness, RainyDayTimelock, MockEligibilityModule, MockUSDC, MockWeatherOracle, SeasonPolicyToken, SeniorTranche } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { RainyDayError, RainyDaySdk, SeasonState, decodeRevertReason, parseUsdc } from "../../sdk/src";
+import { EventStore, Indexer, createApiServer } from "../../indexer/src";
+import {
+  DEFAULT_FLOW_PARAMETERS,
+  DEFAULT_FUND_PARAMETERS,
+  FundModel,
+  FundParameters,
+  SimulationConfig,
+  Trigger,
+  historicalSeasons,
+  indexValue,
+  loadWeatherCsv,
+  parseWeatherCsv,
+  payoutBps,
+  runPath,
+  simulate,
+  validateTrigger,
+} from "../../simulator/src";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
 
 describe("RainyDayFund", function () {
   let rainyDayFund: RainyDayFund;
@@ -16,8 +41,104 @@ describe("RainyDayFund", function () {
   const INITIAL_USDC_BALANCE = ethers.parseUnits("10000", USDC_DECIMALS); // 10,000 USDC
   const PREMIUM = ethers.parseUnits("9", USDC_DECIMALS);
   const PAYOUT = PREMIUM * 4n; // 4x premium payout
+  const NO_PREMIUM_LIMIT = ethers.MaxUint256;
   const INITIAL_WEATHER = 5; // Bad weather (< 10 triggers payout)
   const TIME_UNIT = 30n * 24n * 60n * 60n; // 30 days in seconds
+  const CHANGE_DELAY = 7n * 24n * 60n * 60n;
+  const BELOW = 0;
+  const ABOVE = 1;
+  const LATEST = 0;
+  const SUM = 1;
+  const AVERAGE = 2;
+  const COUNT_BELOW = 3;
+  // Payout when the latest reading at season end is below 10
+  const DEFAULT_TRIGGER: RainyDayFund.SeasonTriggerStruct = {
+    direction: BELOW,
+    threshold: 10,
+    indexType: LATEST,
+    indexThreshold: 0,
+    tiers: [],
+  };
+  const DEFAULT_DURATIONS: RainyDayFund.PhaseDurationsStruct = {
+    active: TIME_UNIT,
+    coverage: TIME_UNIT,
+    claim: TIME_UNIT,
+    withdraw: TIME_UNIT,
+  };
+
+  // RainyDayFund and its test harness link the oracle aggregation, season, region, capital, governance and pricing
+  // libraries.
+  // SeasonLib and RegionLib in turn link the oracle library, SeasonLib also the policy token deployment library.
+  async function deployLibraries() {
+    const weatherFeedLib = await (await ethers.getContractFactory("WeatherFeedLib")).deploy();
+    const tokenDeployer = await (await ethers.getContractFactory("SeasonPolicyTokenDeployer")).deploy();
+    const seasonLib = await (await ethers.getContractFactory("SeasonLib", {
+      libraries: {
+        WeatherFeedLib: await weatherFeedLib.getAddress(),
+        SeasonPolicyTokenDeployer: await tokenDeployer.getAddress(),
+      },
+    })).deploy();
+    const regionLib = await (await ethers.getContractFactory("RegionLib", {
+      libraries: { WeatherFeedLib: await weatherFeedLib.getAddress() },
+    })).deploy();
+    const capitalLib = await (await ethers.getContractFactory("CapitalLib")).deploy();
+    const governanceLib = await (await ethers.getContractFactory("GovernanceLib")).deploy();
+    const premiumPricing = await (await ethers.getContractFactory("PremiumPricing")).deploy();
+    return {
+      WeatherFeedLib: await weatherFeedLib.getAddress(),
+      SeasonLib: await seasonLib.getAddress(),
+      RegionLib: await regionLib.getAddress(),
+      CapitalLib: await capitalLib.getAddress(),
+      GovernanceLib: await governanceLib.getAddress(),
+      PremiumPricing: await premiumPricing.getAddress(),
+    };
+  }
+
+  async function getRainyDayFundFactory(libraries?: Record<string, string>) {
+    return ethers.getContractFactory("RainyDayFund", { libraries: libraries ?? await deployLibraries() });
+  }
+
+  // Parameter changes are timelocked once the pool has investors: the change is queued with queueChange
+  // and applies once CHANGE_DELAY has passed and the season investors can exit in has finished. Travels
+  // to that point and makes the call; with an empty pool the call applies right away.
+  async function governed(fund: RainyDayFund | RainyDayFundTestHarness, method: string, ...args: unknown[]) {
+    const call = fund.getFunction(method);
+    if ((await fund.totalSupply()) > 0n || (await fund.seniorAssets()) > 0n) {
+      const data = (await call.populateTransaction(...args)).data;
+      const id = ethers.keccak256(data);
+      if ((await fund.queuedChanges(id)).eta === 0n) {
+        await fund.queueChange(data);
+      }
+      const { eta, exitSeason } = await fund.queuedChanges(id);
+      if (exitSeason > (await fund.currentSeasonId())) {
+        throw new Error(`${method} applies after season ${exitSeason}, which has not started yet`);
+      }
+      const finished = (await fund.claimWindowEnd(exitSeason)) + (await fund.seasonDurations(exitSeason)).withdraw;
+      const due = eta > finished ? eta : finished;
+      if (BigInt(await time.latest()) < due) {
+        await time.increaseTo(due);
+      }
+    }
+    return call(...args) as Promise<ContractTransactionResponse>;
+  }
+
+  // Moves the chain to the start of the next phase of the current season
+  async function advanceToNextPhase() {
+    const seasonId = await rainyDayFund.currentSeasonId();
+    const state = Number(await rainyDayFund.getSeasonState(seasonId));
+    const seasonEnd = await rainyDayFund.seasonOverTimeStamps(seasonId);
+    const durations = await rainyDayFund.seasonDurations(seasonId);
+    const claimEnd = await rainyDayFund.claimWindowEnd(seasonId);
+    const boundaries = [
+      seasonEnd - durations.coverage,
+      seasonEnd,
+      claimEnd,
+      claimEnd + durations.withdraw,
+    ];
+    if (state < boundaries.length) {
+      await time.increaseTo(boundaries[state]);
+    }
+  }
 
   beforeEach(async function () {
     // Get signers
@@ -32,7 +153,7 @@ describe("RainyDayFund", function () {
     mockWeatherOracle = await MockWeatherOracleFactory.deploy(INITIAL_WEATHER);
 
     // Deploy RainyDayFund contract
-    const RainyDayFundFactory = await ethers.getContractFactory("RainyDayFund");
+    const RainyDayFundFactory = await getRainyDayFundFactory();
     rainyDayFund = await RainyDayFundFactory.deploy(
       await mockUSDC.getAddress(), 
       await mockWeatherOracle.getAddress()
@@ -54,8 +175,16 @@ describe("RainyDayFund", function () {
   });
 
   describe("Deployment", function () {
-    it("Should set the right owner", async function () {
-      expect(await rainyDayFund.owner()).to.equal(owner.address);
+    it("Should grant every role to the deployer", async function () {
+      expect(await rainyDayFund.hasRole(await rainyDayFund.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
+      expect(await rainyDayFund.hasRole(await rainyDayFund.SEASON_MANAGER_ROLE(), owner.address)).to.equal(true);
+      expect(await rainyDayFund.hasRole(await rainyDayFund.ORACLE_ADMIN_ROLE(), owner.address)).to.equal(true);
+      expect(await rainyDayFund.hasRole(await rainyDayFund.PAUSER_ROLE(), owner.address)).to.equal(true);
+    });
+
+    it("Should fit within the contract size limit", async function () {
+      const code = await ethers.provider.getCode(await rainyDayFund.getAddress());
+      expect((code.length - 2) / 2).to.be.at.most(24576);
     });
 
     it("Should set the correct USDC address", async function () {
@@ -63,7 +192,8 @@ describe("RainyDayFund", function () {
     });
 
     it("Should set the correct weather oracle", async function () {
-      expect(await rainyDayFund.weatherFeed()).to.equal(await mockWeatherOracle.getAddress());
+      expect(await rainyDayFund.getWeatherFeeds(0)).to.deep.equal([await mockWeatherOracle.getAddress()]);
+      expect((await rainyDayFund.regions(0)).minFeedQuorum).to.equal(1);
     });
 
     it("Should initialize with season 1", async function () {
@@ -71,30 +201,34 @@ describe("RainyDayFund", function () {
     });
 
     it("Should set correct initial season parameters", async function () {
-      const policyInfo = await rainyDayFund.seasonPolicies(1);
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
       expect(policyInfo.premium).to.equal(PREMIUM);
       expect(policyInfo.payoutAmount).to.equal(PAYOUT);
       expect(policyInfo.totalPoliciesSold).to.equal(0);
       expect(policyInfo.creationTimestamp).to.be.greaterThan(0);
+      expect(policyInfo.triggerDirection).to.equal(BELOW);
+      expect(policyInfo.triggerThreshold).to.equal(10);
+      expect(await rainyDayFund.getPayoutTiers(0, 1)).to.deep.equal([]);
     });
 
     it("Should initialize in ACTIVE state", async function () {
-      expect(await rainyDayFund.getSeasonState()).to.equal(0); // ACTIVE
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(0); // ACTIVE
     });
 
-    it("Should be in testing mode by default", async function () {
-      expect(await rainyDayFund.testingMode()).to.equal(true);
-      expect(await rainyDayFund.testingTimeOffset()).to.equal(0);
+    it("Should run on block time without time travel", async function () {
+      expect(rainyDayFund.interface.hasFunction("advanceToNextPhase")).to.equal(false);
+      expect(rainyDayFund.interface.hasFunction("setTestingMode")).to.equal(false);
+      expect(await rainyDayFund.getCurrentTime()).to.equal(await time.latest());
     });
 
     it("Should initialize season over timestamp correctly", async function () {
-      const seasonOverTime = await rainyDayFund.seasonOverTimeStamp();
+      const seasonOverTime = await rainyDayFund.seasonOverTimeStamps(1);
       const currentTime = await rainyDayFund.getCurrentTime();
       expect(seasonOverTime).to.be.greaterThan(currentTime);
     });
 
     it("Should reject zero addresses in constructor", async function () {
-      const RainyDayFundFactory = await ethers.getContractFactory("RainyDayFund");
+      const RainyDayFundFactory = await getRainyDayFundFactory();
       
       await expect(RainyDayFundFactory.deploy(ethers.ZeroAddress, await mockWeatherOracle.getAddress()))
         .to.be.revertedWith("USDC address zero");
@@ -104,143 +238,562 @@ describe("RainyDayFund", function () {
     });
   });
 
-  describe("Testing Mode Functions", function () {
+  describe("Test Harness", function () {
+    let harness: RainyDayFundTestHarness;
+
+    beforeEach(async function () {
+      const HarnessFactory = await ethers.getContractFactory("RainyDayFundTestHarness", {
+        libraries: await deployLibraries(),
+      });
+      harness = await HarnessFactory.deploy(await mockUSDC.getAddress(), await mockWeatherOracle.getAddress());
+    });
+
+    // The local chain runs with the default contract size limit, so the harness has to fit as well
+    it("Should fit within the contract size limit", async function () {
+      const code = await ethers.provider.getCode(await harness.getAddress());
+      expect((code.length - 2) / 2).to.be.at.most(24576);
+    });
+
+    it("Should be in testing mode by default", async function () {
+      expect(await harness.testingMode()).to.equal(true);
+      expect(await harness.testingTimeOffset()).to.equal(0);
+    });
+
     it("Should allow owner to advance through all phases", async function () {
       // Should start in ACTIVE
-      expect(await rainyDayFund.getSeasonState()).to.equal(0); // ACTIVE
+      expect(await harness.getSeasonState(1)).to.equal(0); // ACTIVE
 
       // Advance to INACTIVE
-      await expect(rainyDayFund.advanceToNextPhase())
-        .to.emit(rainyDayFund, "TimeAdvanced");
-      expect(await rainyDayFund.getSeasonState()).to.equal(1); // INACTIVE
+      await expect(harness.advanceToNextPhase())
+        .to.emit(harness, "TimeAdvanced");
+      expect(await harness.getSeasonState(1)).to.equal(1); // INACTIVE
 
       // Advance to CLAIM
-      await rainyDayFund.advanceToNextPhase();
-      expect(await rainyDayFund.getSeasonState()).to.equal(2); // CLAIM
+      await harness.advanceToNextPhase();
+      expect(await harness.getSeasonState(1)).to.equal(2); // CLAIM
 
       // Advance to WITHDRAW
-      await rainyDayFund.advanceToNextPhase();
-      expect(await rainyDayFund.getSeasonState()).to.equal(3); // WITHDRAW
+      await harness.advanceToNextPhase();
+      expect(await harness.getSeasonState(1)).to.equal(3); // WITHDRAW
 
       // Advance to FINISHED
-      await rainyDayFund.advanceToNextPhase();
-      expect(await rainyDayFund.getSeasonState()).to.equal(4); // FINISHED
+      await harness.advanceToNextPhase();
+      expect(await harness.getSeasonState(1)).to.equal(4); // FINISHED
+
+      // Additional advance calls keep it in FINISHED
+      await harness.advanceToNextPhase();
+      expect(await harness.getSeasonState(1)).to.equal(4);
+    });
+
+    it("Should follow the phase durations of the current season", async function () {
+      const DAY = 24n * 60n * 60n;
+      await harness.advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await harness.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await governed(harness, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, {
+        active: 10n * DAY, coverage: 90n * DAY, claim: 3n * DAY, withdraw: 7n * DAY,
+      });
+      const seasonEnd = await harness.seasonOverTimeStamps(2);
+
+      await harness.advanceToNextPhase(); // ACTIVE -> INACTIVE
+      expect(await harness.getCurrentTime()).to.equal(seasonEnd - 90n * DAY + 1n);
+      await harness.advanceToNextPhase(); // INACTIVE -> CLAIM
+      expect(await harness.getCurrentTime()).to.equal(seasonEnd + 1n);
+      await harness.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      expect(await harness.getCurrentTime()).to.equal(seasonEnd + 3n * DAY + 1n);
     });
 
     it("Should correctly calculate time offset for each phase", async function () {
-      const initialOffset = await rainyDayFund.testingTimeOffset();
+      const initialOffset = await harness.testingTimeOffset();
       expect(initialOffset).to.equal(0);
 
-      await rainyDayFund.advanceToNextPhase();
-      const offsetAfterFirst = await rainyDayFund.testingTimeOffset();
+      await harness.advanceToNextPhase();
+      const offsetAfterFirst = await harness.testingTimeOffset();
       expect(offsetAfterFirst).to.be.greaterThan(0);
     });
 
     it("Should allow owner to toggle testing mode", async function () {
-      expect(await rainyDayFund.testingMode()).to.equal(true);
-      
-      await rainyDayFund.setTestingMode(false);
-      expect(await rainyDayFund.testingMode()).to.equal(false);
-      expect(await rainyDayFund.testingTimeOffset()).to.equal(0);
+      await harness.advanceToNextPhase();
+      await harness.setTestingMode(false);
+      expect(await harness.testingMode()).to.equal(false);
+      expect(await harness.testingTimeOffset()).to.equal(0);
+      expect(await harness.getCurrentTime()).to.equal(await time.latest());
 
       // Should not be able to advance phases when testing mode is off
-      await expect(rainyDayFund.advanceToNextPhase())
+      await expect(harness.advanceToNextPhase())
         .to.be.revertedWith("Not in testing mode");
         
       // Re-enable testing mode
-      await rainyDayFund.setTestingMode(true);
-      expect(await rainyDayFund.testingMode()).to.equal(true);
+      await harness.setTestingMode(true);
+      expect(await harness.testingMode()).to.equal(true);
     });
 
     it("Should not allow non-owner to use testing functions", async function () {
-      await expect(rainyDayFund.connect(farmer).advanceToNextPhase())
-        .to.be.revertedWithCustomError(rainyDayFund, "OwnableUnauthorizedAccount");
+      await expect(harness.connect(farmer).advanceToNextPhase())
+        .to.be.revertedWithCustomError(harness, "AccessControlUnauthorizedAccount");
 
-      await expect(rainyDayFund.connect(farmer).setTestingMode(false))
-        .to.be.revertedWithCustomError(rainyDayFund, "OwnableUnauthorizedAccount");
+      await expect(harness.connect(farmer).setTestingMode(false))
+        .to.be.revertedWithCustomError(harness, "AccessControlUnauthorizedAccount");
     });
 
     it("Should return correct current time in testing mode", async function () {
-      const blockTime = (await ethers.provider.getBlock('latest'))!.timestamp;
-      const contractTime = await rainyDayFund.getCurrentTime();
-      expect(contractTime).to.be.closeTo(blockTime, 10); // Within 10 seconds
+      const contractTime = await harness.getCurrentTime();
+      expect(contractTime).to.equal(await time.latest());
 
       // Advance time and check
-      await rainyDayFund.advanceToNextPhase();
-      const newContractTime = await rainyDayFund.getCurrentTime();
+      await harness.advanceToNextPhase();
+      const newContractTime = await harness.getCurrentTime();
       expect(newContractTime).to.be.greaterThan(contractTime);
     });
   });
 
+  describe("Access Control", function () {
+    let SEASON_MANAGER_ROLE: string;
+    let ORACLE_ADMIN_ROLE: string;
+    let DEFAULT_ADMIN_ROLE: string;
+
+    beforeEach(async function () {
+      SEASON_MANAGER_ROLE = await rainyDayFund.SEASON_MANAGER_ROLE();
+      ORACLE_ADMIN_ROLE = await rainyDayFund.ORACLE_ADMIN_ROLE();
+      DEFAULT_ADMIN_ROLE = await rainyDayFund.DEFAULT_ADMIN_ROLE();
+    });
+
+    it("Should let a granted season manager manage seasons", async function () {
+      const manager = addrs[0];
+      await expect(governed(rainyDayFund.connect(manager), "setKeeperReward", 0))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(manager.address, SEASON_MANAGER_ROLE);
+
+      await expect(rainyDayFund.grantRole(SEASON_MANAGER_ROLE, manager.address))
+        .to.emit(rainyDayFund, "RoleGranted")
+        .withArgs(SEASON_MANAGER_ROLE, manager.address, owner.address);
+      await governed(rainyDayFund.connect(manager), "setKeeperReward", 0);
+      await governed(rainyDayFund.connect(manager), "queueSeason", 0, PREMIUM * 2n, DEFAULT_TRIGGER);
+      expect((await rainyDayFund.getQueuedSeason(0)).premium).to.equal(PREMIUM * 2n);
+    });
+
+    it("Should keep roles separate", async function () {
+      const oracleAdmin = addrs[0];
+      await rainyDayFund.grantRole(ORACLE_ADMIN_ROLE, oracleAdmin.address);
+
+      await governed(rainyDayFund.connect(oracleAdmin), "setOracleParameters", 3600, 0, 100);
+      expect(await rainyDayFund.oracleMaxStaleness()).to.equal(3600);
+
+      await expect(rainyDayFund.connect(oracleAdmin).addRegion("North", await mockWeatherOracle.getAddress()))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(oracleAdmin.address, SEASON_MANAGER_ROLE);
+      await expect(rainyDayFund.connect(oracleAdmin).setCollateralizationRatio(5000))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(oracleAdmin.address, DEFAULT_ADMIN_ROLE);
+    });
+
+    it("Should stop a revoked account from using its role", async function () {
+      const oracleAdmin = addrs[0];
+      await rainyDayFund.grantRole(ORACLE_ADMIN_ROLE, oracleAdmin.address);
+
+      await expect(rainyDayFund.revokeRole(ORACLE_ADMIN_ROLE, oracleAdmin.address))
+        .to.emit(rainyDayFund, "RoleRevoked")
+        .withArgs(ORACLE_ADMIN_ROLE, oracleAdmin.address, owner.address);
+      expect(await rainyDayFund.hasRole(ORACLE_ADMIN_ROLE, oracleAdmin.address)).to.equal(false);
+      await expect(governed(rainyDayFund.connect(oracleAdmin), "setMinFeedQuorum", 0, 1))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should let an account renounce its own role", async function () {
+      await rainyDayFund.renounceRole(SEASON_MANAGER_ROLE, owner.address);
+      expect(await rainyDayFund.hasRole(SEASON_MANAGER_ROLE, owner.address)).to.equal(false);
+      await expect(governed(rainyDayFund, "setKeeperReward", 0))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only let the default admin grant and revoke roles", async function () {
+      const manager = addrs[0];
+      await rainyDayFund.grantRole(SEASON_MANAGER_ROLE, manager.address);
+
+      await expect(rainyDayFund.connect(manager).grantRole(SEASON_MANAGER_ROLE, farmer.address))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(manager.address, DEFAULT_ADMIN_ROLE);
+      await expect(rainyDayFund.connect(manager).revokeRole(SEASON_MANAGER_ROLE, owner.address))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    describe("Timelocked default admin", function () {
+      let timelock: RainyDayTimelock;
+      let MIN_DELAY: bigint;
+
+      beforeEach(async function () {
+        const TimelockFactory = await ethers.getContractFactory("RainyDayTimelock");
+        timelock = await TimelockFactory.deploy([owner.address], [owner.address]);
+        MIN_DELAY = await timelock.MIN_DELAY();
+
+        await rainyDayFund.grantRole(DEFAULT_ADMIN_ROLE, await timelock.getAddress());
+        await rainyDayFund.renounceRole(DEFAULT_ADMIN_ROLE, owner.address);
+      });
+
+      async function scheduleCall(data: string) {
+        const target = await rainyDayFund.getAddress();
+        await timelock.schedule(target, 0, data, ethers.ZeroHash, ethers.ZeroHash, MIN_DELAY);
+        return timelock.hashOperation(target, 0, data, ethers.ZeroHash, ethers.ZeroHash);
+      }
+
+      it("Should only let the timelock use the default admin", async function () {
+        await expect(rainyDayFund.setCollateralizationRatio(5000))
+          .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+          .withArgs(owner.address, DEFAULT_ADMIN_ROLE);
+        await expect(rainyDayFund.grantRole(ORACLE_ADMIN_ROLE, addrs[0].address))
+          .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+      });
+
+      it("Should grant a role through the timelock only after the delay", async function () {
+        const manager = addrs[0];
+        const data = rainyDayFund.interface.encodeFunctionData("grantRole", [SEASON_MANAGER_ROLE, manager.address]);
+        const id = await scheduleCall(data);
+
+        await expect(timelock.execute(await rainyDayFund.getAddress(), 0, data, ethers.ZeroHash, ethers.ZeroHash))
+          .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+        await time.increaseTo(await timelock.getTimestamp(id));
+        await expect(timelock.execute(await rainyDayFund.getAddress(), 0, data, ethers.ZeroHash, ethers.ZeroHash))
+          .to.emit(rainyDayFund, "RoleGranted")
+          .withArgs(SEASON_MANAGER_ROLE, manager.address, await timelock.getAddress());
+        expect(await rainyDayFund.hasRole(SEASON_MANAGER_ROLE, manager.address)).to.equal(true);
+
+        // Operational roles stay with their holders until the timelock revokes them
+        expect(await rainyDayFund.hasRole(SEASON_MANAGER_ROLE, owner.address)).to.equal(true);
+      });
+
+      it("Should not schedule a change with less than the minimum delay", async function () {
+        const data = rainyDayFund.interface.encodeFunctionData("setCollateralizationRatio", [5000]);
+        await expect(timelock.schedule(await rainyDayFund.getAddress(), 0, data, ethers.ZeroHash, ethers.ZeroHash, MIN_DELAY - 1n))
+          .to.be.revertedWithCustomError(timelock, "TimelockInsufficientDelay");
+      });
+
+      it("Should let the proposer cancel a scheduled change", async function () {
+        const data = rainyDayFund.interface.encodeFunctionData("setCollateralizationRatio", [5000]);
+        const id = await scheduleCall(data);
+        await timelock.cancel(id);
+
+        await time.increase(MIN_DELAY);
+        await expect(timelock.execute(await rainyDayFund.getAddress(), 0, data, ethers.ZeroHash, ethers.ZeroHash))
+          .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+        expect(await rainyDayFund.collateralizationRatio()).to.equal(10000);
+      });
+    });
+  });
+
+  describe("Timelocked Parameter Changes", function () {
+    const KEEPER_REWARD = ethers.parseUnits("1", USDC_DECIMALS);
+    const NEW_REWARD = ethers.parseUnits("2", USDC_DECIMALS);
+    let data: string;
+    let id: string;
+
+    beforeEach(async function () {
+      data = rainyDayFund.interface.encodeFunctionData("setKeeperReward", [NEW_REWARD]);
+      id = ethers.keccak256(data);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+    });
+
+    it("Should queue a parameter change instead of applying it", async function () {
+      const tx = rainyDayFund.queueChange(data);
+      const eta = BigInt(await time.latest()) + 1n + CHANGE_DELAY;
+      await expect(tx)
+        .to.emit(rainyDayFund, "ChangeQueued")
+        .withArgs(id, owner.address, data, eta, 1)
+        .and.not.to.emit(rainyDayFund, "KeeperRewardUpdated");
+
+      expect(await rainyDayFund.keeperReward()).to.equal(KEEPER_REWARD);
+      const change = await rainyDayFund.queuedChanges(id);
+      expect(change.eta).to.equal(eta);
+      expect(change.proposer).to.equal(owner.address);
+      expect(change.exitSeason).to.equal(1);
+    });
+
+    it("Should not apply a change that was not queued", async function () {
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.be.revertedWith("Change not queued");
+    });
+
+    it("Should apply changes right away while the pool is empty", async function () {
+      const emptyFund = await (await getRainyDayFundFactory()).deploy(
+        await mockUSDC.getAddress(),
+        await mockWeatherOracle.getAddress()
+      );
+      await expect(emptyFund.setKeeperReward(NEW_REWARD))
+        .to.emit(emptyFund, "ChangeExecuted")
+        .withArgs(id)
+        .and.to.emit(emptyFund, "KeeperRewardUpdated")
+        .withArgs(NEW_REWARD)
+        .and.not.to.emit(emptyFund, "ChangeQueued");
+    });
+
+    it("Should apply the change once the delay has passed and the season it was queued in has finished", async function () {
+      await rainyDayFund.queueChange(data);
+      const { eta } = await rainyDayFund.queuedChanges(id);
+
+      await time.increaseTo(eta);
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.be.revertedWith("Change not due yet");
+
+      // Investors get a WITHDRAW phase to leave before the change applies
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.be.revertedWith("Change not due yet");
+
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.emit(rainyDayFund, "ChangeExecuted")
+        .withArgs(id)
+        .and.to.emit(rainyDayFund, "KeeperRewardUpdated")
+        .withArgs(NEW_REWARD);
+      expect(await rainyDayFund.keeperReward()).to.equal(NEW_REWARD);
+      expect((await rainyDayFund.queuedChanges(id)).eta).to.equal(0);
+
+      // Making the same change again has to be queued again
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.be.revertedWith("Change not queued");
+    });
+
+    it("Should wait for the next season once every season has entered its WITHDRAW phase", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      const nextSeason = rainyDayFund.interface.encodeFunctionData(
+        "startNewSeason",
+        [0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS]
+      );
+      await rainyDayFund.queueChange(nextSeason);
+
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await expect(rainyDayFund.queueChange(data))
+        .to.emit(rainyDayFund, "ChangeQueued")
+        .withArgs(id, owner.address, data, anyValue, 2);
+
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await rainyDayFund.startNewSeason(0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.be.revertedWith("Change not due yet");
+
+      for (let i = 0; i < 4; i++) {
+        await advanceToNextPhase();
+      }
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.emit(rainyDayFund, "KeeperRewardUpdated");
+    });
+
+    it("Should run every check of the function before queueing a change", async function () {
+      await expect(rainyDayFund.connect(farmer).queueChange(data))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(farmer.address, await rainyDayFund.SEASON_MANAGER_ROLE());
+      await expect(rainyDayFund.queueChange(
+        rainyDayFund.interface.encodeFunctionData("setKeeperReward", [ethers.parseUnits("11", USDC_DECIMALS)])
+      )).to.be.revertedWith("Keeper reward too high");
+
+      // Modifiers listed after `timelocked` are checked as well
+      await expect(rainyDayFund.queueChange(
+        rainyDayFund.interface.encodeFunctionData("addWeatherFeed", [5, addrs[0].address])
+      )).to.be.revertedWith("Unknown region");
+      await expect(rainyDayFund.queueChange(
+        rainyDayFund.interface.encodeFunctionData("startNewSeason", [0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS])
+      )).to.be.revertedWith("Season coverage not over");
+    });
+
+    it("Should only queue timelocked changes, and each only once", async function () {
+      await expect(rainyDayFund.queueChange(
+        rainyDayFund.interface.encodeFunctionData("setPaused", [0, true])
+      )).to.be.revertedWith("Not a timelocked change");
+      expect(await rainyDayFund.pausedSince(0)).to.equal(0);
+
+      await rainyDayFund.queueChange(data);
+      await expect(rainyDayFund.queueChange(data))
+        .to.be.revertedWith("Change already queued");
+    });
+
+    it("Should only queue changes for holders of the function's role", async function () {
+      await expect(rainyDayFund.connect(farmer).setKeeperReward(NEW_REWARD))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(farmer.address, await rainyDayFund.SEASON_MANAGER_ROLE());
+      await expect(rainyDayFund.connect(farmer).queueChange(
+        rainyDayFund.interface.encodeFunctionData("addWeatherFeed", [0, await mockWeatherOracle.getAddress()])
+      ))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(farmer.address, await rainyDayFund.ORACLE_ADMIN_ROLE());
+    });
+
+    it("Should treat different parameters as separate changes", async function () {
+      await rainyDayFund.queueChange(data);
+      await governed(rainyDayFund, "setKeeperReward", NEW_REWARD + 1n);
+
+      expect(await rainyDayFund.keeperReward()).to.equal(NEW_REWARD + 1n);
+      expect((await rainyDayFund.queuedChanges(id)).eta).to.not.equal(0);
+    });
+
+    it("Should let the proposer or the guardian cancel a queued change", async function () {
+      const guardian = addrs[0];
+      await rainyDayFund.grantRole(await rainyDayFund.PAUSER_ROLE(), guardian.address);
+      await rainyDayFund.renounceRole(await rainyDayFund.PAUSER_ROLE(), owner.address);
+
+      await rainyDayFund.queueChange(data);
+      await expect(rainyDayFund.connect(farmer).cancelChange(id))
+        .to.be.revertedWith("Not proposer or guardian");
+      await expect(rainyDayFund.connect(guardian).cancelChange(id))
+        .to.emit(rainyDayFund, "ChangeCancelled")
+        .withArgs(id);
+      await expect(rainyDayFund.cancelChange(id))
+        .to.be.revertedWith("Change not queued");
+
+      // A cancelled change has to be queued again
+      for (let i = 0; i < 4; i++) {
+        await advanceToNextPhase();
+      }
+      await expect(rainyDayFund.setKeeperReward(NEW_REWARD))
+        .to.be.revertedWith("Change not queued");
+      await rainyDayFund.queueChange(data);
+      await expect(rainyDayFund.cancelChange(id))
+        .to.emit(rainyDayFund, "ChangeCancelled");
+      expect(await rainyDayFund.keeperReward()).to.equal(KEEPER_REWARD);
+    });
+
+    it("Should announce new season terms before they take effect", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      const nextSeason = rainyDayFund.interface.encodeFunctionData(
+        "startNewSeason",
+        [0, PREMIUM * 2n, DEFAULT_TRIGGER, DEFAULT_DURATIONS]
+      );
+      await expect(rainyDayFund.queueChange(nextSeason))
+        .to.emit(rainyDayFund, "ChangeQueued");
+      expect(await rainyDayFund.currentSeasonId()).to.equal(1);
+
+      // Investors who disagree with the new terms leave during season 1's WITHDRAW phase
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await rainyDayFund.connect(investor).redeemShares(await rainyDayFund.maxRedeem(investor.address));
+      expect(await rainyDayFund.balanceOf(investor.address)).to.equal(0);
+
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await expect(rainyDayFund.startNewSeason(0, PREMIUM * 2n, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.emit(rainyDayFund, "NewSeasonStarted");
+      expect((await rainyDayFund.seasonPolicies(0, 2)).premium).to.equal(PREMIUM * 2n);
+    });
+
+    it("Should timelock the capital parameters", async function () {
+      await expect(rainyDayFund.setCollateralizationRatio(5000))
+        .to.be.revertedWith("Change not queued");
+      await expect(rainyDayFund.setSeniorYield(500))
+        .to.be.revertedWith("Change not queued");
+
+      await rainyDayFund.queueChange(rainyDayFund.interface.encodeFunctionData("setSeniorYield", [500]));
+      await expect(governed(rainyDayFund, "setCollateralizationRatio", 5000))
+        .to.emit(rainyDayFund, "CollateralizationRatioUpdated")
+        .withArgs(5000);
+      await expect(governed(rainyDayFund, "setSeniorYield", 500))
+        .to.emit(rainyDayFund, "SeniorYieldUpdated")
+        .withArgs(500);
+      expect(await rainyDayFund.collateralizationRatio()).to.equal(5000);
+      expect(await rainyDayFund.seniorYieldBps()).to.equal(500);
+    });
+
+    it("Should pay seasons opened after a payout multiple change the new multiple", async function () {
+      expect(await rainyDayFund.payoutMultiple()).to.equal(4);
+      await expect(rainyDayFund.queueChange(rainyDayFund.interface.encodeFunctionData("setPayoutMultiple", [0])))
+        .to.be.revertedWith("Invalid payout multiple");
+      await expect(rainyDayFund.queueChange(rainyDayFund.interface.encodeFunctionData("setPayoutMultiple", [11])))
+        .to.be.revertedWith("Invalid payout multiple");
+      await expect(rainyDayFund.connect(farmer).setPayoutMultiple(6))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.queueChange(rainyDayFund.interface.encodeFunctionData("setPayoutMultiple", [6]));
+      await rainyDayFund.queueChange(rainyDayFund.interface.encodeFunctionData(
+        "startNewSeason",
+        [0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS]
+      ));
+      await expect(governed(rainyDayFund, "setPayoutMultiple", 6))
+        .to.emit(rainyDayFund, "PayoutMultipleUpdated")
+        .withArgs(6);
+      // Seasons already opened keep their payout
+      expect((await rainyDayFund.seasonPolicies(0, 1)).payoutAmount).to.equal(PAYOUT);
+
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
+      expect((await rainyDayFund.seasonPolicies(0, 2)).payoutAmount).to.equal(PREMIUM * 6n);
+    });
+  });
+
   describe("Policy Purchase", function () {
+    beforeEach(async function () {
+      // Investor provides the capital that backs the policies
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+    });
+
     it("Should allow buying policies in ACTIVE state", async function () {
       const amount = 2;
       const totalPremium = PREMIUM * BigInt(amount);
       const initialBalance = await mockUSDC.balanceOf(farmer.address);
 
-      await expect(rainyDayFund.connect(farmer).buyPolicy(amount))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, amount, NO_PREMIUM_LIMIT))
         .to.emit(rainyDayFund, "PolicyBought")
-        .withArgs(farmer.address, 1, amount, totalPremium);
+        .withArgs(farmer.address, 0, 1, amount, totalPremium, PREMIUM);
 
       // Check USDC was transferred
       const finalBalance = await mockUSDC.balanceOf(farmer.address);
       expect(initialBalance - finalBalance).to.equal(totalPremium);
 
       // Check policy token balance
-      const policyInfo = await rainyDayFund.seasonPolicies(1);
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
       const policyToken = await ethers.getContractAt("SeasonPolicyToken", policyInfo.policyToken);
       expect(await policyToken.balanceOf(farmer.address)).to.equal(amount);
 
       // Check total policies sold updated
-      const updatedPolicyInfo = await rainyDayFund.seasonPolicies(1);
+      const updatedPolicyInfo = await rainyDayFund.seasonPolicies(0, 1);
       expect(updatedPolicyInfo.totalPoliciesSold).to.equal(amount);
     });
 
     it("Should return correct season ID when buying policy", async function () {
-      const seasonId = await rainyDayFund.connect(farmer).buyPolicy.staticCall(1);
+      const seasonId = await rainyDayFund.connect(farmer).buyPolicy.staticCall(0, 1, NO_PREMIUM_LIMIT);
       expect(seasonId).to.equal(1);
     });
 
     it("Should reject zero amount purchase", async function () {
-      await expect(rainyDayFund.connect(farmer).buyPolicy(0))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 0, NO_PREMIUM_LIMIT))
         .to.be.revertedWith("Amount > 0");
     });
 
     it("Should reject purchase when not in active period", async function () {
       // Test in INACTIVE phase
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      expect(await rainyDayFund.getSeasonState()).to.equal(1); // INACTIVE
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(1); // INACTIVE
 
-      await expect(rainyDayFund.connect(farmer).buyPolicy(1))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
         .to.be.revertedWith("Not in active period");
 
       // Test in CLAIM phase
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      expect(await rainyDayFund.getSeasonState()).to.equal(2); // CLAIM
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(2); // CLAIM
 
-      await expect(rainyDayFund.connect(farmer).buyPolicy(1))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
         .to.be.revertedWith("Not in active period");
 
       // Test in WITHDRAW phase
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      expect(await rainyDayFund.getSeasonState()).to.equal(3); // WITHDRAW
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(3); // WITHDRAW
 
-      await expect(rainyDayFund.connect(farmer).buyPolicy(1))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
         .to.be.revertedWith("Not in active period");
 
       // Test in FINISHED phase
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
-      expect(await rainyDayFund.getSeasonState()).to.equal(4); // FINISHED
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(4); // FINISHED
 
-      await expect(rainyDayFund.connect(farmer).buyPolicy(1))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
         .to.be.revertedWith("Not in active period");
     });
 
     it("Should handle multiple policy purchases", async function () {
-      await rainyDayFund.connect(farmer).buyPolicy(2);
-      await rainyDayFund.connect(farmer).buyPolicy(3);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
 
-      const policyInfo = await rainyDayFund.seasonPolicies(1);
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
       const policyToken = await ethers.getContractAt("SeasonPolicyToken", policyInfo.policyToken);
       
       expect(await policyToken.balanceOf(farmer.address)).to.equal(5);
@@ -248,10 +801,15 @@ describe("RainyDayFund", function () {
     });
 
     it("Should handle insufficient USDC balance", async function () {
+      // Provide enough capital so that only the farmer's balance is the limit
+      const largeAmount = ethers.parseUnits("100000", USDC_DECIMALS);
+      await mockUSDC.mint(investor.address, largeAmount);
+      await rainyDayFund.connect(investor).invest(largeAmount);
+
       // Try to buy more policies than USDC balance allows
       const maxPolicies = INITIAL_USDC_BALANCE / PREMIUM + 1n;
       
-      await expect(rainyDayFund.connect(farmer).buyPolicy(maxPolicies))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, maxPolicies, NO_PREMIUM_LIMIT))
         .to.be.reverted; // Should fail due to insufficient balance
     });
 
@@ -259,7 +817,7 @@ describe("RainyDayFund", function () {
       // Reset allowance to a small amount
       await mockUSDC.connect(farmer).approve(await rainyDayFund.getAddress(), PREMIUM / 2n);
 
-      await expect(rainyDayFund.connect(farmer).buyPolicy(1))
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
         .to.be.reverted; // Should fail due to insufficient allowance
     });
   });
@@ -271,11 +829,11 @@ describe("RainyDayFund", function () {
       await rainyDayFund.connect(investor).invest(investmentAmount);
 
       // Farmer buys policies
-      await rainyDayFund.connect(farmer).buyPolicy(3);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
     });
 
     it("Should read weather data from oracle", async function () {
-      const [roundId, weather, timestamp] = await rainyDayFund.getWeatherData();
+      const [roundId, weather, timestamp] = await rainyDayFund.getWeatherData(0);
       expect(weather).to.equal(INITIAL_WEATHER);
       expect(roundId).to.be.greaterThan(0);
       expect(timestamp).to.be.greaterThan(0);
@@ -283,25 +841,37 @@ describe("RainyDayFund", function () {
 
     it("Should allow claiming when weather conditions are met", async function () {
       // Advance to CLAIM period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
 
-      expect(await rainyDayFund.getSeasonState()).to.equal(2); // CLAIM state
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(2); // CLAIM state
 
       const initialBalance = await mockUSDC.balanceOf(farmer.address);
       const expectedPayout = PAYOUT * 3n; // 3 policies
 
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.emit(rainyDayFund, "ClaimMade")
-        .withArgs(farmer.address, 1, 3, expectedPayout);
-
-      const finalBalance = await mockUSDC.balanceOf(farmer.address);
-      expect(finalBalance - initialBalance).to.equal(expectedPayout);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "ClaimRegistered")
+        .withArgs(farmer.address, 0, 1, 3);
 
-      // Tokens should be burned
-      const policyInfo = await rainyDayFund.seasonPolicies(1);
+      // Tokens should be burned and the claim recorded
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
       const policyToken = await ethers.getContractAt("SeasonPolicyToken", policyInfo.policyToken);
       expect(await policyToken.balanceOf(farmer.address)).to.equal(0);
+      expect(await rainyDayFund.registeredClaims(0, 1, farmer.address)).to.equal(3);
+      expect(policyInfo.totalClaimedPolicies).to.equal(3);
+
+      // Payout is available once the claim window closes
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 1))
+        .to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(0, 1, 3, PAYOUT)
+        .and.to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 1, 3, expectedPayout);
+
+      const finalBalance = await mockUSDC.balanceOf(farmer.address);
+      expect(finalBalance - initialBalance).to.equal(expectedPayout);
+      expect(await rainyDayFund.registeredClaims(0, 1, farmer.address)).to.equal(0);
     });
 
     it("Should not allow claiming with good weather", async function () {
@@ -309,10 +879,10 @@ describe("RainyDayFund", function () {
       await mockWeatherOracle.updatePrice(15);
 
       // Advance to CLAIM period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
 
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
         .to.be.revertedWith("Weather not bad enough");
     });
 
@@ -320,76 +890,1465 @@ describe("RainyDayFund", function () {
       // Test exactly at threshold (weather = 10 should not allow claims)
       await mockWeatherOracle.updatePrice(10);
 
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Weather not bad enough");
+
+      // Just below the threshold (weather = 9) pays out in full
+      expect(await rainyDayFund.payoutBpsFor(0, 1, 9)).to.equal(10000);
+    });
+
+    it("Should not allow claiming in wrong periods", async function () {
+      // Try claiming in ACTIVE period
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Not in claim period");
+
+      // Try claiming in INACTIVE period
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Not in claim period");
+
+      // Skip CLAIM period to WITHDRAW
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Not in claim period");
+
+      // Try in FINISHED period
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Not in claim period");
+    });
+
+    it("Should not allow claiming without policies", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      await expect(rainyDayFund.connect(investor).claimPolicies(0, 1))
+        .to.be.revertedWith("No policies to claim");
+    });
+
+    it("Should reject purchases the pool cannot cover", async function () {
+      const bigFarmer = addrs[0];
+      await mockUSDC.mint(bigFarmer.address, INITIAL_USDC_BALANCE);
+      await mockUSDC.connect(bigFarmer).approve(await rainyDayFund.getAddress(), ethers.MaxUint256);
+
+      // Buying policies worth more than the pool can pay out is rejected upfront
+      await expect(rainyDayFund.connect(bigFarmer).buyPolicy(0, 100, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Exceeds pool capacity");
+    });
+
+    it("Should handle insufficient funds for claims when under-collateralized", async function () {
+      const bigFarmer = addrs[0];
+      await mockUSDC.mint(bigFarmer.address, INITIAL_USDC_BALANCE);
+      await mockUSDC.connect(bigFarmer).approve(await rainyDayFund.getAddress(), ethers.MaxUint256);
+
+      // Owner explicitly allows underwriting beyond the pool's assets, from season 2 on
+      await governed(rainyDayFund, "setCollateralizationRatio", 2500);
+      await rainyDayFund.rollSeason();
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
+      await rainyDayFund.connect(bigFarmer).buyPolicy(0, 100, NO_PREMIUM_LIMIT);
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      // The first claimant no longer drains the pool
+      await rainyDayFund.connect(bigFarmer).claimPolicies(0, 2);
+      await rainyDayFund.connect(farmer).claimPolicies(0, 2);
+
+      const pool = await mockUSDC.balanceOf(await rainyDayFund.getAddress());
+      const expectedPerPolicy = pool / 103n;
+      expect(expectedPerPolicy).to.be.lessThan(PAYOUT);
+      expect(await rainyDayFund.projectedPayoutPerPolicy(0, 2)).to.equal(expectedPerPolicy);
+
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await expect(rainyDayFund.settleClaims(0, 2))
+        .to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(0, 2, 103, expectedPerPolicy);
+
+      // Both farmers receive the same haircut regardless of claim order
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 2))
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 2, 3, expectedPerPolicy * 3n);
+      await expect(rainyDayFund.connect(bigFarmer).withdrawClaim(0, 2))
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(bigFarmer.address, 0, 2, 100, expectedPerPolicy * 100n);
+
+      // Investors absorb the full loss
+      expect(await rainyDayFund.totalAssets()).to.equal(pool - expectedPerPolicy * 103n);
+    });
+
+    it("Should not settle claims before the claim window closes", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+
+      await expect(rainyDayFund.settleClaims(0, 1))
+        .to.be.revertedWith("Claim window still open");
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 1))
+        .to.be.revertedWith("Claim window still open");
+
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await rainyDayFund.settleClaims(0, 1);
+      await expect(rainyDayFund.settleClaims(0, 1))
+        .to.be.revertedWith("Claims already settled");
+    });
+
+    it("Should reserve registered claims from investor assets", async function () {
+      const assetsBefore = await rainyDayFund.totalAssets();
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+      expect(await rainyDayFund.totalAssets()).to.equal(assetsBefore - PAYOUT * 3n);
+
+      // Redeeming settles the season so the payout stays reserved for the farmer
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      const shares = await rainyDayFund.balanceOf(investor.address);
+      await expect(rainyDayFund.connect(investor).redeemShares(shares))
+        .to.emit(rainyDayFund, "ClaimSettled");
+      expect(await rainyDayFund.reservedPayouts()).to.equal(PAYOUT * 3n);
+
+      await rainyDayFund.connect(farmer).withdrawClaim(0, 1);
+      expect(await rainyDayFund.reservedPayouts()).to.equal(0);
+    });
+
+    it("Should prevent withdrawing a claim twice", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+
+      await rainyDayFund.connect(farmer).withdrawClaim(0, 1);
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 1))
+        .to.be.revertedWith("No claim to withdraw");
+    });
+
+    it("Should prevent double claiming", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      // First claim should work
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+
+      // Second claim should fail (no tokens left)
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("No policies to claim");
+    });
+  });
+
+  describe("Underwriting Capacity", function () {
+    const INVESTMENT = ethers.parseUnits("1000", USDC_DECIMALS);
+
+    it("Should reject purchases before the pool is bootstrapped", async function () {
+      // Even if premiums alone would cover the collateral, an empty vault cannot underwrite
+      await rainyDayFund.setCollateralizationRatio(2500);
+      expect(await rainyDayFund.isBootstrapped()).to.equal(false);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Pool not bootstrapped");
+
+      // A dust deposit does not open underwriting either
+      await rainyDayFund.connect(investor).invest(1);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Pool not bootstrapped");
+
+      await rainyDayFund.connect(investor).invest(await rainyDayFund.MINIMUM_BOOTSTRAP_ASSETS());
+      expect(await rainyDayFund.isBootstrapped()).to.equal(true);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
+    });
+
+    it("Should have no capacity without investor capital", async function () {
+      expect(await rainyDayFund.collateralizationRatio()).to.equal(10000);
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(0);
+      expect(await rainyDayFund.outstandingLiability()).to.equal(0);
+    });
+
+    it("Should derive capacity from pool assets and premiums", async function () {
+      // Flat pricing, so the pool fills up at exactly the season's premium
+      await governed(rainyDayFund, "setPricingCurve", 10000, 10000, 0);
+      await rainyDayFund.connect(investor).invest(INVESTMENT);
+
+      // Each policy adds 9 USDC premium and 36 USDC liability
+      const expected = INVESTMENT / (PAYOUT - PREMIUM);
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(expected);
+
+      await rainyDayFund.connect(farmer).buyPolicy(0, expected, NO_PREMIUM_LIMIT);
+      expect(await rainyDayFund.outstandingLiability()).to.equal(PAYOUT * expected);
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(0);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Exceeds pool capacity");
+    });
+
+    it("Should keep the pool solvent when buying at full capacity", async function () {
+      await rainyDayFund.connect(investor).invest(INVESTMENT);
+      await rainyDayFund.connect(farmer).buyPolicy(0, await rainyDayFund.remainingCapacity(0), NO_PREMIUM_LIMIT);
+
+      expect(await rainyDayFund.totalAssets()).to.be.greaterThanOrEqual(await rainyDayFund.outstandingLiability());
+    });
+
+    it("Should grow capacity with a lower collateralization ratio", async function () {
+      await expect(rainyDayFund.setCollateralizationRatio(5000))
+        .to.emit(rainyDayFund, "CollateralizationRatioUpdated")
+        .withArgs(5000);
+      await rainyDayFund.connect(investor).invest(INVESTMENT);
+
+      // 50% of 36 USDC must be backed, 9 USDC of it comes from the premium
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(INVESTMENT / (PAYOUT / 2n - PREMIUM));
+    });
+
+    it("Should be unlimited when premiums alone cover the required collateral", async function () {
+      await rainyDayFund.setCollateralizationRatio(2500);
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should restrict collateralization ratio updates", async function () {
+      await expect(rainyDayFund.setCollateralizationRatio(0))
+        .to.be.revertedWith("Ratio > 0");
+
+      await expect(rainyDayFund.connect(farmer).setCollateralizationRatio(5000))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Utilization Pricing", function () {
+    const INVESTMENT = ethers.parseUnits("1000", USDC_DECIMALS);
+
+    // Mirrors PremiumPricing.quote for the pool's current liability and assets
+    async function expectedQuote(amount: bigint) {
+      const [baseRate, kink, slope] = await rainyDayFund.pricingCurve();
+      const liability = await rainyDayFund.outstandingLiability();
+      const assets = await rainyDayFund.poolAssets();
+      const from = liability * 10000n / assets;
+      const to = (liability + amount * PAYOUT) * 10000n / assets;
+
+      let rate = baseRate;
+      if (to > kink) {
+        const excessFrom = from > kink ? from - kink : 0n;
+        const excessTo = to - kink;
+        rate += (excessTo * excessTo - excessFrom * excessFrom) / (2n * (to - from)) * slope / 10000n;
+      }
+      return (PREMIUM * amount * rate + 9999n) / 10000n;
+    }
+
+    beforeEach(async function () {
+      await rainyDayFund.connect(investor).invest(INVESTMENT);
+    });
+
+    it("Should start with the default pricing curve", async function () {
+      const [baseRate, kink, slope] = await rainyDayFund.pricingCurve();
+      expect(baseRate).to.equal(10000);
+      expect(kink).to.equal(8000);
+      expect(slope).to.equal(10000);
+      expect(await rainyDayFund.utilization()).to.equal(0);
+    });
+
+    it("Should charge the season premium below the kink", async function () {
+      expect(await rainyDayFund.quotePremium(0, 10)).to.equal(PREMIUM * 10n);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 10, PREMIUM * 10n))
+        .to.emit(rainyDayFund, "PolicyBought")
+        .withArgs(farmer.address, 0, 1, 10, PREMIUM * 10n, PREMIUM);
+
+      // 360 USDC of liability against 1090 USDC of assets
+      expect(await rainyDayFund.utilization()).to.equal(360n * 10000n / 1090n);
+    });
+
+    it("Should raise the price once utilization passes the kink", async function () {
+      await rainyDayFund.connect(farmer).buyPolicy(0, 20, NO_PREMIUM_LIMIT);
+
+      // Utilization moves from 61% to 91%, past the 80% kink
+      const quote = await rainyDayFund.quotePremium(0, 10);
+      expect(quote).to.equal(await expectedQuote(10n));
+      expect(quote).to.be.greaterThan(PREMIUM * 10n);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 10, quote))
+        .to.emit(rainyDayFund, "PolicyBought")
+        .withArgs(farmer.address, 0, 1, 10, quote, quote / 10n);
+      expect(await rainyDayFund.seasonPremiums(1)).to.equal(PREMIUM * 20n + quote);
+    });
+
+    it("Should charge more the higher utilization gets", async function () {
+      await rainyDayFund.connect(farmer).buyPolicy(0, 20, NO_PREMIUM_LIMIT);
+      const before = await rainyDayFund.quotePremium(0, 1);
+
+      await rainyDayFund.connect(farmer).buyPolicy(0, 8, NO_PREMIUM_LIMIT);
+      const after = await rainyDayFund.quotePremium(0, 1);
+      expect(after).to.be.greaterThan(before);
+      expect(after).to.equal(await expectedQuote(1n));
+    });
+
+    it("Should revert when the premium exceeds the buyer's maximum", async function () {
+      await rainyDayFund.connect(farmer).buyPolicy(0, 20, NO_PREMIUM_LIMIT);
+      const quote = await rainyDayFund.quotePremium(0, 10);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 10, quote - 1n))
+        .to.be.revertedWith("Premium exceeds maximum");
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, PREMIUM - 1n))
+        .to.be.revertedWith("Premium exceeds maximum");
+    });
+
+    it("Should size capacity on the base rate", async function () {
+      // Policies at half the season premium bring in less collateral
+      await governed(rainyDayFund, "setPricingCurve", 5000, 8000, 10000);
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(INVESTMENT / (PAYOUT - PREMIUM / 2n));
+      expect(await rainyDayFund.quotePremium(0, 2)).to.equal(PREMIUM);
+    });
+
+    it("Should validate pricing curve updates", async function () {
+      await expect(governed(rainyDayFund, "setPricingCurve", 12000, 7000, 20000))
+        .to.emit(rainyDayFund, "PricingCurveUpdated")
+        .withArgs(12000, 7000, 20000);
+      expect(await rainyDayFund.quotePremium(0, 1)).to.equal(PREMIUM * 12000n / 10000n);
+
+      await expect(governed(rainyDayFund, "setPricingCurve", 0, 8000, 10000))
+        .to.be.revertedWith("Invalid base rate");
+      await expect(governed(rainyDayFund, "setPricingCurve", 10000, 10001, 10000))
+        .to.be.revertedWith("Invalid kink");
+      await expect(governed(rainyDayFund.connect(farmer), "setPricingCurve", 10000, 8000, 10000))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Oracle Validation", function () {
+    beforeEach(async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
+    });
+
+    async function setRound(roundId: number, answer: number, updatedAt: bigint, answeredInRound = roundId) {
+      await mockWeatherOracle.setRoundData(roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+
+    async function advanceToClaim() {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+    }
+
+    it("Should reject negative weather readings", async function () {
+      const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await setRound(2, -5, now);
+
+      await expect(rainyDayFund.getWeatherData(0))
+        .to.be.revertedWith("Oracle quorum not met");
+
+      await advanceToClaim();
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Oracle quorum not met");
+    });
+
+    it("Should reject readings outside the configured bounds", async function () {
+      await expect(governed(rainyDayFund, "setOracleParameters", 0, 0, 100))
+        .to.emit(rainyDayFund, "OracleParametersUpdated")
+        .withArgs(0, 0, 100);
+
+      const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await setRound(2, 150, now);
+      await expect(rainyDayFund.getWeatherData(0))
+        .to.be.revertedWith("Oracle quorum not met");
+
+      await setRound(3, 100, now);
+      const [, weather] = await rainyDayFund.getWeatherData(0);
+      expect(weather).to.equal(100);
+    });
+
+    it("Should reject incomplete rounds", async function () {
+      await mockWeatherOracle.setRoundData(2, 5, 0, 0, 2);
+      await expect(rainyDayFund.getWeatherData(0))
+        .to.be.revertedWith("Oracle quorum not met");
+
+      await mockWeatherOracle.setRoundData(0, 5, 1, 1, 0);
+      await expect(rainyDayFund.getWeatherData(0))
+        .to.be.revertedWith("Oracle quorum not met");
+    });
+
+    it("Should reject answers carried over from an older round", async function () {
+      const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await setRound(5, 5, now, 4);
+
+      await expect(rainyDayFund.getWeatherData(0))
+        .to.be.revertedWith("Oracle quorum not met");
+    });
+
+    it("Should reject timestamps in the future", async function () {
+      const future = (await rainyDayFund.getCurrentTime()) + 1000n;
+      await setRound(2, 5, future);
+
+      await expect(rainyDayFund.getWeatherData(0))
+        .to.be.revertedWith("Oracle quorum not met");
+    });
+
+    it("Should reject readings that are stale at season end", async function () {
+      // Applies once season 1 has finished, so the check is made on season 2
+      await governed(rainyDayFund, "setOracleParameters", 24n * 60n * 60n, 0, 10000);
+      await rainyDayFund.rollSeason();
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
+      await advanceToClaim();
+
+      // The oracle was last updated at deployment, months before the season ended
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.be.revertedWith("Oracle quorum not met");
+
+      const seasonEnd = await rainyDayFund.seasonOverTimeStamps(2);
+      await setRound(2, 5, seasonEnd);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.emit(rainyDayFund, "ClaimRegistered");
+    });
+
+    it("Should ignore readings posted after season end", async function () {
+      // Good weather at season end
+      await mockWeatherOracle.updatePrice(15);
+      await advanceToClaim();
+
+      // The oracle reports a drought once the season is over
+      await mockWeatherOracle.updatePrice(5);
+
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Weather not bad enough");
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.emit(rainyDayFund, "SeasonOutcomeFinalized")
+        .withArgs(0, 1, 2, 15, anyValue);
+      expect((await rainyDayFund.seasonPolicies(0, 1)).outcomePayoutBps).to.equal(0);
+    });
+
+    it("Should not count a feed whose reading at season end is too many rounds back", async function () {
+      await advanceToClaim();
+
+      // Only 24 rounds are walked back to find the reading at season end
+      for (let i = 0; i < 25; i++) {
+        await mockWeatherOracle.updatePrice(5);
+      }
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.be.revertedWith("Oracle quorum not met");
+    });
+
+    it("Should finalize the season's observation on the first claim", async function () {
+      const secondFarmer = addrs[0];
+      await mockUSDC.mint(secondFarmer.address, INITIAL_USDC_BALANCE);
+      await mockUSDC.connect(secondFarmer).approve(await rainyDayFund.getAddress(), ethers.MaxUint256);
+      await rainyDayFund.connect(secondFarmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
+
+      await advanceToClaim();
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "SeasonOutcomeFinalized");
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
+      expect(policyInfo.weatherFinalized).to.equal(true);
+      expect(policyInfo.weather.answer).to.equal(INITIAL_WEATHER);
+      expect(policyInfo.weather.roundId).to.equal(1);
+
+      // A later oracle update does not change the outcome of the season
+      await mockWeatherOracle.updatePrice(20);
+      await expect(rainyDayFund.connect(secondFarmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "ClaimRegistered");
+    });
+
+    it("Should let anyone finalize the season outcome during the claim window", async function () {
+      await expect(rainyDayFund.connect(investor).finalizeSeasonWeather(0, 1))
+        .to.be.revertedWith("Not in claim period");
+
+      await advanceToClaim();
+      const [roundId, weather, timestamp] = await rainyDayFund.getWeatherData(0);
+
+      await expect(rainyDayFund.connect(investor).finalizeSeasonWeather(0, 1))
+        .to.emit(rainyDayFund, "SeasonOutcomeFinalized")
+        .withArgs(0, 1, roundId, weather, timestamp);
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
+      expect(policyInfo.weather.roundId).to.equal(roundId);
+      expect(policyInfo.weather.answer).to.equal(weather);
+      expect(policyInfo.weather.timestamp).to.equal(timestamp);
+
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.be.revertedWith("Outcome already finalized");
+    });
+
+    it("Should judge all claims against the finalized outcome", async function () {
+      // Good weather at season end
+      await mockWeatherOracle.updatePrice(15);
+      await advanceToClaim();
+      await rainyDayFund.finalizeSeasonWeather(0, 1);
+
+      // A mid-window oracle update cannot turn the season into a payout
+      await mockWeatherOracle.updatePrice(5);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Weather not bad enough");
+    });
+
+    it("Should validate oracle parameter updates", async function () {
+      await expect(governed(rainyDayFund, "setOracleParameters", 0, -1, 100))
+        .to.be.revertedWith("Invalid weather bounds");
+      await expect(governed(rainyDayFund, "setOracleParameters", 0, 50, 10))
+        .to.be.revertedWith("Invalid weather bounds");
+      await expect(governed(rainyDayFund.connect(farmer), "setOracleParameters", 0, 0, 100))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Parametric Triggers", function () {
+    const TIERED_TRIGGER: RainyDayFund.SeasonTriggerStruct = {
+      ...DEFAULT_TRIGGER,
+      tiers: [
+        { bound: 5, payoutBps: 10000 }, // Full payout below 5
+        { bound: 10, payoutBps: 5000 }, // Half payout between 5 and 10
+      ],
+    };
+
+    async function startSeasonTwo(trigger: RainyDayFund.SeasonTriggerStruct) {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, trigger, DEFAULT_DURATIONS);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+    }
+
+    async function claimAndSettle() {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 2);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      return rainyDayFund.connect(farmer).withdrawClaim(0, 2);
+    }
+
+    it("Should store the trigger definition of a season", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      for (let i = 0; i < 2; i++) {
+        await advanceToNextPhase();
+      }
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, TIERED_TRIGGER, DEFAULT_DURATIONS))
+        .to.emit(rainyDayFund, "NewSeasonStarted")
+        .withArgs(0, 2, PREMIUM, PAYOUT, [BELOW, 10, LATEST, 0, [[5, 10000], [10, 5000]]]);
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 2);
+      expect(policyInfo.triggerDirection).to.equal(BELOW);
+      expect(policyInfo.triggerThreshold).to.equal(10);
+
+      const tiers = await rainyDayFund.getPayoutTiers(0, 2);
+      expect(tiers.length).to.equal(2);
+      expect(tiers[1].bound).to.equal(10);
+      expect(tiers[1].payoutBps).to.equal(5000);
+    });
+
+    it("Should pay out when the reading is above an ABOVE threshold", async function () {
+      await startSeasonTwo({ ...DEFAULT_TRIGGER, direction: ABOVE, threshold: 50 });
+
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 50)).to.equal(0);
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 51)).to.equal(10000);
+
+      await mockWeatherOracle.updatePrice(60); // Flooding
+      await expect(claimAndSettle())
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 2, 2, PAYOUT * 2n);
+    });
+
+    it("Should not pay out below an ABOVE threshold", async function () {
+      await startSeasonTwo({ ...DEFAULT_TRIGGER, direction: ABOVE, threshold: 50 });
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      // Initial reading of 5 is bad weather for the default product, but not for this one
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.be.revertedWith("Weather not bad enough");
+    });
+
+    it("Should pay the tier matching the finalized reading", async function () {
+      await startSeasonTwo(TIERED_TRIGGER);
+
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 4)).to.equal(10000);
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 5)).to.equal(5000);
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 9)).to.equal(5000);
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 10)).to.equal(0);
+
+      await mockWeatherOracle.updatePrice(7);
+      await expect(claimAndSettle())
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 2, 2, PAYOUT); // 50% of 2 policies
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 2);
+      expect(policyInfo.outcomePayoutBps).to.equal(5000);
+    });
+
+    it("Should pay the full tier for severe readings", async function () {
+      await startSeasonTwo(TIERED_TRIGGER);
+
+      await mockWeatherOracle.updatePrice(3);
+      await expect(claimAndSettle())
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 2, 2, PAYOUT * 2n);
+    });
+
+    it("Should reject invalid tier tables", async function () {
+      for (let i = 0; i < 4; i++) {
+        await advanceToNextPhase();
+      }
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, {
+        ...DEFAULT_TRIGGER, tiers: [{ bound: 5, payoutBps: 10000 }],
+      }, DEFAULT_DURATIONS)).to.be.revertedWith("Last tier must end at threshold");
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, {
+        ...DEFAULT_TRIGGER, tiers: [{ bound: 12, payoutBps: 10000 }, { bound: 10, payoutBps: 5000 }],
+      }, DEFAULT_DURATIONS)).to.be.revertedWith("Tiers out of order");
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, {
+        ...DEFAULT_TRIGGER, tiers: [{ bound: 5, payoutBps: 5000 }, { bound: 10, payoutBps: 10000 }],
+      }, DEFAULT_DURATIONS)).to.be.revertedWith("Tier payouts must decrease");
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, {
+        ...DEFAULT_TRIGGER, tiers: [{ bound: 10, payoutBps: 0 }],
+      }, DEFAULT_DURATIONS)).to.be.revertedWith("Invalid tier payout");
+
+      const tooMany = Array.from({ length: 9 }, (_, i) => ({ bound: i + 2, payoutBps: 10000 - i * 1000 }));
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, {
+        ...DEFAULT_TRIGGER, tiers: tooMany,
+      }, DEFAULT_DURATIONS)).to.be.revertedWith("Too many payout tiers");
+    });
+  });
+
+  describe("Cumulative Index", function () {
+    const DAY = 24n * 60n * 60n;
+
+    // Starts season 2 with the given index trigger, sells 2 policies and moves into CLAIM
+    async function startIndexSeason(overrides: Partial<RainyDayFund.SeasonTriggerStruct>) {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, { ...DEFAULT_TRIGGER, ...overrides }, DEFAULT_DURATIONS);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      return (await rainyDayFund.seasonOverTimeStamps(2)) - TIME_UNIT;
+    }
+
+    // Publishes one oracle round per reading, one day apart, starting at `start`
+    async function publishRounds(start: bigint, readings: number[], firstRound = 2) {
+      for (let i = 0; i < readings.length; i++) {
+        const timestamp = start + BigInt(i) * DAY;
+        await mockWeatherOracle.setRoundData(firstRound + i, readings[i], timestamp, timestamp, firstRound + i);
+      }
+    }
+
+    async function recordRounds(firstRound: number, count: number) {
+      for (let i = 0; i < count; i++) {
+        await rainyDayFund.recordObservation(0, 2, [firstRound + i]);
+      }
+    }
+
+    it("Should expose the oracle round history", async function () {
+      await mockWeatherOracle.updatePrice(12);
+      await mockWeatherOracle.updatePrice(7);
+
+      const [, first] = await mockWeatherOracle.getRoundData(1);
+      const [, second] = await mockWeatherOracle.getRoundData(2);
+      const [roundId, latest] = await mockWeatherOracle.latestRoundData();
+      expect([first, second, latest]).to.deep.equal([BigInt(INITIAL_WEATHER), 12n, 7n]);
+      expect(roundId).to.equal(3);
+    });
+
+    it("Should settle on cumulative rainfall", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart, [5, 8, 6]);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [2]))
+        .to.emit(rainyDayFund, "ObservationRecorded")
+        .withArgs(0, 2, 2, 5, coverageStart);
+      await recordRounds(3, 2);
+
+      const index = await rainyDayFund.seasonIndexes(0, 2);
+      expect(index.observationCount).to.equal(3);
+      expect(index.sum).to.equal(19);
+      expect(await rainyDayFund.seasonIndexValue(0, 2)).to.equal(19);
+
+      // The latest reading alone (6) would not matter, the season total of 19 is below 30
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 2))
+        .to.emit(rainyDayFund, "SeasonOutcomeFinalized")
+        .withArgs(0, 2, 4, 19, coverageStart + 2n * DAY);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.emit(rainyDayFund, "ClaimRegistered");
+    });
+
+    it("Should settle on the average reading", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 6, indexType: AVERAGE });
+      await publishRounds(coverageStart, [5, 8, 7]);
+      await recordRounds(2, 3);
+
+      expect(await rainyDayFund.seasonIndexValue(0, 2)).to.equal(6); // 20 / 3, rounded down
+
+      await rainyDayFund.finalizeSeasonWeather(0, 2);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.be.revertedWith("Weather not bad enough");
+    });
+
+    it("Should settle on the number of dry days", async function () {
+      // Pays out if more than 1 reading is below 7
+      const coverageStart = await startIndexSeason({
+        direction: ABOVE,
+        threshold: 1,
+        indexType: COUNT_BELOW,
+        indexThreshold: 7,
+      });
+      await publishRounds(coverageStart, [5, 8, 6, 9]);
+      await recordRounds(2, 4);
+
+      const index = await rainyDayFund.seasonIndexes(0, 2);
+      expect(index.countBelow).to.equal(2);
+
+      await rainyDayFund.finalizeSeasonWeather(0, 2);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.emit(rainyDayFund, "ClaimRegistered");
+    });
+
+    it("Should only accept rounds from the coverage window", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart - DAY, [5]);
+      await publishRounds(coverageStart + TIME_UNIT, [5], 3);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [2]))
+        .to.be.revertedWith("Oracle quorum not met");
+      await expect(rainyDayFund.recordObservation(0, 2, [3]))
+        .to.be.revertedWith("Oracle quorum not met");
+    });
+
+    it("Should not count a round twice", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart, [5, 8]);
+
+      await recordRounds(2, 2);
+      await expect(rainyDayFund.recordObservation(0, 2, [3]))
+        .to.be.revertedWith("Round already recorded");
+      await expect(rainyDayFund.recordObservation(0, 2, [2]))
+        .to.be.revertedWith("Round already recorded");
+    });
+
+    it("Should not skip rounds", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart, [5, 8, 6]);
+
+      // Recording starts with the feed's first round in the coverage window
+      await expect(rainyDayFund.recordObservation(0, 2, [3]))
+        .to.be.revertedWith("Not the first round in window");
+      await rainyDayFund.recordObservation(0, 2, [2]);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [4]))
+        .to.be.revertedWith("Rounds must be consecutive");
+      await recordRounds(3, 2);
+      expect((await rainyDayFund.seasonIndexes(0, 2)).sum).to.equal(19);
+    });
+
+    it("Should start at a feed's first round when earlier rounds precede the window", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart - DAY, [9, 5]);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [3]))
+        .to.emit(rainyDayFund, "ObservationRecorded")
+        .withArgs(0, 2, 3, 5, coverageStart);
+    });
+
+    it("Should not move past a round the feed has not reported yet", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart, [5]);
+      await rainyDayFund.recordObservation(0, 2, [2]);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [3]))
+        .to.be.revertedWith("Oracle quorum not met");
+      expect(await rainyDayFund.lastRecordedRound(0, 2, await mockWeatherOracle.getAddress())).to.equal(2);
+
+      await publishRounds(coverageStart + DAY, [8], 3);
+      await rainyDayFund.recordObservation(0, 2, [3]);
+      expect((await rainyDayFund.seasonIndexes(0, 2)).sum).to.equal(13);
+    });
+
+    it("Should only let keepers record rounds", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart, [5]);
+
+      await expect(rainyDayFund.connect(farmer).recordObservation(0, 2, [2]))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(farmer.address, await rainyDayFund.KEEPER_ROLE());
+
+      await rainyDayFund.grantRole(await rainyDayFund.KEEPER_ROLE(), farmer.address);
+      await expect(rainyDayFund.connect(farmer).recordObservation(0, 2, [2]))
+        .to.emit(rainyDayFund, "ObservationRecorded");
+    });
+
+    it("Should validate recorded rounds", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await mockWeatherOracle.setRoundData(2, -1, coverageStart, coverageStart, 2);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [2]))
+        .to.be.revertedWith("Oracle quorum not met");
+      await expect(rainyDayFund.recordObservation(0, 2, [9]))
+        .to.be.revertedWith("Oracle quorum not met");
+      await expect(rainyDayFund.recordObservation(0, 2, [2, 3]))
+        .to.be.revertedWith("One round per feed");
+    });
+
+    it("Should require observations before finalizing an index season", async function () {
+      await startIndexSeason({ threshold: 30, indexType: SUM });
+
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 2))
+        .to.be.revertedWith("No observations recorded");
+    });
+
+    it("Should stop recording once the outcome is finalized", async function () {
+      const coverageStart = await startIndexSeason({ threshold: 30, indexType: SUM });
+      await publishRounds(coverageStart, [5, 8]);
+      await rainyDayFund.recordObservation(0, 2, [2]);
+      await rainyDayFund.finalizeSeasonWeather(0, 2);
+
+      await expect(rainyDayFund.recordObservation(0, 2, [3]))
+        .to.be.revertedWith("Outcome already finalized");
+    });
+
+    it("Should not record rounds for latest-reading seasons", async function () {
+      await expect(rainyDayFund.recordObservation(0, 1, [1]))
+        .to.be.revertedWith("Season uses latest reading");
+    });
+  });
+
+  describe("Multiple Weather Feeds", function () {
+    // Deploys one extra feed per reading and registers it next to the default feed
+    async function addFeeds(readings: number[]): Promise<MockWeatherOracle[]> {
+      const MockWeatherOracleFactory = await ethers.getContractFactory("MockWeatherOracle");
+      const feeds: MockWeatherOracle[] = [];
+      for (const reading of readings) {
+        const feed = await MockWeatherOracleFactory.deploy(reading);
+        await governed(rainyDayFund, "addWeatherFeed", 0, await feed.getAddress());
+        feeds.push(feed);
+      }
+      return feeds;
+    }
+
+    async function advanceToClaim() {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+    }
+
+    it("Should let the owner manage the feed registry", async function () {
+      const MockWeatherOracleFactory = await ethers.getContractFactory("MockWeatherOracle");
+      const feed = await MockWeatherOracleFactory.deploy(8);
+      const feedAddress = await feed.getAddress();
+
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, feedAddress))
+        .to.emit(rainyDayFund, "WeatherFeedAdded")
+        .withArgs(0, feedAddress);
+      expect(await rainyDayFund.getWeatherFeeds(0))
+        .to.deep.equal([await mockWeatherOracle.getAddress(), feedAddress]);
+
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, feedAddress))
+        .to.be.revertedWith("Feed already registered");
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, ethers.ZeroAddress))
+        .to.be.revertedWith("Weather oracle zero");
+      await expect(governed(rainyDayFund.connect(farmer), "addWeatherFeed", 0, addrs[0].address))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+
+      await expect(governed(rainyDayFund, "removeWeatherFeed", 0, await mockWeatherOracle.getAddress()))
+        .to.emit(rainyDayFund, "WeatherFeedRemoved")
+        .withArgs(0, await mockWeatherOracle.getAddress());
+      expect(await rainyDayFund.getWeatherFeeds(0)).to.deep.equal([feedAddress]);
+
+      await expect(governed(rainyDayFund, "removeWeatherFeed", 0, addrs[0].address))
+        .to.be.revertedWith("Feed not registered");
+      await expect(governed(rainyDayFund, "removeWeatherFeed", 0, feedAddress))
+        .to.be.revertedWith("Would break feed quorum");
+      await expect(governed(rainyDayFund.connect(farmer), "removeWeatherFeed", 0, feedAddress))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should cap the number of feeds", async function () {
+      const maxFeeds = Number(await rainyDayFund.MAX_WEATHER_FEEDS());
+      await addFeeds(Array(maxFeeds - 1).fill(5));
+
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, addrs[0].address))
+        .to.be.revertedWith("Too many feeds");
+    });
+
+    it("Should validate the feed quorum", async function () {
+      await addFeeds([6, 7]);
+
+      await expect(governed(rainyDayFund, "setMinFeedQuorum", 0, 2))
+        .to.emit(rainyDayFund, "FeedQuorumUpdated")
+        .withArgs(0, 2);
+      await expect(governed(rainyDayFund, "setMinFeedQuorum", 0, 0))
+        .to.be.revertedWith("Invalid quorum");
+      await expect(governed(rainyDayFund, "setMinFeedQuorum", 0, 4))
+        .to.be.revertedWith("Invalid quorum");
+      await expect(governed(rainyDayFund.connect(farmer), "setMinFeedQuorum", 0, 1))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+
+      await governed(rainyDayFund, "setMinFeedQuorum", 0, 3);
+      await expect(governed(rainyDayFund, "removeWeatherFeed", 0, await mockWeatherOracle.getAddress()))
+        .to.be.revertedWith("Would break feed quorum");
+    });
+
+    it("Should keep the feed order when a feed is removed", async function () {
+      const [first, second, third] = await addFeeds([6, 7, 8]);
+
+      // recordObservation takes the rounds in registry order, so the remaining feeds keep their places
+      await governed(rainyDayFund, "removeWeatherFeed", 0, await first.getAddress());
+      expect(await rainyDayFund.getWeatherFeeds(0)).to.deep.equal([
+        await mockWeatherOracle.getAddress(),
+        await second.getAddress(),
+        await third.getAddress(),
+      ]);
+    });
+
+    it("Should not change feeds or quorum while a season's outcome is open in CLAIM", async function () {
+      const [feed] = await addFeeds([6]);
+      const MockWeatherOracleFactory = await ethers.getContractFactory("MockWeatherOracle");
+      const newFeed = await (await MockWeatherOracleFactory.deploy(7)).getAddress();
+      await advanceToClaim();
+
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, newFeed))
+        .to.be.revertedWith("Season in claim period");
+      await expect(governed(rainyDayFund, "removeWeatherFeed", 0, await feed.getAddress()))
+        .to.be.revertedWith("Season in claim period");
+      await expect(governed(rainyDayFund, "setMinFeedQuorum", 0, 2))
+        .to.be.revertedWith("Season in claim period");
+
+      // Once the outcome is a snapshot, the feeds are free to change
+      await rainyDayFund.finalizeSeasonWeather(0, 1);
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, newFeed))
+        .to.emit(rainyDayFund, "WeatherFeedAdded");
+    });
+
+    it("Should check every season in CLAIM, not only the latest one", async function () {
+      await advanceToClaim();
+      // A short season 2 is through its claim window while season 1 still takes claims
+      const DAY = 24n * 60n * 60n;
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER,
+        { active: DAY, coverage: DAY, claim: DAY, withdraw: TIME_UNIT });
+      for (let i = 0; i < 3; i++) {
+        await advanceToNextPhase();
+      }
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(3); // WITHDRAW
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(2); // CLAIM
+
+      await expect(governed(rainyDayFund, "addWeatherFeed", 0, addrs[0].address))
+        .to.be.revertedWith("Season in claim period");
+      // Investors cannot exit either until season 1's claims are in
+      await expect(rainyDayFund.connect(investor).redeemShares(0))
+        .to.be.revertedWith("Not in withdrawal period");
+
+      await time.increaseTo(await rainyDayFund.claimWindowEnd(1));
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(3); // WITHDRAW
+      await expect(rainyDayFund.connect(investor).redeemShares(0))
+        .to.emit(rainyDayFund, "InvestmentWithdrawn");
+    });
+
+    it("Should use the median of disagreeing feeds", async function () {
+      await addFeeds([12, 8]);
+      const [, weather] = await rainyDayFund.getWeatherData(0);
+      expect(weather).to.equal(8); // median of 5, 12 and 8
+
+      // With an even number of feeds the upper middle reading is used
+      await addFeeds([20]);
+      const [, evenWeather] = await rainyDayFund.getWeatherData(0);
+      expect(evenWeather).to.equal(12);
+    });
+
+    it("Should not let a single hostile feed decide the payout", async function () {
+      await addFeeds([6, 5000]);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await advanceToClaim();
+
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.emit(rainyDayFund, "SeasonOutcomeFinalized")
+        .withArgs(0, 1, 1, 6, (await rainyDayFund.getWeatherData(0))[2]);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "ClaimRegistered");
+    });
+
+    it("Should exclude broken feeds from the median", async function () {
+      const [garbage, down, honest] = await addFeeds([5, 5, 12]);
+      const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await garbage.setRoundData(2, -3, now, now, 2);
+      await down.setReverting(true);
+      await advanceToClaim();
+
+      // Median of the two valid readings, 5 and 12
+      const tx = rainyDayFund.finalizeSeasonWeather(0, 1);
+      await expect(tx)
+        .to.emit(rainyDayFund, "WeatherFeedExcluded")
+        .withArgs(0, 1, await garbage.getAddress(), "Weather out of range");
+      await expect(tx)
+        .to.emit(rainyDayFund, "WeatherFeedExcluded")
+        .withArgs(0, 1, await down.getAddress(), "Feed call failed");
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
+      expect(policyInfo.weather.answer).to.equal(12);
+      expect(policyInfo.weather.roundId).to.equal((await honest.latestRoundData())[0]);
+    });
+
+    it("Should require a quorum of fresh feeds at season end", async function () {
+      const [fresh] = await addFeeds([7, 4]);
+      await governed(rainyDayFund, "setOracleParameters", 24n * 60n * 60n, 0, 10000);
+      await governed(rainyDayFund, "setMinFeedQuorum", 0, 2);
+      await advanceToClaim();
+
+      // Only the default feed is updated at season end, the others last reported at deployment
+      const seasonEnd = await rainyDayFund.seasonOverTimeStamps(1);
+      await mockWeatherOracle.setRoundData(2, 5, seasonEnd, seasonEnd, 2);
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.be.revertedWith("Oracle quorum not met");
+
+      await fresh.setRoundData(2, 7, seasonEnd, seasonEnd, 2);
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.emit(rainyDayFund, "WeatherFeedExcluded")
+        .withArgs(0, 1, (await rainyDayFund.getWeatherFeeds(0))[2], "Stale weather data");
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
+      expect(policyInfo.weather.answer).to.equal(7);
+    });
+
+    it("Should record the median round of every feed for index seasons", async function () {
+      const [second, third] = await addFeeds([5, 5]);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, { ...DEFAULT_TRIGGER, threshold: 30, indexType: SUM }, DEFAULT_DURATIONS);
+      await advanceToClaim();
+
+      const coverageStart = (await rainyDayFund.seasonOverTimeStamps(2)) - TIME_UNIT;
+      await mockWeatherOracle.setRoundData(2, 9, coverageStart, coverageStart, 2);
+      await second.setRoundData(7, 3, coverageStart, coverageStart, 7);
+      await third.setRoundData(4, 4, coverageStart + TIME_UNIT, coverageStart + TIME_UNIT, 4);
+
+      // The third feed's round is outside the coverage window, the median of 9 and 3 is 9
+      await expect(rainyDayFund.recordObservation(0, 2, [2, 7, 4]))
+        .to.emit(rainyDayFund, "WeatherFeedExcluded")
+        .withArgs(0, 2, await third.getAddress(), "Round outside coverage window");
+      expect(await rainyDayFund.seasonIndexValue(0, 2)).to.equal(9);
+      expect(await rainyDayFund.lastRecordedRound(0, 2, await second.getAddress())).to.equal(7);
+      // The excluded round was reported, so it is used up all the same
+      expect(await rainyDayFund.lastRecordedRound(0, 2, await third.getAddress())).to.equal(4);
+      expect(await rainyDayFund.settlementFeeds(0, 2, 0)).to.equal(await mockWeatherOracle.getAddress());
+      expect(await rainyDayFund.settlementFeeds(0, 2, 1)).to.equal(await second.getAddress());
+      await expect(rainyDayFund.settlementFeeds(0, 2, 2)).to.be.reverted;
+
+      await expect(rainyDayFund.recordObservation(0, 2, [3, 7, 5]))
+        .to.be.revertedWith("Round already recorded");
+    });
+
+    it("Should not let a caller drop one feed's round from the median", async function () {
+      const [second, third] = await addFeeds([5, 5]);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, { ...DEFAULT_TRIGGER, threshold: 30, indexType: SUM }, DEFAULT_DURATIONS);
+      await advanceToClaim();
+
+      const coverageStart = (await rainyDayFund.seasonOverTimeStamps(2)) - TIME_UNIT;
+      for (const [feed, readings] of [[mockWeatherOracle, [9, 9]], [second, [3, 3]], [third, [4, 1]]] as const) {
+        for (let i = 0; i < readings.length; i++) {
+          const timestamp = coverageStart + BigInt(i) * TIME_UNIT / 2n;
+          await feed.setRoundData(2 + i, readings[i], timestamp, timestamp, 2 + i);
+        }
+      }
+      await rainyDayFund.recordObservation(0, 2, [2, 2, 2]);
+
+      // Passing a round the third feed has not reported, or one further on, would leave its reading of 1 out
+      await expect(rainyDayFund.recordObservation(0, 2, [3, 3, 9]))
+        .to.be.revertedWith("Rounds must be consecutive");
+      await expect(rainyDayFund.recordObservation(0, 2, [3, 3, 4]))
+        .to.be.revertedWith("Rounds must be consecutive");
+
+      await expect(rainyDayFund.recordObservation(0, 2, [3, 3, 3]))
+        .to.emit(rainyDayFund, "ObservationRecorded")
+        .withArgs(0, 2, 3, 3, coverageStart + TIME_UNIT / 2n);
+      expect(await rainyDayFund.seasonIndexValue(0, 2)).to.equal(7);
+    });
+  });
+
+  describe("Weather Feed Migration", function () {
+    let newFeed: MockWeatherOracle;
+    let oldFeedAddress: string;
+    let newFeedAddress: string;
+
+    beforeEach(async function () {
+      const MockWeatherOracleFactory = await ethers.getContractFactory("MockWeatherOracle");
+      newFeed = await MockWeatherOracleFactory.deploy(7);
+      oldFeedAddress = await mockWeatherOracle.getAddress();
+      newFeedAddress = await newFeed.getAddress();
+    });
+
+    function acceptData(feed: string) {
+      return rainyDayFund.interface.encodeFunctionData("acceptWeatherFeed", [0, oldFeedAddress, feed]);
+    }
+
+    it("Should hand a region over to the proposed feed", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.emit(rainyDayFund, "WeatherFeedProposed")
+        .withArgs(0, oldFeedAddress, newFeedAddress);
+      expect((await rainyDayFund.regions(0)).proposedFeed).to.equal(newFeedAddress);
+
+      // Accepting is a timelocked change, the old feed stays in charge until it applies
+      await rainyDayFund.queueChange(acceptData(newFeedAddress));
+      expect(await rainyDayFund.getWeatherFeeds(0)).to.deep.equal([oldFeedAddress]);
+
+      await expect(governed(rainyDayFund, "acceptWeatherFeed", 0, oldFeedAddress, newFeedAddress))
+        .to.emit(rainyDayFund, "WeatherFeedMigrated")
+        .withArgs(0, oldFeedAddress, newFeedAddress);
+      expect(await rainyDayFund.getWeatherFeeds(0)).to.deep.equal([newFeedAddress]);
+      expect((await rainyDayFund.regions(0)).proposedFeed).to.equal(ethers.ZeroAddress);
+      expect((await rainyDayFund.getWeatherData(0))[1]).to.equal(7);
+    });
+
+    it("Should only propose feeds that report a valid latest round", async function () {
+      await expect(rainyDayFund.connect(farmer).proposeWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+      await expect(rainyDayFund.proposeWeatherFeed(0, addrs[0].address, newFeedAddress))
+        .to.be.revertedWith("Feed not registered");
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, oldFeedAddress))
+        .to.be.revertedWith("Feed already registered");
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, ethers.ZeroAddress))
+        .to.be.revertedWith("Weather oracle zero");
+
+      const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      await newFeed.setRoundData(2, 7, 0, now, 2);
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Incomplete oracle round");
+      await newFeed.setRoundData(3, -3, now, now, 3);
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Weather out of range");
+      await newFeed.setReverting(true);
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Feed call failed");
+    });
+
+    it("Should check the proposal again when it is accepted", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress);
+      await rainyDayFund.queueChange(acceptData(newFeedAddress));
+
+      // The new feed went down while the handover was pending
+      await newFeed.setReverting(true);
+      await expect(governed(rainyDayFund, "acceptWeatherFeed", 0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Feed call failed");
+      await newFeed.setReverting(false);
+
+      // A proposal replaced in the meantime needs its own delay
+      const MockWeatherOracleFactory = await ethers.getContractFactory("MockWeatherOracle");
+      const otherFeed = await MockWeatherOracleFactory.deploy(9);
+      await rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, await otherFeed.getAddress());
+      await expect(rainyDayFund.acceptWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Feed not proposed");
+    });
+
+    it("Should not hand over feeds while a season is in CLAIM", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress);
+      await rainyDayFund.queueChange(acceptData(newFeedAddress));
+
+      // The handover is due once season 1 has finished, by then the overlapping season 2 takes claims
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.rollSeason();
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(4); // FINISHED
+
+      await expect(rainyDayFund.acceptWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Season in claim period");
+      await expect(rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.be.revertedWith("Season in claim period");
+
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await expect(rainyDayFund.acceptWeatherFeed(0, oldFeedAddress, newFeedAddress))
+        .to.emit(rainyDayFund, "WeatherFeedMigrated");
+    });
+
+    it("Should keep the feeds a season was settled on", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.finalizeSeasonWeather(0, 1);
+      const outcome = (await rainyDayFund.seasonPolicies(0, 1)).weather;
+      expect(await rainyDayFund.settlementFeeds(0, 1, 0)).to.equal(oldFeedAddress);
+
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await rainyDayFund.proposeWeatherFeed(0, oldFeedAddress, newFeedAddress);
+      await governed(rainyDayFund, "acceptWeatherFeed", 0, oldFeedAddress, newFeedAddress);
+
+      expect(await rainyDayFund.getWeatherFeeds(0)).to.deep.equal([newFeedAddress]);
+      expect(await rainyDayFund.settlementFeeds(0, 1, 0)).to.equal(oldFeedAddress);
+      expect((await rainyDayFund.seasonPolicies(0, 1)).weather).to.deep.equal(outcome);
+    });
+  });
+
+  describe("Regions", function () {
+    let regionOracle: MockWeatherOracle;
+    const REGION = 1;
+    const REGION_PREMIUM = ethers.parseUnits("5", USDC_DECIMALS);
+
+    // Adds a second region with its own oracle and opens it for the current season
+    beforeEach(async function () {
+      const MockWeatherOracleFactory = await ethers.getContractFactory("MockWeatherOracle");
+      regionOracle = await MockWeatherOracleFactory.deploy(15);
+      await rainyDayFund.addRegion("Highlands", await regionOracle.getAddress());
+      await governed(rainyDayFund, "openRegionSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+    });
+
+    it("Should register regions with their own oracle", async function () {
+      expect(await rainyDayFund.regionCount()).to.equal(2);
+      const region = await rainyDayFund.regions(REGION);
+      expect(region.name).to.equal("Highlands");
+      expect(region.active).to.equal(true);
+      expect(region.minFeedQuorum).to.equal(1);
+      expect(await rainyDayFund.getWeatherFeeds(REGION)).to.deep.equal([await regionOracle.getAddress()]);
+
+      await expect(rainyDayFund.addRegion("Coast", await mockWeatherOracle.getAddress()))
+        .to.emit(rainyDayFund, "RegionAdded")
+        .withArgs(2, "Coast", await mockWeatherOracle.getAddress());
+    });
+
+    it("Should validate new regions", async function () {
+      await expect(rainyDayFund.addRegion("", await regionOracle.getAddress()))
+        .to.be.revertedWith("Region name empty");
+      await expect(rainyDayFund.addRegion("Coast", ethers.ZeroAddress))
+        .to.be.revertedWith("Weather oracle zero");
+      await expect(rainyDayFund.connect(farmer).addRegion("Coast", await regionOracle.getAddress()))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+
+      const maxRegions = Number(await rainyDayFund.MAX_REGIONS());
+      for (let i = 2; i < maxRegions; i++) {
+        await rainyDayFund.addRegion(`Region ${i}`, await regionOracle.getAddress());
+      }
+      await expect(rainyDayFund.addRegion("Coast", await regionOracle.getAddress()))
+        .to.be.revertedWith("Too many regions");
+    });
+
+    it("Should give each region its own season policy", async function () {
+      const policyInfo = await rainyDayFund.seasonPolicies(REGION, 1);
+      expect(policyInfo.premium).to.equal(REGION_PREMIUM);
+      expect(policyInfo.payoutAmount).to.equal(REGION_PREMIUM * 4n);
+
+      const policyToken = await ethers.getContractAt("SeasonPolicyToken", policyInfo.policyToken);
+      expect(await policyToken.name()).to.equal("RainyDay Policy Highlands Season 1");
+      expect(await policyToken.symbol()).to.equal("RDP1-1");
+      expect(policyInfo.policyToken).to.not.equal((await rainyDayFund.seasonPolicies(0, 1)).policyToken);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(REGION, 2, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought")
+        .withArgs(farmer.address, REGION, 1, 2, REGION_PREMIUM * 2n, REGION_PREMIUM);
+      expect(await policyToken.balanceOf(farmer.address)).to.equal(2);
+    });
+
+    it("Should only open a region once per season and while policies are sold", async function () {
+      await expect(governed(rainyDayFund, "openRegionSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER))
+        .to.be.revertedWith("Region season already open");
+      await expect(governed(rainyDayFund, "openRegionSeason", 5, REGION_PREMIUM, DEFAULT_TRIGGER))
+        .to.be.revertedWith("Unknown region");
+      await expect(governed(rainyDayFund.connect(farmer), "openRegionSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+
+      await rainyDayFund.addRegion("Coast", await regionOracle.getAddress());
+      await expect(rainyDayFund.connect(farmer).buyPolicy(2, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Region season not open");
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await expect(governed(rainyDayFund, "openRegionSeason", 2, REGION_PREMIUM, DEFAULT_TRIGGER))
+        .to.be.revertedWith("Not in active period");
+    });
+
+    it("Should stop sales in inactive regions", async function () {
+      await expect(rainyDayFund.setRegionActive(REGION, false))
+        .to.emit(rainyDayFund, "RegionStatusUpdated")
+        .withArgs(REGION, false);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(REGION, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Region inactive");
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await expect(governed(rainyDayFund, "startNewSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.be.revertedWith("Region inactive");
+
+      // Queueing checks the region as well, so the season can be queued once it is active again
+      await rainyDayFund.setRegionActive(REGION, true);
+      await expect(governed(rainyDayFund, "startNewSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.emit(rainyDayFund, "NewSeasonStarted");
+    });
+
+    it("Should report exposure per region against the shared pool", async function () {
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
+      await rainyDayFund.connect(farmer).buyPolicy(REGION, 4, NO_PREMIUM_LIMIT);
+
+      expect(await rainyDayFund.regionExposure(0)).to.equal(PAYOUT * 3n);
+      expect(await rainyDayFund.regionExposure(REGION)).to.equal(REGION_PREMIUM * 16n);
+      expect(await rainyDayFund.outstandingLiability()).to.equal(PAYOUT * 3n + REGION_PREMIUM * 16n);
+
+      // Capacity of both regions is limited by the liability of all regions
+      const free = (await rainyDayFund.totalAssets()) - (await rainyDayFund.outstandingLiability());
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(free / (PAYOUT - PREMIUM));
+      expect(await rainyDayFund.remainingCapacity(REGION)).to.equal(free / (REGION_PREMIUM * 3n));
+    });
+
+    it("Should settle each region on its own weather", async function () {
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await rainyDayFund.connect(farmer).buyPolicy(REGION, 2, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      // Bad weather in the default region (5), good weather in the highlands (15)
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "ClaimRegistered")
+        .withArgs(farmer.address, 0, 1, 2);
+      await expect(rainyDayFund.finalizeSeasonWeather(REGION, 1))
+        .to.emit(rainyDayFund, "SeasonOutcomeFinalized")
+        .withArgs(REGION, 1, 1, 15, (await regionOracle.latestRoundData())[3]);
+      await expect(rainyDayFund.connect(farmer).claimPolicies(REGION, 1))
+        .to.be.revertedWith("Weather not bad enough");
+
+      expect(await rainyDayFund.registeredClaims(0, 1, farmer.address)).to.equal(2);
+      expect(await rainyDayFund.registeredClaims(REGION, 1, farmer.address)).to.equal(0);
+    });
+
+    it("Should apply the same haircut to every region when the pool falls short", async function () {
+      const bigFarmer = addrs[0];
+      await mockUSDC.mint(bigFarmer.address, INITIAL_USDC_BALANCE);
+      await mockUSDC.connect(bigFarmer).approve(await rainyDayFund.getAddress(), ethers.MaxUint256);
+      await regionOracle.updatePrice(3);
+
+      // Underwriting beyond the pool's assets, with the highlands rolling over, from season 2 on
+      await rainyDayFund.queueChange(rainyDayFund.interface.encodeFunctionData("setCollateralizationRatio", [2500]));
+      await rainyDayFund.queueChange(
+        rainyDayFund.interface.encodeFunctionData("queueSeason", [REGION, REGION_PREMIUM, DEFAULT_TRIGGER]));
+      await governed(rainyDayFund, "setCollateralizationRatio", 2500);
+      await governed(rainyDayFund, "queueSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER);
+      await rainyDayFund.rollSeason();
+
+      await rainyDayFund.connect(bigFarmer).buyPolicy(0, 40, NO_PREMIUM_LIMIT);
+      await rainyDayFund.connect(bigFarmer).buyPolicy(REGION, 40, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(bigFarmer).claimPolicies(0, 2);
+      await rainyDayFund.connect(bigFarmer).claimPolicies(REGION, 2);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+
+      const pool = await mockUSDC.balanceOf(await rainyDayFund.getAddress());
+      const owed = 40n * PAYOUT + 40n * REGION_PREMIUM * 4n;
+      expect(owed).to.be.greaterThan(pool);
+
+      // Settling the default region first does not leave the highlands with less (up to rounding)
+      await rainyDayFund.settleClaims(0, 2);
+      await rainyDayFund.settleClaims(REGION, 2);
+      expect((await rainyDayFund.seasonPolicies(0, 2)).payoutPerPolicy).to.equal(PAYOUT * pool / owed);
+      expect((await rainyDayFund.seasonPolicies(REGION, 2)).payoutPerPolicy)
+        .to.be.closeTo(REGION_PREMIUM * 4n * pool / owed, 1n);
+    });
+
+    it("Should settle every region when the next season starts", async function () {
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+
+      await expect(governed(rainyDayFund, "startNewSeason", REGION, REGION_PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(0, 1, 2, PAYOUT)
+        .and.to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(REGION, 1, 0, REGION_PREMIUM * 4n);
+
+      // Only the region that started the season is open
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Region season not open");
+      await expect(rainyDayFund.connect(farmer).buyPolicy(REGION, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
+    });
+  });
+
+  describe("Eligibility Module", function () {
+    let eligibilityModule: MockEligibilityModule;
 
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("Weather not bad enough");
+    beforeEach(async function () {
+      const ModuleFactory = await ethers.getContractFactory("MockEligibilityModule");
+      eligibilityModule = await ModuleFactory.deploy(await rainyDayFund.getAddress());
+      await governed(rainyDayFund, "setEligibilityModule", await eligibilityModule.getAddress());
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+    });
 
-      // Test just below threshold (weather = 9 should allow claims)
-      await mockWeatherOracle.updatePrice(9);
+    it("Should only let the season manager set the module", async function () {
+      expect(await rainyDayFund.eligibilityModule()).to.equal(await eligibilityModule.getAddress());
+      await expect(governed(rainyDayFund.connect(farmer), "setEligibilityModule", ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
 
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.emit(rainyDayFund, "ClaimMade");
+      // Without a module anyone can buy again, from the next season on
+      await expect(governed(rainyDayFund, "setEligibilityModule", ethers.ZeroAddress))
+        .to.emit(rainyDayFund, "EligibilityModuleUpdated")
+        .withArgs(ethers.ZeroAddress);
+      await rainyDayFund.rollSeason();
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
     });
 
-    it("Should not allow claiming in wrong periods", async function () {
-      // Try claiming in ACTIVE period
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("Not in claim period");
-
-      // Try claiming in INACTIVE period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("Not in claim period");
+    it("Should let approved farmers buy", async function () {
+      await eligibilityModule.setAllowlisted(farmer.address, true);
 
-      // Skip CLAIM period to WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
+      expect(await eligibilityModule.policiesBought(farmer.address, 0, 1)).to.equal(2);
+    });
 
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("Not in claim period");
+    it("Should let farmers join the allowlist with a Merkle proof", async function () {
+      const leaf = (account: string) =>
+        ethers.keccak256(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account])));
+      const farmerLeaf = leaf(farmer.address);
+      const otherLeaf = leaf(addrs[0].address);
+      // Root of the two-leaf tree; pairs are hashed in sorted order
+      await eligibilityModule.setAllowlistRoot(ethers.keccak256(ethers.concat([farmerLeaf, otherLeaf].sort())));
 
-      // Try in FINISHED period
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("Not in claim period");
+      await expect(eligibilityModule.connect(addrs[1]).joinAllowlist([otherLeaf]))
+        .to.be.revertedWith("Invalid proof");
+      await eligibilityModule.connect(farmer).joinAllowlist([otherLeaf]);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
     });
 
-    it("Should not allow claiming without policies", async function () {
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+    it("Should reject farmers the module does not approve", async function () {
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Not allowlisted");
+      expect(await mockUSDC.balanceOf(farmer.address)).to.equal(INITIAL_USDC_BALANCE);
 
-      await expect(rainyDayFund.connect(investor).claimPolicies())
-        .to.be.revertedWith("No policies to claim");
+      // Only the fund's purchases count towards the limits
+      await expect(eligibilityModule.checkPurchase(farmer.address, 0, 1, 1, PAYOUT))
+        .to.be.revertedWith("Only fund");
     });
 
-    it("Should handle insufficient funds for claims", async function () {
-      // Create new farmer with large policy purchase but insufficient contract balance
-      const bigFarmer = addrs[0];
-      await mockUSDC.mint(bigFarmer.address, INITIAL_USDC_BALANCE);
-      await mockUSDC.connect(bigFarmer).approve(await rainyDayFund.getAddress(), ethers.MaxUint256);
-
-      // Buy policies worth more than available balance for payout
-      await rainyDayFund.connect(bigFarmer).buyPolicy(100); // This will drain investor funds for premium
+    it("Should cap the policies a farmer buys per season", async function () {
+      await eligibilityModule.setAllowlisted(farmer.address, true);
+      await eligibilityModule.setMaxPoliciesPerSeason(3);
 
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Policy limit reached");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
 
-      await expect(rainyDayFund.connect(bigFarmer).claimPolicies())
-        .to.be.revertedWith("Insufficient funds");
+      // The limit starts over with the next season
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
     });
 
-    it("Should prevent double claiming", async function () {
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-
-      // First claim should work
-      await rainyDayFund.connect(farmer).claimPolicies();
+    it("Should cap the insured value at the farmer's registered plot", async function () {
+      await eligibilityModule.setAllowlisted(farmer.address, true);
+      await eligibilityModule.registerPlot(farmer.address, 0, PAYOUT * 2n);
 
-      // Second claim should fail (no tokens left)
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("No policies to claim");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Exceeds plot value");
     });
   });
 
@@ -422,8 +2381,8 @@ describe("RainyDayFund", function () {
     it("Should allow investments in INACTIVE period", async function () {
       const investmentAmount = ethers.parseUnits("1000", USDC_DECIMALS);
 
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      expect(await rainyDayFund.getSeasonState()).to.equal(1); // INACTIVE
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(1); // INACTIVE
 
       await expect(rainyDayFund.connect(investor).invest(investmentAmount))
         .to.emit(rainyDayFund, "InvestmentMade");
@@ -433,20 +2392,20 @@ describe("RainyDayFund", function () {
       const investmentAmount = ethers.parseUnits("1000", USDC_DECIMALS);
 
       // Test in CLAIM period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
 
       await expect(rainyDayFund.connect(investor).invest(investmentAmount))
         .to.be.revertedWith("Season not active aymore");
 
       // Test in WITHDRAW period
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
 
       await expect(rainyDayFund.connect(investor).invest(investmentAmount))
         .to.be.revertedWith("Season not active aymore");
 
       // Test in FINISHED period
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
 
       await expect(rainyDayFund.connect(investor).invest(investmentAmount))
         .to.be.revertedWith("Season not active aymore");
@@ -465,11 +2424,11 @@ describe("RainyDayFund", function () {
       const shares = await rainyDayFund.balanceOf(investor.address);
 
       // Advance to withdrawal period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
 
-      expect(await rainyDayFund.getSeasonState()).to.equal(3); // WITHDRAW state
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(3); // WITHDRAW state
 
       const initialBalance = await mockUSDC.balanceOf(investor.address);
 
@@ -490,9 +2449,9 @@ describe("RainyDayFund", function () {
       const shares = await rainyDayFund.balanceOf(investor.address);
 
       // Advance to withdrawal period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
 
       const assets = await rainyDayFund.connect(investor).redeem.staticCall(shares, investor.address, investor.address);
 
@@ -511,18 +2470,18 @@ describe("RainyDayFund", function () {
         .to.be.revertedWith("Not in withdrawal period");
 
       // Try in INACTIVE period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
       await expect(rainyDayFund.connect(investor).redeemShares(shares))
         .to.be.revertedWith("Not in withdrawal period");
 
       // Try in CLAIM period
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
       await expect(rainyDayFund.connect(investor).redeemShares(shares))
         .to.be.revertedWith("Not in withdrawal period");
 
       // Try in FINISHED period
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
       await expect(rainyDayFund.connect(investor).redeemShares(shares))
         .to.be.revertedWith("Not in withdrawal period");
     });
@@ -541,12 +2500,12 @@ describe("RainyDayFund", function () {
       const investor1Shares = await rainyDayFund.balanceOf(investor.address);
 
       // Farmer buys policies, adding premium to pool
-      await rainyDayFund.connect(farmer).buyPolicy(10); // Adds 90 USDC in premiums
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT); // Adds 90 USDC in premiums
 
       // Advance to withdrawal period (no claims made)
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
 
       const initialBalance = await mockUSDC.balanceOf(investor.address);
       await rainyDayFund.connect(investor).redeemShares(investor1Shares);
@@ -591,7 +2550,7 @@ describe("RainyDayFund", function () {
       expect(await rainyDayFund.convertToShares(investmentAmount)).to.equal(shares);
 
       // Add premiums to change ratio
-      await rainyDayFund.connect(farmer).buyPolicy(5); // Adds 45 USDC
+      await rainyDayFund.connect(farmer).buyPolicy(0, 5, NO_PREMIUM_LIMIT); // Adds 45 USDC
       
       const newTotalAssets = await rainyDayFund.totalAssets();
       expect(newTotalAssets).to.equal(investmentAmount + PREMIUM * 5n);
@@ -602,137 +2561,695 @@ describe("RainyDayFund", function () {
     });
   });
 
+  describe("Risk Tranches", function () {
+    let seniorTranche: SeniorTranche;
+    let seniorInvestor: SignerWithAddress;
+
+    // Investor funds the junior tranche (RDIS), seniorInvestor the senior tranche
+    async function fundTranches(junior: string, senior: string) {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits(junior, USDC_DECIMALS));
+      await seniorTranche.connect(seniorInvestor)
+        .deposit(ethers.parseUnits(senior, USDC_DECIMALS), seniorInvestor.address);
+    }
+
+    // Runs the season to WITHDRAW with the given weather and lets the farmer claim if it pays out
+    async function closeSeason(weather: number) {
+      await mockWeatherOracle.updatePrice(weather);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      if (weather < 10) {
+        await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+      }
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+    }
+
+    const usdc = (amount: string) => ethers.parseUnits(amount, USDC_DECIMALS);
+
+    beforeEach(async function () {
+      seniorInvestor = addrs[1];
+      const SeniorTrancheFactory = await ethers.getContractFactory("SeniorTranche");
+      seniorTranche = await SeniorTrancheFactory.deploy(await rainyDayFund.getAddress());
+      await rainyDayFund.setSeniorTranche(await seniorTranche.getAddress());
+
+      await mockUSDC.mint(seniorInvestor.address, INITIAL_USDC_BALANCE);
+      await mockUSDC.connect(seniorInvestor).approve(await seniorTranche.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should only register one senior tranche", async function () {
+      expect(await rainyDayFund.seniorTranche()).to.equal(await seniorTranche.getAddress());
+      expect(await seniorTranche.fund()).to.equal(await rainyDayFund.getAddress());
+      expect(await seniorTranche.asset()).to.equal(await mockUSDC.getAddress());
+
+      await expect(rainyDayFund.setSeniorTranche(addrs[0].address))
+        .to.be.revertedWith("Senior tranche already set");
+      await expect(rainyDayFund.connect(farmer).setSeniorTranche(addrs[0].address))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should validate the senior yield", async function () {
+      await expect(rainyDayFund.setSeniorYield(500))
+        .to.emit(rainyDayFund, "SeniorYieldUpdated")
+        .withArgs(500);
+      await expect(rainyDayFund.setSeniorYield(10001))
+        .to.be.revertedWith("Invalid senior yield");
+      await expect(rainyDayFund.connect(farmer).setSeniorYield(500))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should keep senior capital in the pool", async function () {
+      await fundTranches("1000", "1000");
+
+      expect(await seniorTranche.totalAssets()).to.equal(usdc("1000"));
+      expect(await rainyDayFund.seniorAssets()).to.equal(usdc("1000"));
+      expect(await rainyDayFund.totalAssets()).to.equal(usdc("1000"));
+      expect(await rainyDayFund.poolAssets()).to.equal(usdc("2000"));
+      expect(await mockUSDC.balanceOf(await seniorTranche.getAddress())).to.equal(0);
+
+      // Both tranches back the policies
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(usdc("2000") / (PAYOUT - PREMIUM));
+    });
+
+    it("Should only accept senior capital through the tranche during the season", async function () {
+      await expect(rainyDayFund.connect(investor).depositSeniorAssets(usdc("100")))
+        .to.be.revertedWith("Only senior tranche");
+      await expect(rainyDayFund.connect(investor).withdrawSeniorAssets(usdc("100")))
+        .to.be.revertedWith("Only senior tranche");
+
+      await fundTranches("1000", "1000");
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await expect(seniorTranche.connect(seniorInvestor).deposit(usdc("100"), seniorInvestor.address))
+        .to.be.revertedWith("Season not active aymore");
+      await expect(seniorTranche.connect(seniorInvestor).redeem(1, seniorInvestor.address, seniorInvestor.address))
+        .to.be.revertedWith("Not in withdrawal period");
+    });
+
+    it("Should pay the senior tranche a capped yield in a season without claims", async function () {
+      await fundTranches("1000", "1000");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT); // 90 USDC of premiums
+      await closeSeason(15);
+
+      // The senior tranche earns 2% of its capital, the junior tranche keeps the remaining premiums
+      await expect(rainyDayFund.connect(investor).redeemShares(await rainyDayFund.balanceOf(investor.address)))
+        .to.emit(rainyDayFund, "TrancheWaterfallApplied")
+        .withArgs(1, usdc("1020"), usdc("1070"));
+      expect(await mockUSDC.balanceOf(investor.address)).to.be.closeTo(INITIAL_USDC_BALANCE + usdc("70"), 1n);
+
+      const seniorShares = await seniorTranche.balanceOf(seniorInvestor.address);
+      await seniorTranche.connect(seniorInvestor).redeem(seniorShares, seniorInvestor.address, seniorInvestor.address);
+      expect(await mockUSDC.balanceOf(seniorInvestor.address)).to.be.closeTo(INITIAL_USDC_BALANCE + usdc("20"), 1n);
+    });
+
+    it("Should cap the senior yield at the season's premiums", async function () {
+      await fundTranches("1000", "1000");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT); // 9 USDC of premiums, less than 2% of 1000
+      await closeSeason(15);
+
+      expect(await seniorTranche.totalAssets()).to.equal(usdc("1009"));
+      expect(await rainyDayFund.totalAssets()).to.equal(usdc("1000"));
+    });
+
+    it("Should let the junior tranche absorb a partial loss", async function () {
+      await fundTranches("1000", "1000");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT); // 360 USDC of payouts
+      await closeSeason(5);
+
+      // Junior: 1000 + 90 premiums - 20 senior yield - 360 payouts
+      await expect(seniorTranche.connect(seniorInvestor)
+        .redeem(await seniorTranche.balanceOf(seniorInvestor.address), seniorInvestor.address, seniorInvestor.address))
+        .to.emit(rainyDayFund, "TrancheWaterfallApplied")
+        .withArgs(1, usdc("1020"), usdc("710"));
+      expect(await mockUSDC.balanceOf(seniorInvestor.address)).to.be.closeTo(INITIAL_USDC_BALANCE + usdc("20"), 1n);
+      expect(await rainyDayFund.totalAssets()).to.equal(usdc("710"));
+
+      await rainyDayFund.connect(farmer).withdrawClaim(0, 1);
+      expect(await mockUSDC.balanceOf(await rainyDayFund.getAddress())).to.be.closeTo(usdc("710"), 1n);
+    });
+
+    it("Should only hit the senior tranche once the junior tranche is wiped out", async function () {
+      await governed(rainyDayFund, "setPricingCurve", 10000, 10000, 0);
+      await fundTranches("200", "1000");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 40, NO_PREMIUM_LIMIT); // 360 USDC of premiums, 1440 USDC of payouts
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+
+      // 1560 USDC in the pool against 1440 USDC of claims: the senior tranche takes the rest of the loss
+      expect(await rainyDayFund.totalAssets()).to.equal(0);
+      expect(await seniorTranche.totalAssets()).to.equal(usdc("120"));
+
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await expect(seniorTranche.connect(seniorInvestor)
+        .redeem(await seniorTranche.balanceOf(seniorInvestor.address), seniorInvestor.address, seniorInvestor.address))
+        .to.emit(rainyDayFund, "TrancheWaterfallApplied")
+        .withArgs(1, usdc("120"), 0);
+      expect(await mockUSDC.balanceOf(seniorInvestor.address)).to.be.closeTo(INITIAL_USDC_BALANCE - usdc("880"), 1n);
+
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 1))
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 1, 40, PAYOUT * 40n);
+    });
+
+    it("Should carry the senior tranche's value into the next season", async function () {
+      await fundTranches("1000", "1000");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT);
+      await closeSeason(15);
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+
+      await expect(rainyDayFund.rollSeason())
+        .to.emit(rainyDayFund, "TrancheWaterfallApplied")
+        .withArgs(1, usdc("1020"), usdc("1070"));
+
+      // Season 2's yield is credited once its claim window has closed
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT);
+      expect(await seniorTranche.totalAssets()).to.equal(usdc("1020"));
+      await closeSeason(15);
+      expect(await seniorTranche.totalAssets()).to.equal(usdc("1040.4"));
+    });
+
+    it("Should let the senior tranche redeem in full while the next season is live", async function () {
+      await fundTranches("1000", "1000");
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT);
+      await mockWeatherOracle.updatePrice(15);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.rollSeason();
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10, NO_PREMIUM_LIMIT);
+      await time.increaseTo(await rainyDayFund.claimWindowEnd(1));
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(3); // WITHDRAW
+
+      // Season 1's yield is in, season 2's premiums are not the senior tranche's yet
+      expect(await seniorTranche.totalAssets()).to.equal(usdc("1020"));
+      const shares = await seniorTranche.balanceOf(seniorInvestor.address);
+      await seniorTranche.connect(seniorInvestor).redeem(shares, seniorInvestor.address, seniorInvestor.address);
+      expect(await mockUSDC.balanceOf(seniorInvestor.address)).to.be.closeTo(INITIAL_USDC_BALANCE + usdc("20"), 2n);
+      expect(await rainyDayFund.seniorAssets()).to.be.closeTo(0n, 2n);
+
+      // With nothing left in the senior tranche, season 2 owes it no yield
+      await closeSeason(15);
+      expect(await seniorTranche.totalAssets()).to.be.closeTo(0n, 2n);
+    });
+  });
+
+  describe("Pause and Emergency Exit", function () {
+    const UNDERWRITING = 0;
+    const CLAIMS = 1;
+    const WITHDRAWALS = 2;
+    const INVESTMENT = ethers.parseUnits("1000", USDC_DECIMALS);
+
+    beforeEach(async function () {
+      await rainyDayFund.connect(investor).invest(INVESTMENT);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
+    });
+
+    it("Should only let the guardian pause", async function () {
+      await expect(rainyDayFund.connect(farmer).setPaused(UNDERWRITING, true))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount")
+        .withArgs(farmer.address, await rainyDayFund.PAUSER_ROLE());
+
+      await expect(rainyDayFund.setPaused(UNDERWRITING, true))
+        .to.emit(rainyDayFund, "PauseUpdated")
+        .withArgs(UNDERWRITING, true);
+      expect(await rainyDayFund.pausedSince(UNDERWRITING)).to.equal(await time.latest());
+      expect(await rainyDayFund.pausedSince(CLAIMS)).to.equal(0);
+
+      await expect(rainyDayFund.setPaused(UNDERWRITING, true))
+        .to.be.revertedWith("Pause flag unchanged");
+      await expect(rainyDayFund.setPaused(CLAIMS, false))
+        .to.be.revertedWith("Pause flag unchanged");
+    });
+
+    it("Should stop underwriting while paused", async function () {
+      await rainyDayFund.setPaused(UNDERWRITING, true);
+
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Paused");
+      await expect(rainyDayFund.connect(investor).invest(INVESTMENT))
+        .to.be.revertedWith("Paused");
+      await expect(rainyDayFund.connect(investor).deposit(INVESTMENT, investor.address))
+        .to.be.revertedWith("Paused");
+
+      await rainyDayFund.setPaused(UNDERWRITING, false);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
+    });
+
+    it("Should stop claims while paused", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.setPaused(CLAIMS, true);
+
+      await expect(rainyDayFund.finalizeSeasonWeather(0, 1))
+        .to.be.revertedWith("Paused");
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.be.revertedWith("Paused");
+
+      // Other flags stay unaffected
+      await rainyDayFund.rollSeason();
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
+    });
+
+    it("Should extend the claim window by the time claims were paused", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      const claimEnd = await rainyDayFund.claimWindowEnd(1);
+      expect(claimEnd).to.equal((await rainyDayFund.seasonOverTimeStamps(1)) + TIME_UNIT);
+
+      await rainyDayFund.setPaused(CLAIMS, true);
+      const pausedAt = await rainyDayFund.pausedSince(CLAIMS);
+
+      // The window does not close while claims are paused
+      await time.increaseTo(claimEnd + TIME_UNIT);
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(2); // CLAIM
+      expect(await rainyDayFund.claimWindowEnd(1)).to.equal(claimEnd + (claimEnd + TIME_UNIT - pausedAt));
+
+      await rainyDayFund.setPaused(CLAIMS, false);
+      const pausedFor = BigInt(await time.latest()) - pausedAt;
+      expect(await rainyDayFund.claimExtensions(1)).to.equal(pausedFor);
+      expect(await rainyDayFund.claimWindowEnd(1)).to.equal(claimEnd + pausedFor);
+
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "ClaimRegistered")
+        .withArgs(farmer.address, 0, 1, 3);
+
+      await time.increaseTo(claimEnd + pausedFor);
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(3); // WITHDRAW
+    });
+
+    it("Should only extend claim windows the pause overlapped", async function () {
+      await rainyDayFund.setPaused(CLAIMS, true);
+      await time.increase(TIME_UNIT / 2n);
+      await rainyDayFund.setPaused(CLAIMS, false);
+      expect(await rainyDayFund.claimExtensions(1)).to.equal(0);
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await rainyDayFund.setPaused(CLAIMS, true);
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await time.increase(3600);
+      await rainyDayFund.setPaused(CLAIMS, false);
+
+      // Only the part of the pause after the claim window opened counts
+      const extension = BigInt(await time.latest()) - (await rainyDayFund.seasonOverTimeStamps(1));
+      expect(await rainyDayFund.claimExtensions(1)).to.equal(extension);
+    });
+
+    it("Should stop withdrawals while paused", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await rainyDayFund.setPaused(WITHDRAWALS, true);
+
+      const shares = await rainyDayFund.maxRedeem(investor.address);
+      await expect(rainyDayFund.connect(investor).redeemShares(shares))
+        .to.be.revertedWith("Paused");
+      await expect(rainyDayFund.connect(investor).redeem(shares, investor.address, investor.address))
+        .to.be.revertedWith("Paused");
+
+      await rainyDayFund.setPaused(WITHDRAWALS, false);
+      await expect(rainyDayFund.connect(investor).redeemShares(shares))
+        .to.emit(rainyDayFund, "InvestmentWithdrawn");
+    });
+
+    it("Should open the emergency exit once paused for too long", async function () {
+      await rainyDayFund.setPaused(WITHDRAWALS, true);
+      const shares = await rainyDayFund.maxRedeem(investor.address);
+      await expect(rainyDayFund.connect(investor).redeemShares(shares))
+        .to.be.revertedWith("Not in withdrawal period");
+
+      const exitOpensAt = (await rainyDayFund.pausedSince(WITHDRAWALS)) + (await rainyDayFund.EMERGENCY_EXIT_DELAY());
+      await time.increaseTo(exitOpensAt - 1n);
+      expect(await rainyDayFund.emergencyExitOpen()).to.equal(false);
+      await time.increaseTo(exitOpensAt);
+      expect(await rainyDayFund.emergencyExitOpen()).to.equal(true);
+
+      // Capital backing the sold policies stays in the pool
+      await expect(rainyDayFund.connect(investor).redeemShares(await rainyDayFund.balanceOf(investor.address)))
+        .to.be.revertedWithCustomError(rainyDayFund, "ERC4626ExceededMaxRedeem");
+      await expect(rainyDayFund.connect(investor).redeemShares(shares))
+        .to.emit(rainyDayFund, "InvestmentWithdrawn");
+      expect(await rainyDayFund.totalAssets()).to.be.closeTo(PAYOUT * 3n, 1n);
+
+      // Unpausing closes the exit again
+      await rainyDayFund.setPaused(WITHDRAWALS, false);
+      expect(await rainyDayFund.emergencyExitOpen()).to.equal(false);
+    });
+  });
+
   describe("Season Management", function () {
     it("Should allow owner to start new season after full cycle", async function () {
       const newPremium = ethers.parseUnits("12", USDC_DECIMALS);
 
       // Complete full season cycle
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
 
-      expect(await rainyDayFund.getSeasonState()).to.equal(4); // FINISHED
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(4); // FINISHED
 
-      await expect(rainyDayFund.startNewSeason(newPremium))
+      await expect(governed(rainyDayFund, "startNewSeason", 0, newPremium, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
         .to.emit(rainyDayFund, "NewSeasonStarted")
-        .withArgs(2, newPremium, newPremium * 4n);
+        .withArgs(0, 2, newPremium, newPremium * 4n, [BELOW, 10, LATEST, 0, []]);
 
       expect(await rainyDayFund.currentSeasonId()).to.equal(2);
-      expect(await rainyDayFund.getSeasonState()).to.equal(0); // ACTIVE
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(0); // ACTIVE
 
-      const newSeasonInfo = await rainyDayFund.seasonPolicies(2);
+      const newSeasonInfo = await rainyDayFund.seasonPolicies(0, 2);
       expect(newSeasonInfo.premium).to.equal(newPremium);
       expect(newSeasonInfo.payoutAmount).to.equal(newPremium * 4n);
       expect(newSeasonInfo.totalPoliciesSold).to.equal(0);
       expect(newSeasonInfo.creationTimestamp).to.be.greaterThan(0);
     });
 
-    it("Should not allow starting new season before full cycle completion", async function () {
+    it("Should not allow starting new season before coverage has ended", async function () {
       const newPremium = ethers.parseUnits("12", USDC_DECIMALS);
 
-      // Test in each non-finished state
-      await expect(rainyDayFund.startNewSeason(newPremium))
-        .to.be.revertedWith("Season not fully finished yet");
+      await expect(governed(rainyDayFund, "startNewSeason", 0, newPremium, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.be.revertedWith("Season coverage not over");
 
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await expect(rainyDayFund.startNewSeason(newPremium))
-        .to.be.revertedWith("Season not fully finished yet");
+      // The queued change can be retried until it applies
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await expect(rainyDayFund.startNewSeason(0, newPremium, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.be.revertedWith("Season coverage not over");
 
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await expect(rainyDayFund.startNewSeason(newPremium))
-        .to.be.revertedWith("Season not fully finished yet");
-
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await expect(rainyDayFund.startNewSeason(newPremium))
-        .to.be.revertedWith("Season not fully finished yet");
+      // The claim window of season 1 overlaps with season 2
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await expect(rainyDayFund.startNewSeason(0, newPremium, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.emit(rainyDayFund, "NewSeasonStarted");
     });
 
     it("Should not allow non-owner to start new season", async function () {
       const newPremium = ethers.parseUnits("12", USDC_DECIMALS);
 
       // Complete season cycle
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+
+      await expect(governed(rainyDayFund.connect(farmer), "startNewSeason", 0, newPremium, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should settle open claims when starting a new season", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
 
-      await expect(rainyDayFund.connect(farmer).startNewSeason(newPremium))
-        .to.be.revertedWithCustomError(rainyDayFund, "OwnableUnauthorizedAccount");
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS))
+        .to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(0, 1, 2, PAYOUT);
+
+      // Old season payouts stay withdrawable
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 1))
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 1, 2, PAYOUT * 2n);
     });
 
     it("Should preserve old season data when starting new season", async function () {
       // Record original season data
-      const originalSeasonInfo = await rainyDayFund.seasonPolicies(1);
+      const originalSeasonInfo = await rainyDayFund.seasonPolicies(0, 1);
 
       // Complete season cycle
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
 
       // Start new season
       const newPremium = ethers.parseUnits("15", USDC_DECIMALS);
-      await rainyDayFund.startNewSeason(newPremium);
+      await governed(rainyDayFund, "startNewSeason", 0, newPremium, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
 
       // Old season data should still exist
-      const oldSeasonInfo = await rainyDayFund.seasonPolicies(1);
+      const oldSeasonInfo = await rainyDayFund.seasonPolicies(0, 1);
       expect(oldSeasonInfo.premium).to.equal(originalSeasonInfo.premium);
       expect(oldSeasonInfo.payoutAmount).to.equal(originalSeasonInfo.payoutAmount);
 
       // New season should have different data
-      const newSeasonInfo = await rainyDayFund.seasonPolicies(2);
+      const newSeasonInfo = await rainyDayFund.seasonPolicies(0, 2);
       expect(newSeasonInfo.premium).to.equal(newPremium);
       expect(newSeasonInfo.payoutAmount).to.equal(newPremium * 4n);
     });
   });
 
+  describe("Season Rollover", function () {
+    const KEEPER_REWARD = ethers.parseUnits("1", USDC_DECIMALS);
+    const TIERED_TRIGGER: RainyDayFund.SeasonTriggerStruct = {
+      direction: ABOVE,
+      threshold: 30,
+      indexType: LATEST,
+      indexThreshold: 0,
+      tiers: [{ bound: 40, payoutBps: 10000 }, { bound: 30, payoutBps: 5000 }],
+    };
+    let keeper: SignerWithAddress;
+
+    async function finishSeason() {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+    }
+
+    beforeEach(async function () {
+      keeper = addrs[0];
+    });
+
+    it("Should queue the default season parameters on deployment", async function () {
+      const queued = await rainyDayFund.getQueuedSeason(0);
+      expect(queued.queued).to.equal(true);
+      expect(queued.premium).to.equal(PREMIUM);
+      expect(queued.trigger.direction).to.equal(BELOW);
+      expect(queued.trigger.threshold).to.equal(10);
+      expect(await rainyDayFund.keeperReward()).to.equal(KEEPER_REWARD);
+    });
+
+    it("Should not roll before the season's coverage has ended", async function () {
+      await expect(rainyDayFund.connect(keeper).rollSeason())
+        .to.be.revertedWith("Season coverage not over");
+
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await expect(rainyDayFund.connect(keeper).rollSeason())
+        .to.be.revertedWith("Season coverage not over");
+    });
+
+    it("Should let anyone roll into the next season and pay the keeper", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await finishSeason();
+
+      await expect(rainyDayFund.connect(keeper).rollSeason())
+        .to.emit(rainyDayFund, "SeasonRolled")
+        .withArgs(2, keeper.address, KEEPER_REWARD)
+        .and.to.emit(rainyDayFund, "NewSeasonStarted")
+        .withArgs(0, 2, PREMIUM, PAYOUT, [BELOW, 10, LATEST, 0, []]);
+
+      expect(await rainyDayFund.currentSeasonId()).to.equal(2);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(0); // ACTIVE
+      expect(await mockUSDC.balanceOf(keeper.address)).to.equal(KEEPER_REWARD);
+      expect(await rainyDayFund.totalAssets()).to.equal(ethers.parseUnits("999", USDC_DECIMALS));
+
+      // Farmers can buy into the rolled season right away
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought")
+        .withArgs(farmer.address, 0, 2, 1, PREMIUM, PREMIUM);
+    });
+
+    it("Should open the season with the queued parameters", async function () {
+      const newPremium = ethers.parseUnits("12", USDC_DECIMALS);
+      await expect(governed(rainyDayFund, "queueSeason", 0, newPremium, TIERED_TRIGGER))
+        .to.emit(rainyDayFund, "SeasonQueued")
+        .withArgs(0, newPremium, [ABOVE, 30, LATEST, 0, [[40, 10000], [30, 5000]]]);
+
+      // Queuing does not touch the running season
+      expect((await rainyDayFund.seasonPolicies(0, 1)).premium).to.equal(PREMIUM);
+
+      await finishSeason();
+      await rainyDayFund.connect(keeper).rollSeason();
+
+      const season = await rainyDayFund.seasonPolicies(0, 2);
+      expect(season.premium).to.equal(newPremium);
+      expect(season.payoutAmount).to.equal(newPremium * 4n);
+      expect(season.triggerDirection).to.equal(ABOVE);
+      expect(season.triggerThreshold).to.equal(30);
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 35)).to.equal(5000);
+      expect(await rainyDayFund.payoutBpsFor(0, 2, 45)).to.equal(10000);
+
+      // The queued parameters keep applying until replaced
+      await finishSeason();
+      await rainyDayFund.connect(keeper).rollSeason();
+      expect((await rainyDayFund.seasonPolicies(0, 3)).premium).to.equal(newPremium);
+      expect(await rainyDayFund.getPayoutTiers(0, 3)).to.have.length(2);
+    });
+
+    it("Should replace the payout tiers of a queued season", async function () {
+      await governed(rainyDayFund, "queueSeason", 0, PREMIUM, TIERED_TRIGGER);
+      await governed(rainyDayFund, "queueSeason", 0, PREMIUM, DEFAULT_TRIGGER);
+
+      await finishSeason();
+      await rainyDayFund.connect(keeper).rollSeason();
+      expect(await rainyDayFund.getPayoutTiers(0, 2)).to.have.length(0);
+      expect((await rainyDayFund.seasonPolicies(0, 2)).triggerDirection).to.equal(BELOW);
+    });
+
+    it("Should validate queued seasons", async function () {
+      await expect(governed(rainyDayFund, "queueSeason", 0, PREMIUM, { ...TIERED_TRIGGER, threshold: 20 }))
+        .to.be.revertedWith("Last tier must end at threshold");
+      await expect(governed(rainyDayFund, "queueSeason", 5, PREMIUM, DEFAULT_TRIGGER))
+        .to.be.revertedWith("Unknown region");
+      await expect(governed(rainyDayFund.connect(farmer), "queueSeason", 0, PREMIUM, DEFAULT_TRIGGER))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should open every active region with a queued season", async function () {
+      const highlandsOracle = await (await ethers.getContractFactory("MockWeatherOracle")).deploy(15);
+      await rainyDayFund.addRegion("Highlands", await highlandsOracle.getAddress());
+      await rainyDayFund.addRegion("Lowlands", await highlandsOracle.getAddress());
+      await governed(rainyDayFund, "queueSeason", 1, ethers.parseUnits("5", USDC_DECIMALS), DEFAULT_TRIGGER);
+      await rainyDayFund.setRegionActive(0, false);
+
+      await finishSeason();
+      await rainyDayFund.connect(keeper).rollSeason();
+
+      // Region 0 is inactive and region 2 never had a season queued
+      expect((await rainyDayFund.seasonPolicies(0, 2)).policyToken).to.equal(ethers.ZeroAddress);
+      expect((await rainyDayFund.seasonPolicies(1, 2)).premium).to.equal(ethers.parseUnits("5", USDC_DECIMALS));
+      expect((await rainyDayFund.seasonPolicies(2, 2)).policyToken).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should revert when no region has a season queued", async function () {
+      await rainyDayFund.setRegionActive(0, false);
+      await finishSeason();
+
+      await expect(rainyDayFund.connect(keeper).rollSeason())
+        .to.be.revertedWith("No season queued");
+    });
+
+    it("Should settle the finished season before rolling", async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
+
+      await expect(rainyDayFund.connect(keeper).rollSeason())
+        .to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(0, 1, 2, PAYOUT);
+      await expect(rainyDayFund.connect(farmer).withdrawClaim(0, 1))
+        .to.emit(rainyDayFund, "ClaimMade")
+        .withArgs(farmer.address, 0, 1, 2, PAYOUT * 2n);
+    });
+
+    it("Should not pay the keeper out of the senior tranche", async function () {
+      const seniorTranche = await (await ethers.getContractFactory("SeniorTranche"))
+        .deploy(await rainyDayFund.getAddress());
+      await rainyDayFund.setSeniorTranche(await seniorTranche.getAddress());
+      await mockUSDC.connect(investor).approve(await seniorTranche.getAddress(), ethers.MaxUint256);
+      await seniorTranche.connect(investor).deposit(ethers.parseUnits("500", USDC_DECIMALS), investor.address);
+      await finishSeason();
+
+      // Without junior capital there is nothing to pay the keeper with
+      await expect(rainyDayFund.connect(keeper).rollSeason())
+        .to.emit(rainyDayFund, "SeasonRolled")
+        .withArgs(2, keeper.address, 0);
+      expect(await seniorTranche.totalAssets()).to.equal(ethers.parseUnits("500", USDC_DECIMALS));
+    });
+
+    it("Should restrict keeper reward updates", async function () {
+      await expect(governed(rainyDayFund, "setKeeperReward", ethers.parseUnits("2", USDC_DECIMALS)))
+        .to.emit(rainyDayFund, "KeeperRewardUpdated")
+        .withArgs(ethers.parseUnits("2", USDC_DECIMALS));
+      await expect(governed(rainyDayFund, "setKeeperReward", ethers.parseUnits("11", USDC_DECIMALS)))
+        .to.be.revertedWith("Keeper reward too high");
+      await expect(governed(rainyDayFund.connect(farmer), "setKeeperReward", 0))
+        .to.be.revertedWithCustomError(rainyDayFund, "AccessControlUnauthorizedAccount");
+    });
+  });
+
   describe("Season States and Timing", function () {
     it("Should transition through all season states correctly", async function () {
       const states = [0, 1, 2, 3, 4]; // ACTIVE, INACTIVE, CLAIM, WITHDRAW, FINISHED
       
-      expect(await rainyDayFund.getSeasonState()).to.equal(states[0]);
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(states[0]);
 
       for (let i = 1; i < states.length; i++) {
-        await rainyDayFund.advanceToNextPhase();
-        expect(await rainyDayFund.getSeasonState()).to.equal(states[i]);
+        await advanceToNextPhase();
+        expect(await rainyDayFund.getSeasonState(1)).to.equal(states[i]);
       }
     });
 
     it("Should maintain correct state after multiple advance calls", async function () {
       // Advance to FINISHED and try to advance again
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
 
-      expect(await rainyDayFund.getSeasonState()).to.equal(4); // FINISHED
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(4); // FINISHED
 
       // Additional advance calls should keep it in FINISHED
-      await rainyDayFund.advanceToNextPhase();
-      expect(await rainyDayFund.getSeasonState()).to.equal(4); // Still FINISHED
-    });
-
-    it("Should handle time offset correctly", async function () {
-      const initialTime = await rainyDayFund.getCurrentTime();
-      const initialOffset = await rainyDayFund.testingTimeOffset();
-
-      await rainyDayFund.advanceToNextPhase();
-      
-      const newTime = await rainyDayFund.getCurrentTime();
-      const newOffset = await rainyDayFund.testingTimeOffset();
-
-      expect(newTime).to.be.greaterThan(initialTime);
-      expect(newOffset).to.be.greaterThan(initialOffset);
-    });
-
-    it("Should use block.timestamp when testing mode is off", async function () {
-      await rainyDayFund.setTestingMode(false);
-      
-      const contractTime = await rainyDayFund.getCurrentTime();
-      const blockTime = (await ethers.provider.getBlock('latest'))!.timestamp;
-      
-      expect(contractTime).to.be.closeTo(blockTime, 5); // Within 5 seconds
+      await advanceToNextPhase();
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(4); // Still FINISHED
+    });
+
+    it("Should schedule the first season on the default calendar", async function () {
+      const durations = await rainyDayFund.seasonDurations(1);
+      expect(durations.active).to.equal(TIME_UNIT);
+      expect(durations.coverage).to.equal(TIME_UNIT);
+      expect(durations.claim).to.equal(TIME_UNIT);
+      expect(durations.withdraw).to.equal(TIME_UNIT);
+    });
+
+    it("Should run a season on uneven phase durations", async function () {
+      const DAY = 24n * 60n * 60n;
+      const durations = { active: 10n * DAY, coverage: 90n * DAY, claim: 3n * DAY, withdraw: 7n * DAY };
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, durations))
+        .to.emit(rainyDayFund, "SeasonScheduled")
+        .withArgs(2, anyValue, [10n * DAY, 90n * DAY, 3n * DAY, 7n * DAY]);
+      const seasonEnd = await rainyDayFund.seasonOverTimeStamps(2);
+      expect(seasonEnd - BigInt(await time.latest())).to.equal(100n * DAY);
+
+      await time.increaseTo(seasonEnd - 90n * DAY - 1n);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(0); // ACTIVE
+      await time.increaseTo(seasonEnd - 90n * DAY);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(1); // INACTIVE
+      await time.increaseTo(seasonEnd);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(2); // CLAIM
+      await time.increaseTo(seasonEnd + 3n * DAY - 1n);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(2); // CLAIM
+      await time.increaseTo(seasonEnd + 3n * DAY);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(3); // WITHDRAW
+      await time.increaseTo(seasonEnd + 10n * DAY);
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(4); // FINISHED
+
+      // Rolled seasons keep the calendar of the season before them
+      await rainyDayFund.connect(addrs[0]).rollSeason();
+      const rolled = await rainyDayFund.seasonDurations(3);
+      expect(rolled.active).to.equal(10n * DAY);
+      expect(rolled.withdraw).to.equal(7n * DAY);
+    });
+
+    it("Should reject invalid phase durations", async function () {
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, { ...DEFAULT_DURATIONS, claim: 0 }))
+        .to.be.revertedWith("Invalid phase duration");
+      await expect(governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, { ...DEFAULT_DURATIONS, active: 366n * 24n * 60n * 60n }))
+        .to.be.revertedWith("Invalid phase duration");
+    });
+
+    it("Should use block.timestamp", async function () {
+      await time.increase(TIME_UNIT);
+      expect(await rainyDayFund.getCurrentTime()).to.equal(await time.latest());
     });
   });
 
@@ -745,28 +3262,67 @@ describe("RainyDayFund", function () {
       await rainyDayFund.connect(investor).invest(investmentAmount);
       
       // These operations should work normally
-      await rainyDayFund.connect(farmer).buyPolicy(1);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
       
       // Advance to claim period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
       
-      await rainyDayFund.connect(farmer).claimPolicies();
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
     });
 
     it("Should handle zero balance scenarios", async function () {
       expect(await rainyDayFund.totalAssets()).to.equal(0);
-      
+      expect(await rainyDayFund.remainingCapacity(0)).to.equal(0);
+
       // Should not be able to buy policies without investment
-      await rainyDayFund.connect(farmer).buyPolicy(1);
-      
-      // Advance to claim period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      
-      // Should fail due to insufficient funds
-      await expect(rainyDayFund.connect(farmer).claimPolicies())
-        .to.be.revertedWith("Insufficient funds");
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Pool not bootstrapped");
+    });
+
+    it("Should keep a sane share price when a farmer tries to buy before any investment", async function () {
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.be.revertedWith("Pool not bootstrapped");
+      expect(await rainyDayFund.totalAssets()).to.equal(0);
+
+      const investmentAmount = ethers.parseUnits("1000", USDC_DECIMALS);
+      await rainyDayFund.connect(investor).invest(investmentAmount);
+      const shares = await rainyDayFund.balanceOf(investor.address);
+
+      expect(shares).to.equal(investmentAmount * 10n ** 6n);
+      expect(await rainyDayFund.convertToAssets(shares)).to.equal(investmentAmount);
+
+      // Premiums bought after bootstrapping accrue to the investor
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
+      expect(await rainyDayFund.convertToAssets(shares)).to.be.closeTo(investmentAmount + PREMIUM, 1n);
+    });
+
+    it("Should protect the first investor against a donation attack", async function () {
+      const attacker = addrs[0];
+      const donation = ethers.parseUnits("5000", USDC_DECIMALS);
+      await mockUSDC.mint(attacker.address, donation + 1n);
+      await mockUSDC.connect(attacker).approve(await rainyDayFund.getAddress(), ethers.MaxUint256);
+
+      // Attacker mints the first share for 1 wei and inflates the share price with a direct transfer
+      await rainyDayFund.connect(attacker).invest(1);
+      await mockUSDC.connect(attacker).transfer(await rainyDayFund.getAddress(), donation);
+
+      const investmentAmount = ethers.parseUnits("1000", USDC_DECIMALS);
+      await rainyDayFund.connect(investor).invest(investmentAmount);
+      const victimShares = await rainyDayFund.balanceOf(investor.address);
+
+      // The virtual shares keep the victim from being rounded down to zero shares
+      expect(victimShares).to.be.greaterThan(0);
+      expect(await rainyDayFund.convertToAssets(victimShares))
+        .to.be.closeTo(investmentAmount, investmentAmount / 100n);
+
+      // The attacker cannot recover the donation
+      const attackerShares = await rainyDayFund.balanceOf(attacker.address);
+      expect(await rainyDayFund.convertToAssets(attackerShares)).to.be.lessThan(donation);
+    });
+
+    it("Should use a decimals offset for investor shares", async function () {
+      expect(await rainyDayFund.decimals()).to.equal((await mockUSDC.decimals()) + 6n);
     });
 
     it("Should handle large numbers correctly", async function () {
@@ -776,7 +3332,7 @@ describe("RainyDayFund", function () {
       await mockUSDC.mint(farmer.address, largeAmount);
       
       await rainyDayFund.connect(investor).invest(largeAmount);
-      await rainyDayFund.connect(farmer).buyPolicy(10000); // Large policy purchase
+      await rainyDayFund.connect(farmer).buyPolicy(0, 10000, NO_PREMIUM_LIMIT); // Large policy purchase
       
       const totalAssets = await rainyDayFund.totalAssets();
       expect(totalAssets).to.be.greaterThan(largeAmount);
@@ -791,15 +3347,15 @@ describe("RainyDayFund", function () {
       expect(await rainyDayFund.totalAssets()).to.equal(investmentAmount);
 
       // Policy purchase adds premium to assets
-      await rainyDayFund.connect(farmer).buyPolicy(2);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
       const expectedTotal = investmentAmount + (PREMIUM * 2n);
       expect(await rainyDayFund.totalAssets()).to.equal(expectedTotal);
 
       // Claims should reduce total assets
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
       
-      await rainyDayFund.connect(farmer).claimPolicies();
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
       const expectedAfterClaim = expectedTotal - (PAYOUT * 2n);
       expect(await rainyDayFund.totalAssets()).to.equal(expectedAfterClaim);
     });
@@ -812,9 +3368,9 @@ describe("RainyDayFund", function () {
       const halfShares = totalShares / 2n;
 
       // Advance to withdrawal period
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
 
       const initialBalance = await mockUSDC.balanceOf(investor.address);
       await rainyDayFund.connect(investor).redeemShares(halfShares);
@@ -834,13 +3390,15 @@ describe("RainyDayFund", function () {
     let policyToken: SeasonPolicyToken;
 
     beforeEach(async function () {
-      const policyInfo = await rainyDayFund.seasonPolicies(1);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+
+      const policyInfo = await rainyDayFund.seasonPolicies(0, 1);
       policyToken = await ethers.getContractAt("SeasonPolicyToken", policyInfo.policyToken);
     });
 
     it("Should have correct name and symbol for season 1", async function () {
-      expect(await policyToken.name()).to.equal("RainyDay Policy Season 1");
-      expect(await policyToken.symbol()).to.equal("RDP1");
+      expect(await policyToken.name()).to.equal("RainyDay Policy Default Season 1");
+      expect(await policyToken.symbol()).to.equal("RDP0-1");
     });
 
     it("Should only allow RainyDayFund to mint tokens", async function () {
@@ -853,7 +3411,7 @@ describe("RainyDayFund", function () {
 
     it("Should only allow RainyDayFund to burn tokens", async function () {
       // First buy policy to have tokens to burn
-      await rainyDayFund.connect(farmer).buyPolicy(1);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
       
       await expect(policyToken.connect(farmer).burnFrom(farmer.address, 1))
         .to.be.revertedWith("Only fund");
@@ -868,7 +3426,7 @@ describe("RainyDayFund", function () {
 
     it("Should handle ERC20 functionality correctly", async function () {
       // Buy policies to get tokens
-      await rainyDayFund.connect(farmer).buyPolicy(5);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 5, NO_PREMIUM_LIMIT);
       
       expect(await policyToken.balanceOf(farmer.address)).to.equal(5);
       expect(await policyToken.totalSupply()).to.equal(5);
@@ -881,48 +3439,48 @@ describe("RainyDayFund", function () {
 
     it("Should create different tokens for different seasons", async function () {
       // Complete first season
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
 
       // Start new season
-      await rainyDayFund.startNewSeason(PREMIUM);
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
       
-      const season2Info = await rainyDayFund.seasonPolicies(2);
+      const season2Info = await rainyDayFund.seasonPolicies(0, 2);
       const policyToken2 = await ethers.getContractAt("SeasonPolicyToken", season2Info.policyToken);
       
-      expect(await policyToken2.name()).to.equal("RainyDay Policy Season 2");
-      expect(await policyToken2.symbol()).to.equal("RDP2");
+      expect(await policyToken2.name()).to.equal("RainyDay Policy Default Season 2");
+      expect(await policyToken2.symbol()).to.equal("RDP0-2");
       expect(policyToken2.target).to.not.equal(policyToken.target);
     });
   });
 
   describe("Multi-Season Operations", function () {
+    beforeEach(async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+    });
+
     it("Should handle multiple seasons with different parameters", async function () {
       const season1Premium = PREMIUM;
       const season2Premium = ethers.parseUnits("15", USDC_DECIMALS);
       
       // Buy policy in season 1
-      await rainyDayFund.connect(farmer).buyPolicy(2);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
       
       // Complete season 1
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
       
       // Start season 2 with different premium
-      await rainyDayFund.startNewSeason(season2Premium);
+      await governed(rainyDayFund, "startNewSeason", 0, season2Premium, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
       
       expect(await rainyDayFund.currentSeasonId()).to.equal(2);
       
       // Buy policy in season 2
-      await rainyDayFund.connect(farmer).buyPolicy(1);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
       
       // Verify both seasons have correct data
-      const season1Info = await rainyDayFund.seasonPolicies(1);
-      const season2Info = await rainyDayFund.seasonPolicies(2);
+      const season1Info = await rainyDayFund.seasonPolicies(0, 1);
+      const season2Info = await rainyDayFund.seasonPolicies(0, 2);
       
       expect(season1Info.premium).to.equal(season1Premium);
       expect(season1Info.totalPoliciesSold).to.equal(2);
@@ -933,25 +3491,23 @@ describe("RainyDayFund", function () {
 
     it("Should maintain separate policy tokens per season", async function () {
       // Buy policy in season 1
-      await rainyDayFund.connect(farmer).buyPolicy(3);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
       
-      const season1Info = await rainyDayFund.seasonPolicies(1);
+      const season1Info = await rainyDayFund.seasonPolicies(0, 1);
       const policyToken1 = await ethers.getContractAt("SeasonPolicyToken", season1Info.policyToken);
       
       expect(await policyToken1.balanceOf(farmer.address)).to.equal(3);
       
       // Complete season 1 and start season 2
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM: season 2 has to be queued before season 1 enters WITHDRAW
       
-      await rainyDayFund.startNewSeason(PREMIUM);
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
       
       // Buy policy in season 2
-      await rainyDayFund.connect(farmer).buyPolicy(2);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
       
-      const season2Info = await rainyDayFund.seasonPolicies(2);
+      const season2Info = await rainyDayFund.seasonPolicies(0, 2);
       const policyToken2 = await ethers.getContractAt("SeasonPolicyToken", season2Info.policyToken);
       
       // Should have tokens in both seasons
@@ -963,6 +3519,411 @@ describe("RainyDayFund", function () {
     });
   });
 
+  describe("Overlapping Seasons", function () {
+    beforeEach(async function () {
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+    });
+
+    // New season terms only apply once season 1 has finished; rolling over with the announced ones does not wait
+    it("Should start the next season while the previous one takes claims", async function () {
+      await rainyDayFund.rollSeason();
+
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(2); // CLAIM
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(0); // ACTIVE
+
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 1))
+        .to.emit(rainyDayFund, "ClaimRegistered")
+        .withArgs(farmer.address, 0, 1, 2);
+      await expect(rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT))
+        .to.emit(rainyDayFund, "PolicyBought");
+
+      // Claims of season 1 stay reserved while season 2 is sold
+      expect(await rainyDayFund.seasonLiability(1)).to.equal(0);
+      expect(await rainyDayFund.seasonLiability(2)).to.equal(PAYOUT);
+      expect(await rainyDayFund.outstandingLiability()).to.equal(PAYOUT);
+    });
+
+    it("Should reject unknown seasons", async function () {
+      await expect(rainyDayFund.getSeasonState(0)).to.be.revertedWith("Unknown season");
+      await expect(rainyDayFund.getSeasonState(2)).to.be.revertedWith("Unknown season");
+      await expect(rainyDayFund.connect(farmer).claimPolicies(0, 2))
+        .to.be.revertedWith("Unknown season");
+    });
+
+    it("Should not accept investments while the previous season takes claims", async function () {
+      await rainyDayFund.rollSeason();
+      await expect(rainyDayFund.connect(investor).invest(ethers.parseUnits("100", USDC_DECIMALS)))
+        .to.be.revertedWith("Previous season claims open");
+
+      await advanceToNextPhase(); // Season 2 INACTIVE, season 1 WITHDRAW
+      await expect(rainyDayFund.connect(investor).invest(ethers.parseUnits("100", USDC_DECIMALS)))
+        .to.emit(rainyDayFund, "InvestmentMade");
+    });
+
+    it("Should keep capital backing the running season locked", async function () {
+      await rainyDayFund.rollSeason();
+      await rainyDayFund.connect(farmer).buyPolicy(0, 5, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // Season 2 INACTIVE, season 1 WITHDRAW
+
+      expect(await rainyDayFund.getSeasonState(1)).to.equal(3); // WITHDRAW
+      expect(await rainyDayFund.lockedCapital()).to.equal(PAYOUT * 5n);
+
+      const free = (await rainyDayFund.totalAssets()) - PAYOUT * 5n;
+      expect(await rainyDayFund.maxWithdraw(investor.address)).to.equal(free);
+
+      const shares = await rainyDayFund.balanceOf(investor.address);
+      await expect(rainyDayFund.connect(investor).redeemShares(shares))
+        .to.be.revertedWithCustomError(rainyDayFund, "ERC4626ExceededMaxRedeem");
+
+      const maxShares = await rainyDayFund.maxRedeem(investor.address);
+      await rainyDayFund.connect(investor).redeemShares(maxShares);
+      expect(await rainyDayFund.totalAssets()).to.be.closeTo(PAYOUT * 5n, 1n);
+    });
+
+    it("Should settle ended seasons when the next season starts", async function () {
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+      await rainyDayFund.rollSeason();
+      expect(await rainyDayFund.oldestUnsettledSeason()).to.equal(1);
+
+      await advanceToNextPhase(); // Season 2 INACTIVE
+      await advanceToNextPhase(); // Season 2 CLAIM, season 1 FINISHED
+
+      await expect(rainyDayFund.rollSeason())
+        .to.emit(rainyDayFund, "ClaimSettled")
+        .withArgs(0, 1, 2, PAYOUT);
+      expect(await rainyDayFund.oldestUnsettledSeason()).to.equal(2);
+      expect(await rainyDayFund.currentSeasonId()).to.equal(3);
+    });
+  });
+
+  describe("SDK", function () {
+    let sdk: RainyDaySdk;
+
+    beforeEach(async function () {
+      sdk = await RainyDaySdk.connect(await rainyDayFund.getAddress(), farmer);
+    });
+
+    it("Should approve exactly the quoted premium and buy", async function () {
+      // A fresh account without the test setup's MaxUint256 approval
+      const buyer = addrs[0];
+      await mockUSDC.mint(buyer.address, INITIAL_USDC_BALANCE);
+      await sdk.withRunner(investor).invest(parseUsdc(1000));
+
+      const quote = await sdk.quote(0, 3);
+      expect(quote.premium).to.equal(await rainyDayFund.quotePremium(0, 3));
+      expect(quote.perPolicy).to.equal(quote.premium / 3n);
+
+      const receipt = await sdk.withRunner(buyer).buyPolicy(0, 3);
+      const bought = receipt.logs
+        .map((log) => rainyDayFund.interface.parseLog(log))
+        .find((event) => event?.name === "PolicyBought");
+      expect(bought?.args.totalPremium).to.equal(quote.premium);
+      expect(await mockUSDC.allowance(buyer.address, await rainyDayFund.getAddress())).to.equal(0);
+      expect(await mockUSDC.balanceOf(buyer.address)).to.equal(INITIAL_USDC_BALANCE - quote.premium);
+    });
+
+    it("Should decode revert reasons", async function () {
+      const error = await sdk.buyPolicy(0, 1, NO_PREMIUM_LIMIT).catch((error) => error);
+      expect(error).to.be.instanceOf(RainyDayError);
+      expect(error.message).to.equal("Pool not bootstrapped");
+
+      // Custom errors come with their arguments
+      const denied = await rainyDayFund.connect(farmer).setKeeperReward(1).catch((error) => error);
+      expect(decodeRevertReason(denied, [rainyDayFund.interface])).to.equal(
+        `AccessControlUnauthorizedAccount(${farmer.address}, ${await rainyDayFund.SEASON_MANAGER_ROLE()})`
+      );
+    });
+
+    it("Should report season info and investor positions", async function () {
+      await sdk.withRunner(investor).invest(parseUsdc(1000));
+      await sdk.buyPolicy(0, 5, NO_PREMIUM_LIMIT);
+
+      const season = await sdk.seasonInfo(1);
+      expect(season.state).to.equal(SeasonState.ACTIVE);
+      expect(season.premium).to.equal(PREMIUM);
+      expect(season.payoutAmount).to.equal(PAYOUT);
+      expect(season.totalPoliciesSold).to.equal(5);
+      expect(season.policyToken).to.equal((await rainyDayFund.seasonPolicies(0, 1)).policyToken);
+      expect(season.coverageEnd).to.equal(await rainyDayFund.seasonOverTimeStamps(1));
+      expect(season.salesClose).to.equal(season.coverageEnd - TIME_UNIT);
+      expect(season.withdrawalsClose).to.equal(season.claimWindowEnd + TIME_UNIT);
+
+      const position = await sdk.investorPosition(investor.address);
+      expect(position.shares).to.equal(await rainyDayFund.balanceOf(investor.address));
+      expect(position.assets).to.equal(await rainyDayFund.previewRedeem(position.shares));
+      expect(position.redeemableShares).to.equal(await rainyDayFund.maxRedeem(investor.address));
+      // Capital backing the sold policies stays locked
+      expect(position.redeemableAssets).to.be.lessThan(position.assets);
+      expect(position.usdcBalance).to.equal(INITIAL_USDC_BALANCE - parseUsdc(1000));
+      expect(position.seniorShares).to.equal(0);
+    });
+
+    it("Should claim and withdraw payouts", async function () {
+      await sdk.withRunner(investor).invest(parseUsdc(1000));
+      await sdk.buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      await sdk.claim(0, 1);
+      expect(await rainyDayFund.registeredClaims(0, 1, farmer.address)).to.equal(2);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+
+      const balanceBefore = await mockUSDC.balanceOf(farmer.address);
+      await sdk.withdrawPayout(0, 1);
+      expect(await mockUSDC.balanceOf(farmer.address)).to.equal(balanceBefore + PAYOUT * 2n);
+    });
+  });
+
+  describe("Indexer", function () {
+    let store: EventStore;
+    let indexer: Indexer;
+    let fromBlock: number;
+
+    beforeEach(async function () {
+      fromBlock = (await rainyDayFund.deploymentTransaction()!.wait())!.blockNumber;
+      store = new EventStore();
+      indexer = new Indexer(ethers.provider, await rainyDayFund.getAddress(), store, { fromBlock });
+    });
+
+    it("Should index the history of seasons and accounts", async function () {
+      await rainyDayFund.connect(investor).invest(parseUsdc(1000));
+      await rainyDayFund.connect(farmer).buyPolicy(0, 2, NO_PREMIUM_LIMIT);
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await rainyDayFund.connect(farmer).withdrawClaim(0, 1);
+
+      expect(await indexer.sync()).to.equal(await ethers.provider.getBlockNumber());
+      expect(store.seasonHistory("1").map((event) => event.name)).to.deep.equal([
+        "NewSeasonStarted", "PolicyBought", "ClaimMade",
+      ]);
+      const [bought] = store.recent(1, "PolicyBought");
+      expect(bought.args.amount).to.equal("2");
+      expect(bought.args.totalPremium).to.equal((PREMIUM * 2n).toString());
+      expect(bought.accounts).to.deep.equal([farmer.address.toLowerCase()]);
+      expect(store.accountHistory(investor.address).map((event) => event.name)).to.deep.equal([
+        "Deposit", "InvestmentMade",
+      ]);
+
+      const server = createApiServer(store).listen(0);
+      try {
+        const api = `http://localhost:${(server.address() as AddressInfo).port}`;
+        const season = await (await fetch(`${api}/seasons/1/events?regionId=0`)).json();
+        expect(season.map((event: { name: string }) => event.name)).to.include("ClaimMade");
+        const history = await (await fetch(`${api}/accounts/${farmer.address}/events`)).json();
+        expect(history.map((event: { name: string }) => event.name)).to.deep.equal(["PolicyBought", "ClaimMade"]);
+        expect((await fetch(`${api}/accounts/farmer/events`)).status).to.equal(400);
+      } finally {
+        server.close();
+      }
+    });
+
+    it("Should roll back events of blocks a reorg replaced", async function () {
+      await rainyDayFund.connect(investor).invest(parseUsdc(1000));
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
+      await indexer.sync();
+      expect(store.recent(10, "PolicyBought")).to.have.length(1);
+
+      // The replacing chain has another transaction at the same height
+      await ethers.provider.send("evm_revert", [snapshot]);
+      await rainyDayFund.connect(investor).invest(parseUsdc(10));
+      await indexer.sync();
+      expect(store.recent(10, "PolicyBought")).to.have.length(0);
+      expect(store.recent(10, "InvestmentMade").map((event) => event.args.amount)).to.deep.equal([
+        parseUsdc(1000).toString(), parseUsdc(10).toString(),
+      ]);
+      expect(store.lastBlock?.hash).to.equal((await ethers.provider.getBlock("latest"))?.hash);
+    });
+
+    it("Should resume from its database after a restart", async function () {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "events.json");
+      await rainyDayFund.connect(investor).invest(parseUsdc(1000));
+      await new Indexer(ethers.provider, await rainyDayFund.getAddress(), new EventStore(file), { fromBlock }).sync();
+
+      await rainyDayFund.connect(farmer).buyPolicy(0, 1, NO_PREMIUM_LIMIT);
+      const restarted = new EventStore(file);
+      expect(restarted.eventCount).to.equal(3);
+      await new Indexer(ethers.provider, await rainyDayFund.getAddress(), restarted, { fromBlock }).sync();
+      const ids = restarted.recent(100).map((event) => event.id);
+      expect(ids).to.have.length(4);
+      expect(new Set(ids).size).to.equal(4);
+    });
+  });
+
+  describe("Tasks", function () {
+    let deployment: string;
+
+    // Runs an rdf task and returns what it printed
+    async function runTask(name: string, args: Record<string, unknown> = {}): Promise<string> {
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => lines.push(values.join(" "));
+      try {
+        await run(name, { deployment, ...args });
+      } finally {
+        console.log = log;
+      }
+      return lines.join("\n");
+    }
+
+    beforeEach(async function () {
+      deployment = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "rdf-")), "deployment-info.json");
+      fs.writeFileSync(deployment, JSON.stringify({
+        contracts: { RainyDayFund: await rainyDayFund.getAddress() },
+        accounts: { owner: owner.address, farmer1: farmer.address, investor1: investor.address },
+      }));
+    });
+
+    it("Should invest, buy and report the fund's status", async function () {
+      expect(await runTask("rdf:invest", { amount: "1000" })).to.include("invested 1000 USDC and holds 1000.0 RDIS shares");
+      expect(await runTask("rdf:buy", { amount: 2 })).to.equal(`${farmer.address} bought 2 policies of season 1 for 18.0 USDC`);
+
+      const status = await runTask("rdf:status");
+      expect(status).to.include("Season 1 in Default: ACTIVE");
+      expect(status).to.include("2 policies sold");
+      expect(status).to.match(/Liability +72\.0 USDC/);
+      expect(status).to.match(/Junior tranche +1018\.0 USDC, 1\.017999 USDC per RDIS share/);
+    });
+
+    it("Should fail with the decoded revert reason", async function () {
+      await expect(runTask("rdf:buy", { amount: 1 })).to.be.rejectedWith("Pool not bootstrapped");
+      await expect(runTask("rdf:claim")).to.be.rejectedWith("Season 1 is ACTIVE, claims open with CLAIM");
+      await expect(runTask("rdf:buy", { amount: 1, account: "nobody" })).to.be.rejectedWith("Unknown account nobody");
+      // The production fund has no adjustable clock
+      await expect(runTask("rdf:advance-phase")).to.be.rejected;
+      // Custom errors come with their arguments
+      await expect(runTask("rdf:new-season", { premium: "10", account: "farmer1" }))
+        .to.be.rejectedWith(`AccessControlUnauthorizedAccount(${farmer.address}`);
+    });
+
+    it("Should claim and withdraw payouts", async function () {
+      await runTask("rdf:invest", { amount: "1000" });
+      await runTask("rdf:buy", { amount: 2 });
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+
+      expect(await runTask("rdf:claim")).to.equal(`${farmer.address} registered 2 policies of season 1 for payout`);
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+      expect(await runTask("rdf:claim")).to.equal(`${farmer.address} withdrew 72.0 USDC for season 1`);
+      expect(await runTask("rdf:redeem", { shares: "100", account: "investor1" })).to.match(/received \d+\.\d+ USDC/);
+    });
+  });
+
+  describe("Simulator", function () {
+    const WEATHER = path.join(__dirname, "../../simulator/examples/rainfall.csv");
+
+    function simulationConfig(overrides: Partial<FundParameters> = {}, seasonsPerPath = 4): SimulationConfig {
+      return {
+        fund: { ...DEFAULT_FUND_PARAMETERS, ...overrides },
+        flows: DEFAULT_FLOW_PARAMETERS,
+        weather: historicalSeasons(loadWeatherCsv(WEATHER), 30),
+        seasonsPerPath,
+        paths: 50,
+        seed: 1,
+      };
+    }
+
+    async function simulateTask(args: Record<string, unknown>): Promise<string> {
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => lines.push(values.join(" "));
+      try {
+        await run("rdf:simulate", { weather: WEATHER, paths: 50, seasons: 4, ...args });
+      } finally {
+        console.log = log;
+      }
+      return lines.join("\n");
+    }
+
+    it("Should split a weather series into seasons of oracle readings", async function () {
+      const series = parseWeatherCsv("date,rain,temp\n2024-01-01,1.26,20\n2024-01-02,0.5,21\n2024-01-03,3,19\n", {
+        column: "rain",
+        scale: 10,
+      });
+      expect(series.readings).to.deep.equal([13, 5, 30]);
+      expect(historicalSeasons(series, 2)).to.deep.equal([[13, 5]]);
+      expect(() => historicalSeasons(series, 4)).to.throw("fewer than one season of 4");
+      expect(() => parseWeatherCsv("date,rain\n2024-01-01,dry\n")).to.throw('line 2: invalid reading "dry"');
+    });
+
+    it("Should evaluate triggers and price policies like the contract", async function () {
+      const trigger: Trigger = {
+        direction: "below",
+        threshold: 10,
+        indexType: "average",
+        indexThreshold: 0,
+        tiers: [{ bound: 3, payoutBps: 10_000 }, { bound: 10, payoutBps: 5_000 }],
+      };
+      expect(indexValue(trigger, [1, 2, 4])).to.equal(2);
+      expect(payoutBps(trigger, 2)).to.equal(10_000n);
+      expect(payoutBps(trigger, 7)).to.equal(5_000n);
+      expect(payoutBps(trigger, 10)).to.equal(0n);
+      expect(() => validateTrigger({ ...trigger, tiers: [{ bound: 3, payoutBps: 10_000 }] }))
+        .to.throw("Last tier must end at threshold");
+
+      const model = new FundModel(DEFAULT_FUND_PARAMETERS);
+      await rainyDayFund.connect(investor).invest(ethers.parseUnits("1000", USDC_DECIMALS));
+      model.deposit(0, "junior", ethers.parseUnits("1000", USDC_DECIMALS));
+      for (const amount of [10n, 11n, 5n]) {
+        expect(model.remainingCapacity()).to.equal(await rainyDayFund.remainingCapacity(0));
+        expect(model.quotePremium(amount)).to.equal(await rainyDayFund.quotePremium(0, amount));
+        await rainyDayFund.connect(farmer).buyPolicy(0, amount, NO_PREMIUM_LIMIT);
+        model.buyPolicy(0, amount);
+      }
+      expect(model.remainingCapacity()).to.equal(await rainyDayFund.remainingCapacity(0));
+      expect(model.totalAssets()).to.equal(await rainyDayFund.totalAssets());
+    });
+
+    it("Should report loss ratio, probability of ruin and investor returns", async function () {
+      const config = simulationConfig({ collateralizationRatioBps: 3_000n });
+      const report = simulate(config);
+      expect(simulate(config)).to.deep.equal(report);
+      expect(report.seasons).to.equal(200);
+      expect(report.ruinProbability).to.be.greaterThan(0);
+      // Fully collateralized policies are always paid in full
+      expect(simulate(simulationConfig()).ruinProbability).to.equal(0);
+
+      const paths = [...Array(config.paths).keys()].map((index) => runPath(config, index));
+      const premiums = paths.reduce((sum, result) => sum + result.premiums, 0n);
+      const payouts = paths.reduce((sum, result) => sum + result.payouts, 0n);
+      expect(report.aggregateLossRatio).to.equal(Number(payouts) / Number(premiums));
+      expect(report.worstPaths[0]).to.equal(paths.reduce((worst, result) => (result.lossRatio > worst.lossRatio ? result : worst)).index);
+
+      const output = await simulateTask({});
+      expect(output).to.include("50 paths of 4 seasons (seed 1)");
+      expect(output).to.include("Trigger:             latest reading below 10");
+      expect(output).to.match(/Probability of ruin: 0\.0% of paths/);
+    });
+
+    it("Should replay simulated paths against the contract", async function () {
+      // A path whose claims the undercollateralized pool could only pay with a haircut
+      const config = simulationConfig({ collateralizationRatioBps: 3_000n });
+      const ruined = [...Array(config.paths).keys()].find((index) => runPath(config, index).ruined);
+      expect(ruined).to.not.equal(undefined);
+
+      const output = await simulateTask({ collateralRatio: 3_000, replay: `0,${ruined}` });
+      expect(output).to.include("Path 0: the contract matches the model over 4 seasons");
+      expect(output).to.include(`Path ${ruined}: the contract matches the model over 4 seasons`);
+
+      const tiered = await simulateTask({ paths: 5, index: "count-below", indexThreshold: 10, direction: "above",
+        threshold: 5, tiers: "20:10000,5:4000", replay: "1" });
+      expect(tiered).to.include("Path 1: the contract matches the model over 4 seasons");
+
+      const fivefold = await simulateTask({ paths: 5, payoutMultiple: 5, replay: "0" });
+      expect(fivefold).to.include("Path 0: the contract matches the model over 4 seasons");
+    });
+
+    it("Should reject simulations the contract cannot replay", async function () {
+      await expect(simulateTask({ replay: "50" })).to.be.rejectedWith("Path 50 is not one of the 50 simulated paths");
+      await expect(simulateTask({ tiers: "2:10000" })).to.be.rejectedWith("Last tier must end at threshold");
+    });
+  });
+
   describe("Integration Tests", function () {
     it("Should handle complete season lifecycle with claims", async function () {
       const investmentAmount = ethers.parseUnits("1000", USDC_DECIMALS);
@@ -971,28 +3932,30 @@ describe("RainyDayFund", function () {
       await rainyDayFund.connect(investor).invest(investmentAmount);
       
       // Policy purchase phase
-      await rainyDayFund.connect(farmer).buyPolicy(5);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 5, NO_PREMIUM_LIMIT);
       const premiumIncome = PREMIUM * 5n;
       
       // Verify assets increased
       expect(await rainyDayFund.totalAssets()).to.equal(investmentAmount + premiumIncome);
       
       // Move through inactive phase
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
       
       // Move to claim phase and make claims
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      
+      await rainyDayFund.connect(farmer).claimPolicies(0, 1);
       
+      // Move to withdraw phase, collect the payout and withdraw investments
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
+
       const initialFarmerBalance = await mockUSDC.balanceOf(farmer.address);
-      await rainyDayFund.connect(farmer).claimPolicies();
+      await rainyDayFund.connect(farmer).withdrawClaim(0, 1);
       const finalFarmerBalance = await mockUSDC.balanceOf(farmer.address);
       
       const claimPayout = PAYOUT * 5n;
       expect(finalFarmerBalance - initialFarmerBalance).to.equal(claimPayout);
       
-      // Move to withdraw phase and withdraw investments
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
-      
       const investorShares = await rainyDayFund.balanceOf(investor.address);
       const initialInvestorBalance = await mockUSDC.balanceOf(investor.address);
       
@@ -1004,27 +3967,27 @@ describe("RainyDayFund", function () {
       expect(finalInvestorBalance - initialInvestorBalance).to.equal(expectedReturn);
       
       // Complete season
-      await rainyDayFund.advanceToNextPhase(); // WITHDRAW -> FINISHED
+      await advanceToNextPhase(); // WITHDRAW -> FINISHED
       
       // Start new season
-      await rainyDayFund.startNewSeason(PREMIUM);
+      await governed(rainyDayFund, "startNewSeason", 0, PREMIUM, DEFAULT_TRIGGER, DEFAULT_DURATIONS);
       expect(await rainyDayFund.currentSeasonId()).to.equal(2);
-      expect(await rainyDayFund.getSeasonState()).to.equal(0); // ACTIVE
+      expect(await rainyDayFund.getSeasonState(2)).to.equal(0); // ACTIVE
     });
 
     it("Should handle season without claims", async function () {
       const investmentAmount = ethers.parseUnits("500", USDC_DECIMALS);
       
       await rainyDayFund.connect(investor).invest(investmentAmount);
-      await rainyDayFund.connect(farmer).buyPolicy(3);
+      await rainyDayFund.connect(farmer).buyPolicy(0, 3, NO_PREMIUM_LIMIT);
       
       // Set good weather (no claims possible)
       await mockWeatherOracle.updatePrice(20);
       
       // Complete season without claims
-      await rainyDayFund.advanceToNextPhase(); // ACTIVE -> INACTIVE
-      await rainyDayFund.advanceToNextPhase(); // INACTIVE -> CLAIM
-      await rainyDayFund.advanceToNextPhase(); // CLAIM -> WITHDRAW
+      await advanceToNextPhase(); // ACTIVE -> INACTIVE
+      await advanceToNextPhase(); // INACTIVE -> CLAIM
+      await advanceToNextPhase(); // CLAIM -> WITHDRAW
       
       // Investor should get back investment + all premiums
       const investorShares = await rainyDayFund.balanceOf(investor.address);
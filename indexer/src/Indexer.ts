@@ -0,0 +1,161 @@
+import { Block, Log, ParamType, Provider, ZeroAddress, getAddress } from "ethers";
+import type { RainyDayFund } from "../../contract/typechain-types";
+import { RainyDayFundTestHarness__factory } from "../../contract/typechain-types/factories/contracts/RainyDayFundTestHarness__factory";
+import { RainyDayFund__factory } from "../../contract/typechain-types/factories/contracts/RainyDayFund__factory";
+import { SeniorTranche__factory } from "../../contract/typechain-types/factories/contracts/SeniorTranche__factory";
+import { BlockRef, EventStore, IndexedEvent } from "./store";
+
+// Deposit and Withdraw are the ERC4626 events of both the junior pool (the fund) and the senior tranche.
+// TimeAdvanced is only emitted by RainyDayFundTestHarness.
+export const INDEXED_EVENTS = [
+  "PolicyBought",
+  "ClaimMade",
+  "InvestmentMade",
+  "InvestmentWithdrawn",
+  "NewSeasonStarted",
+  "TimeAdvanced",
+  "Deposit",
+  "Withdraw",
+] as const;
+
+// The harness declares every event of the fund
+const fundInterface = RainyDayFundTestHarness__factory.createInterface();
+const seniorInterface = SeniorTranche__factory.createInterface();
+const TOPICS = INDEXED_EVENTS.map((name) => fundInterface.getEvent(name).topicHash);
+
+export interface IndexerOptions {
+  // First block to index, usually the block the fund was deployed in
+  fromBlock?: number;
+  // Blocks per eth_getLogs request
+  batchSize?: number;
+}
+
+// Follows the fund's and senior tranche's events into an EventStore. Every `sync` first rolls back blocks that a
+// reorg replaced, then indexes up to the chain head. On a local Hardhat node, evm_revert is such a reorg.
+export class Indexer {
+  readonly fund: RainyDayFund;
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+  private addresses: string[] = [];
+
+  constructor(readonly provider: Provider, fundAddress: string, readonly store: EventStore, options: IndexerOptions = {}) {
+    this.fund = RainyDayFund__factory.connect(getAddress(fundAddress), provider);
+    this.fromBlock = options.fromBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+  }
+
+  // Indexes up to the current head and returns the last indexed block number
+  async sync(): Promise<number> {
+    const { chainId } = await this.provider.getNetwork();
+    const fund = await this.fund.getAddress();
+    const seniorTranche = await this.fund.seniorTranche();
+    this.store.open(chainId.toString(), fund, seniorTranche === ZeroAddress ? null : seniorTranche);
+    this.addresses = seniorTranche === ZeroAddress ? [fund] : [fund, seniorTranche];
+
+    if (await this.rewind()) {
+      this.store.flush();
+    }
+    const head = await this.provider.getBlockNumber();
+    for (let from = this.nextBlock(); from <= head; from = this.nextBlock()) {
+      const batch = await this.fetch(from, Math.min(from + this.batchSize - 1, head));
+      if (!batch) {
+        // The chain reorganized while fetching; the next sync rolls back
+        break;
+      }
+      this.store.append(batch.events, batch.blocks);
+      this.store.flush();
+    }
+    return this.nextBlock() - 1;
+  }
+
+  private nextBlock(): number {
+    return (this.store.lastBlock?.number ?? this.fromBlock - 1) + 1;
+  }
+
+  // Rolls back to the newest indexed block that is still on the chain; returns whether anything was dropped
+  private async rewind(): Promise<boolean> {
+    const blocks = this.store.blocks;
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = await this.provider.getBlock(blocks[i].number);
+      if (block?.hash === blocks[i].hash) {
+        if (i === blocks.length - 1) {
+          return false;
+        }
+        this.store.rollback(blocks[i].number);
+        return true;
+      }
+    }
+    if (blocks.length === 0) {
+      return false;
+    }
+    // Deeper than the blocks kept for reorg detection
+    this.store.rollback(this.fromBlock - 1);
+    return true;
+  }
+
+  // Events of blocks `from` to `to`, or null if the chain changed in between
+  private async fetch(from: number, to: number): Promise<{ events: IndexedEvent[]; blocks: BlockRef[] } | null> {
+    const last = await this.provider.getBlock(to);
+    const logs = await this.provider.getLogs({ address: this.addresses, topics: [TOPICS], fromBlock: from, toBlock: to });
+    const blocks = new Map<number, Block>();
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      let block = blocks.get(log.blockNumber);
+      if (!block) {
+        const fetched = await this.provider.getBlock(log.blockNumber);
+        if (!fetched?.hash || fetched.hash !== log.blockHash) {
+          return null;
+        }
+        blocks.set(log.blockNumber, (block = fetched));
+      }
+      events.push(this.decode(log, block.timestamp));
+    }
+    // A reorg below `to` would have changed its hash as well
+    const check = await this.provider.getBlock(to);
+    if (!last?.hash || check?.hash !== last.hash) {
+      return null;
+    }
+    blocks.set(to, last);
+    const refs = [...blocks.values()]
+      .map((block) => ({ number: block.number, hash: block.hash as string }))
+      .sort((a, b) => a.number - b.number);
+    return { events, blocks: refs };
+  }
+
+  private decode(log: Log, timestamp: number): IndexedEvent {
+    const contract = log.address === this.addresses[0] ? "fund" : "seniorTranche";
+    const parsed = (contract === "fund" ? fundInterface : seniorInterface).parseLog(log);
+    if (!parsed) {
+      throw new Error(`Unknown event in transaction ${log.transactionHash}`);
+    }
+    const args = Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, plain(input, parsed.args[i])]));
+    const accounts = parsed.fragment.inputs
+      .filter((input) => input.type === "address")
+      .map((input) => (args[input.name] as string).toLowerCase());
+    return {
+      id: `${log.transactionHash}-${log.index}`,
+      name: parsed.name,
+      contract,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp,
+      regionId: "regionId" in args ? String(args.regionId) : null,
+      seasonId: "seasonId" in args ? String(args.seasonId) : null,
+      accounts: [...new Set(accounts)],
+      args,
+    };
+  }
+}
+
+// An event argument as JSON: structs as objects, numbers as decimal strings
+function plain(type: ParamType, value: unknown): unknown {
+  if (type.isArray()) {
+    return (value as unknown[]).map((item) => plain(type.arrayChildren, item));
+  }
+  if (type.isTuple()) {
+    return Object.fromEntries(type.components.map((component, i) => [component.name, plain(component, (value as unknown[])[i])]));
+  }
+  return typeof value === "bigint" ? value.toString() : value;
+}
@@ -0,0 +1,57 @@
+import http from "http";
+import { isAddress } from "ethers";
+import { EventStore } from "./store";
+
+// Read-only JSON API over the indexed history:
+//   GET /status                                    chain, contracts, last indexed block and event count
+//   GET /events?name=PolicyBought&limit=50         newest events, optionally of one type
+//   GET /seasons/:seasonId/events?regionId=0       history of a season
+//   GET /accounts/:address/events                  history of a farmer or investor
+export function createApiServer(store: EventStore): http.Server {
+  return http.createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const reply = (status: number, body: unknown) => {
+      // The frontend is served from another port
+      response.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method !== "GET") {
+      return reply(405, { error: "Only GET is supported" });
+    }
+    if (!store.opened) {
+      return reply(503, { error: "Indexer has not synced yet" });
+    }
+    const parts = url.pathname.split("/").filter(Boolean);
+    if (parts.length === 1 && parts[0] === "status") {
+      return reply(200, {
+        chainId: store.chainId,
+        fund: store.fund,
+        seniorTranche: store.seniorTranche,
+        lastBlock: store.lastBlock?.number ?? null,
+        events: store.eventCount,
+      });
+    }
+    if (parts.length === 1 && parts[0] === "events") {
+      const limit = Number(url.searchParams.get("limit") ?? 50);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return reply(400, { error: "Invalid limit" });
+      }
+      return reply(200, store.recent(limit, url.searchParams.get("name") ?? undefined));
+    }
+    if (parts.length === 3 && parts[0] === "seasons" && parts[2] === "events") {
+      const regionId = url.searchParams.get("regionId") ?? undefined;
+      if (!/^\d+$/.test(parts[1]) || (regionId !== undefined && !/^\d+$/.test(regionId))) {
+        return reply(400, { error: "Invalid season or region" });
+      }
+      return reply(200, store.seasonHistory(BigInt(parts[1]).toString(), regionId && BigInt(regionId).toString()));
+    }
+    if (parts.length === 3 && parts[0] === "accounts" && parts[2] === "events") {
+      if (!isAddress(parts[1])) {
+        return reply(400, { error: "Invalid address" });
+      }
+      return reply(200, store.accountHistory(parts[1]));
+    }
+    reply(404, { error: "Not found" });
+  });
+}
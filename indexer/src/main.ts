@@ -0,0 +1,34 @@
+// Indexes the local deployment and serves its history.
+// Run with: npm start [-- <path to deployment-info.json>]
+// RPC_URL, INDEXER_PORT, INDEXER_DB and POLL_INTERVAL_MS override the defaults below.
+import fs from "fs";
+import { JsonRpcProvider } from "ethers";
+import { createApiServer } from "./api";
+import { Indexer } from "./Indexer";
+import { EventStore } from "./store";
+
+const deploymentFile = process.argv[2] ?? "../contract/deployment-info.json";
+const rpcUrl = process.env.RPC_URL ?? "http://127.0.0.1:8545";
+const port = Number(process.env.INDEXER_PORT ?? 4000);
+const pollInterval = Number(process.env.POLL_INTERVAL_MS ?? 2000);
+
+const deploymentInfo = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+const store = new EventStore(process.env.INDEXER_DB ?? "data/events.json");
+const indexer = new Indexer(new JsonRpcProvider(rpcUrl), deploymentInfo.contracts.RainyDayFund, store, {
+  fromBlock: deploymentInfo.deploymentBlock,
+});
+
+async function poll() {
+  try {
+    const block = await indexer.sync();
+    console.log(`Indexed up to block ${block} (${store.eventCount} events)`);
+  } catch (error) {
+    console.error("Sync failed:", error instanceof Error ? error.message : error);
+  }
+  setTimeout(poll, pollInterval);
+}
+
+createApiServer(store).listen(port, () => {
+  console.log(`Indexer API listening on http://localhost:${port}`);
+  poll();
+});
@@ -0,0 +1,137 @@
+import fs from "fs";
+import path from "path";
+
+// One decoded contract event. Numbers are kept as decimal strings so the history round-trips through JSON.
+export interface IndexedEvent {
+  // `${transactionHash}-${logIndex}`
+  id: string;
+  name: string;
+  contract: "fund" | "seniorTranche";
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+  regionId: string | null;
+  seasonId: string | null;
+  // Lowercased addresses among the event's arguments (farmer, investor, sender, owner, receiver)
+  accounts: string[];
+  args: Record<string, unknown>;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface StoreState {
+  chainId: string;
+  fund: string;
+  seniorTranche: string | null;
+  // Recently indexed blocks, oldest first. The last one is where indexing continues; the earlier ones are walked
+  // back on a reorg to find the last block that is still on the chain.
+  blocks: BlockRef[];
+  events: IndexedEvent[];
+}
+
+// Blocks kept for reorg detection; a reorg deeper than this reindexes from the start
+const RECENT_BLOCKS = 256;
+
+// Indexed events in memory, written to a JSON file after every batch when a path is given. The file is replaced
+// atomically, so a restart always resumes from a consistent state.
+export class EventStore {
+  private state: StoreState | null;
+
+  constructor(readonly file?: string) {
+    this.state = file && fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+  }
+
+  // Starts over when the stored history belongs to another chain or deployment
+  open(chainId: string, fund: string, seniorTranche: string | null): void {
+    const state = this.state;
+    if (state && state.chainId === chainId && state.fund === fund && state.seniorTranche === seniorTranche) {
+      return;
+    }
+    this.state = { chainId, fund, seniorTranche, blocks: [], events: [] };
+  }
+
+  get opened(): boolean {
+    return this.state !== null;
+  }
+
+  get chainId(): string {
+    return this.current().chainId;
+  }
+
+  get fund(): string {
+    return this.current().fund;
+  }
+
+  get seniorTranche(): string | null {
+    return this.current().seniorTranche;
+  }
+
+  get blocks(): BlockRef[] {
+    return this.current().blocks;
+  }
+
+  get lastBlock(): BlockRef | null {
+    const blocks = this.current().blocks;
+    return blocks.length > 0 ? blocks[blocks.length - 1] : null;
+  }
+
+  get eventCount(): number {
+    return this.current().events.length;
+  }
+
+  // Adds a batch of events, ordered by block and log index, and the indexed blocks they were read up to
+  append(events: IndexedEvent[], blocks: BlockRef[]): void {
+    const state = this.current();
+    state.events.push(...events);
+    state.blocks.push(...blocks);
+    state.blocks.splice(0, Math.max(0, state.blocks.length - RECENT_BLOCKS));
+  }
+
+  // Drops everything indexed after `blockNumber`
+  rollback(blockNumber: number): void {
+    const state = this.current();
+    state.events = state.events.filter((event) => event.blockNumber <= blockNumber);
+    state.blocks = state.blocks.filter((block) => block.number <= blockNumber);
+  }
+
+  flush(): void {
+    if (!this.file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(this.current()));
+    fs.renameSync(temp, this.file);
+  }
+
+  // Events of a season, optionally only those of one region. Investments and withdrawals are not tied to a season
+  // and only show up in the investor's history.
+  seasonHistory(seasonId: string, regionId?: string): IndexedEvent[] {
+    return this.current().events.filter((event) =>
+      event.seasonId === seasonId && (regionId === undefined || event.regionId === regionId)
+    );
+  }
+
+  accountHistory(account: string): IndexedEvent[] {
+    const address = account.toLowerCase();
+    return this.current().events.filter((event) => event.accounts.includes(address));
+  }
+
+  // The newest `limit` events, optionally of one event type, oldest first
+  recent(limit: number, name?: string): IndexedEvent[] {
+    const events = this.current().events.filter((event) => name === undefined || event.name === name);
+    return events.slice(Math.max(0, events.length - limit));
+  }
+
+  private current(): StoreState {
+    if (!this.state) {
+      throw new Error("Event store not opened");
+    }
+    return this.state;
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  ZeroAddress,
+} from "ethers";
+import type { IERC20, RainyDayFund, SeniorTranche } from "../../contract/typechain-types";
+import { IERC20__factory } from "../../contract/typechain-types/factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+import { RainyDayFund__factory } from "../../contract/typechain-types/factories/contracts/RainyDayFund__factory";
+import { SeniorTranche__factory } from "../../contract/typechain-types/factories/contracts/SeniorTranche__factory";
+import { RainyDayError, decodeRevertReason } from "./errors";
+
+// Phases of a season, in the order of the fund's SeasonState enum
+export enum SeasonState {
+  ACTIVE,
+  INACTIVE,
+  CLAIM,
+  WITHDRAW,
+  FINISHED,
+}
+
+export interface Quote {
+  // Total premium in USDC base units, the most buyPolicy charges at the current utilization
+  premium: bigint;
+  perPolicy: bigint;
+}
+
+export interface SeasonInfo {
+  seasonId: bigint;
+  regionId: bigint;
+  state: SeasonState;
+  // Null until the season has been opened in the region
+  policyToken: string | null;
+  premium: bigint;
+  payoutAmount: bigint;
+  totalPoliciesSold: bigint;
+  totalClaimedPolicies: bigint;
+  // Settled payout once claims are settled, the projected one until then
+  payoutPerPolicy: bigint;
+  weatherFinalized: boolean;
+  outcomePayoutBps: bigint;
+  claimsSettled: boolean;
+  // Phase boundaries as block timestamps; pausing claims pushes claimWindowEnd and withdrawalsClose back
+  salesClose: bigint;
+  coverageEnd: bigint;
+  claimWindowEnd: bigint;
+  withdrawalsClose: bigint;
+}
+
+export interface InvestorPosition {
+  usdcBalance: bigint;
+  // Junior pool shares, their value and the part not locked by sold policies
+  shares: bigint;
+  assets: bigint;
+  redeemableShares: bigint;
+  redeemableAssets: bigint;
+  // Zero while the fund has no senior tranche
+  seniorShares: bigint;
+  seniorAssets: bigint;
+}
+
+// Typed access to a deployed RainyDayFund. The typechain contracts are exposed as `fund`, `usdc` and
+// `seniorTranche` for everything the high-level methods do not cover. Reverts are rethrown as RainyDayError
+// with the decoded reason.
+export class RainyDaySdk {
+  private constructor(
+    readonly fund: RainyDayFund,
+    readonly usdc: IERC20,
+    readonly seniorTranche: SeniorTranche | null,
+  ) {}
+
+  // The USDC token and senior tranche are read from the fund
+  static async connect(fundAddress: string, runner: ContractRunner): Promise<RainyDaySdk> {
+    const fund = RainyDayFund__factory.connect(fundAddress, runner);
+    const seniorTranche = await fund.seniorTranche();
+    return new RainyDaySdk(
+      fund,
+      IERC20__factory.connect(await fund.usdc(), runner),
+      seniorTranche === ZeroAddress ? null : SeniorTranche__factory.connect(seniorTranche, runner),
+    );
+  }
+
+  // Same contracts, acting as another account
+  withRunner(runner: ContractRunner): RainyDaySdk {
+    return new RainyDaySdk(this.fund.connect(runner), this.usdc.connect(runner), this.seniorTranche?.connect(runner) ?? null);
+  }
+
+  async quote(regionId: BigNumberish, amount: BigNumberish): Promise<Quote> {
+    const premium = await this.read(() => this.fund.quotePremium(regionId, amount));
+    return { premium, perPolicy: premium / BigInt(amount) };
+  }
+
+  // Buys policies of the current season. Without a maxPremium the current quote is the most the purchase may
+  // cost, so it reverts if the price moves up in between. The premium is approved first if needed.
+  async buyPolicy(regionId: BigNumberish, amount: BigNumberish, maxPremium?: bigint): Promise<ContractTransactionReceipt> {
+    const limit = maxPremium ?? (await this.quote(regionId, amount)).premium;
+    await this.ensureAllowance(this.fund, limit);
+    return this.send(() => this.fund.buyPolicy(regionId, amount, limit));
+  }
+
+  // Registers the account's policies of a season for payout during its CLAIM phase
+  claim(regionId: BigNumberish, seasonId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.fund.claimPolicies(regionId, seasonId));
+  }
+
+  // Pays out registered claims once the season has reached WITHDRAW
+  withdrawPayout(regionId: BigNumberish, seasonId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.fund.withdrawClaim(regionId, seasonId));
+  }
+
+  async invest(assets: bigint): Promise<ContractTransactionReceipt> {
+    await this.ensureAllowance(this.fund, assets);
+    return this.send(() => this.fund.invest(assets));
+  }
+
+  // Approves exactly `amount` if the account's allowance for `spender` falls short; returns whether it did
+  async ensureAllowance(spender: AddressLike, amount: bigint): Promise<boolean> {
+    const account = await this.account();
+    if (await this.read(() => this.usdc.allowance(account, spender)) >= amount) {
+      return false;
+    }
+    await this.send(() => this.usdc.approve(spender, amount));
+    return true;
+  }
+
+  async seasonInfo(seasonId: BigNumberish, regionId: BigNumberish = 0): Promise<SeasonInfo> {
+    return this.read(async () => {
+      const policy = await this.fund.seasonPolicies(regionId, seasonId);
+      const seasonEnd = await this.fund.seasonOverTimeStamps(seasonId);
+      const durations = await this.fund.seasonDurations(seasonId);
+      const claimWindowEnd = await this.fund.claimWindowEnd(seasonId);
+      return {
+        seasonId: BigInt(seasonId),
+        regionId: BigInt(regionId),
+        state: Number(await this.fund.getSeasonState(seasonId)) as SeasonState,
+        policyToken: policy.policyToken === ZeroAddress ? null : policy.policyToken,
+        premium: policy.premium,
+        payoutAmount: policy.payoutAmount,
+        totalPoliciesSold: policy.totalPoliciesSold,
+        totalClaimedPolicies: policy.totalClaimedPolicies,
+        payoutPerPolicy: await this.fund.projectedPayoutPerPolicy(regionId, seasonId),
+        weatherFinalized: policy.weatherFinalized,
+        outcomePayoutBps: policy.outcomePayoutBps,
+        claimsSettled: policy.claimsSettled,
+        salesClose: seasonEnd - durations.coverage,
+        coverageEnd: seasonEnd,
+        claimWindowEnd,
+        withdrawalsClose: claimWindowEnd + durations.withdraw,
+      };
+    });
+  }
+
+  async investorPosition(investor: string): Promise<InvestorPosition> {
+    return this.read(async () => {
+      const shares = await this.fund.balanceOf(investor);
+      const redeemableShares = await this.fund.maxRedeem(investor);
+      const seniorShares = this.seniorTranche ? await this.seniorTranche.balanceOf(investor) : 0n;
+      return {
+        usdcBalance: await this.usdc.balanceOf(investor),
+        shares,
+        assets: await this.fund.previewRedeem(shares),
+        redeemableShares,
+        redeemableAssets: await this.fund.previewRedeem(redeemableShares),
+        seniorShares,
+        seniorAssets: this.seniorTranche ? await this.seniorTranche.convertToAssets(seniorShares) : 0n,
+      };
+    });
+  }
+
+  private async account(): Promise<string> {
+    const runner = this.fund.runner;
+    if (!runner || !("getAddress" in runner) || typeof runner.getAddress !== "function") {
+      throw new RainyDayError("Connected without a signer");
+    }
+    return runner.getAddress();
+  }
+
+  private async read<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw new RainyDayError(decodeRevertReason(error, [this.fund.interface]), error);
+    }
+  }
+
+  private async send(call: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    return this.read(async () => {
+      const receipt = await (await call()).wait();
+      if (!receipt) {
+        throw new RainyDayError("Transaction was dropped");
+      }
+      return receipt;
+    });
+  }
+}
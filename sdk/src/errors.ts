@@ -0,0 +1,54 @@
+import { Interface, isCallException, isHexString } from "ethers";
+
+// Thrown by the SDK when a call or transaction reverts, with the decoded revert reason as message
+export class RainyDayError extends Error {
+  constructor(readonly reason: string, readonly cause?: unknown) {
+    super(reason);
+    this.name = "RainyDayError";
+  }
+}
+
+// Revert data of a failed call. Providers attach it in different places: ethers on its CALL_EXCEPTION, Hardhat's
+// in-process network on the error itself, injected wallets on the nested JSON-RPC error.
+function revertData(error: unknown): string | null {
+  for (let current = error; current && typeof current === "object"; ) {
+    const { data, error: nested, info } = current as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+    if (isHexString(data) && data.length >= 10) {
+      return data;
+    }
+    if (data && typeof data === "object" && "data" in data) {
+      current = data;
+    } else {
+      current = nested ?? info?.error;
+    }
+  }
+  return null;
+}
+
+// Reason a call reverted with: the message of a failed require, or a custom error such as OpenZeppelin's
+// ERC20InsufficientAllowance with its arguments, looked up in the contracts' `interfaces`
+export function decodeRevertReason(error: unknown, interfaces: Interface[] = []): string {
+  if (error instanceof RainyDayError) {
+    return error.reason;
+  }
+  if (isCallException(error) && error.reason) {
+    return error.reason;
+  }
+  const data = revertData(error);
+  if (data) {
+    // Every interface knows the built-in Error(string) and Panic(uint256)
+    for (const iface of [...interfaces, new Interface([])]) {
+      const parsed = iface.parseError(data);
+      if (parsed?.name === "Error") {
+        return parsed.args[0];
+      }
+      if (parsed) {
+        return `${parsed.name}(${parsed.args.join(", ")})`;
+      }
+    }
+  }
+  if (isCallException(error)) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,20 @@
+export * from "./RainyDaySdk";
+export * from "./errors";
+export * from "./usdc";
+
+// Typechain bindings of the deployed contracts. The factories are exported one by one, because the typechain
+// index would pull the bytecode of every contract in the repository into an app's bundle.
+export type {
+  IERC20,
+  MockUSDC,
+  MockWeatherOracle,
+  RainyDayFund,
+  SeasonPolicyToken,
+  SeniorTranche,
+} from "../../contract/typechain-types";
+export { IERC20__factory } from "../../contract/typechain-types/factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+export { MockUSDC__factory } from "../../contract/typechain-types/factories/contracts/MockUSDC__factory";
+export { MockWeatherOracle__factory } from "../../contract/typechain-types/factories/contracts/MockWeatherOracle__factory";
+export { RainyDayFund__factory } from "../../contract/typechain-types/factories/contracts/RainyDayFund__factory";
+export { SeasonPolicyToken__factory } from "../../contract/typechain-types/factories/contracts/SeasonPolicyToken__factory";
+export { SeniorTranche__factory } from "../../contract/typechain-types/factories/contracts/SeniorTranche__factory";
@@ -0,0 +1,12 @@
+import { formatUnits, parseUnits } from "ethers";
+
+// The fund's asset is USDC, so premiums, payouts and investments are in 6-decimal base units
+export const USDC_DECIMALS = 6;
+
+export function parseUsdc(value: string | number): bigint {
+  return parseUnits(value.toString(), USDC_DECIMALS);
+}
+
+export function formatUsdc(amount: bigint): string {
+  return formatUnits(amount, USDC_DECIMALS);
+}
@@ -0,0 +1,6 @@
+export * from "./model";
+export * from "./random";
+export * from "./replay";
+export * from "./report";
+export * from "./simulate";
+export * from "./weather";
@@ -0,0 +1,512 @@
+// Integer model of one region of the RainyDayFund, running one season at a time: the same pricing, capacity,
+// payout, settlement and tranche arithmetic as the contract, in USDC base units. A season runs through
+// sales (ACTIVE), its weather outcome and claims (CLAIM), and payouts and redemptions (WITHDRAW) before the
+// next one is rolled; the replay drives the contract through the same steps.
+
+export const BASIS_POINTS = 10_000n;
+export const MINIMUM_BOOTSTRAP_ASSETS = 100_000_000n;
+// Virtual shares of both vaults (ERC4626 decimals offset of 6)
+const VIRTUAL_SHARES = 10n ** 6n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+export type TriggerDirection = "below" | "above";
+export type IndexType = "latest" | "sum" | "average" | "countBelow";
+export type Tranche = "junior" | "senior";
+
+export interface PayoutTier {
+  bound: number;
+  payoutBps: number;
+}
+
+// A season's payout trigger, as in RainyDayFund.SeasonTrigger
+export interface Trigger {
+  direction: TriggerDirection;
+  threshold: number;
+  indexType: IndexType;
+  // Readings below it count towards a countBelow index
+  indexThreshold: number;
+  tiers: PayoutTier[];
+}
+
+export interface PricingCurve {
+  baseRateBps: bigint;
+  kinkBps: bigint;
+  slopeBps: bigint;
+}
+
+export interface FundParameters {
+  // Premium per policy in USDC base units
+  premium: bigint;
+  // Full payout per policy as a multiple of the premium. The contract pays 4x; other multiples can only be modelled.
+  payoutMultiple: bigint;
+  trigger: Trigger;
+  pricingCurve: PricingCurve;
+  collateralizationRatioBps: bigint;
+  seniorYieldBps: bigint;
+  keeperReward: bigint;
+}
+
+// The contract's defaults
+export const DEFAULT_FUND_PARAMETERS: FundParameters = {
+  premium: 9_000_000n,
+  payoutMultiple: 4n,
+  trigger: { direction: "below", threshold: 10, indexType: "latest", indexThreshold: 0, tiers: [] },
+  pricingCurve: { baseRateBps: 10_000n, kinkBps: 8_000n, slopeBps: 10_000n },
+  collateralizationRatioBps: 10_000n,
+  seniorYieldBps: 200n,
+  keeperReward: 1_000_000n,
+};
+
+// State of the fund after a season's withdrawals, as the replay reads it from the contract
+export interface FundSnapshot {
+  policiesSold: bigint;
+  premiums: bigint;
+  outcomeBps: bigint;
+  payoutPerPolicy: bigint;
+  balance: bigint;
+  poolAssets: bigint;
+  // Junior pool assets and shares (the fund's totalAssets and totalSupply)
+  totalAssets: bigint;
+  totalSupply: bigint;
+  seniorTrancheAssets: bigint;
+  seniorSupply: bigint;
+}
+
+const MAX_PAYOUT_TIERS = 8;
+
+function isBeyond(direction: TriggerDirection, value: number, bound: number): boolean {
+  return direction === "below" ? value < bound : value > bound;
+}
+
+// The checks the contract runs when a season is opened with the trigger (SeasonLib.validateTrigger)
+export function validateTrigger(trigger: Trigger) {
+  const { tiers } = trigger;
+  if (tiers.length === 0) {
+    return;
+  }
+  if (tiers.length > MAX_PAYOUT_TIERS) {
+    throw new Error("Too many payout tiers");
+  }
+  if (tiers[tiers.length - 1].bound !== trigger.threshold) {
+    throw new Error("Last tier must end at threshold");
+  }
+  tiers.forEach((tier, i) => {
+    if (tier.payoutBps <= 0 || tier.payoutBps > Number(BASIS_POINTS)) {
+      throw new Error("Invalid tier payout");
+    }
+    if (i > 0) {
+      const previous = tiers[i - 1];
+      if (!isBeyond(trigger.direction, previous.bound, tier.bound)) {
+        throw new Error("Tiers out of order");
+      }
+      if (tier.payoutBps > previous.payoutBps) {
+        throw new Error("Tier payouts must decrease");
+      }
+    }
+  });
+}
+
+// Value the trigger is evaluated on, from the readings of the coverage window (SeasonLib.indexValue)
+export function indexValue(trigger: Trigger, readings: number[]): number {
+  if (readings.length === 0) {
+    throw new Error("No readings in the coverage window");
+  }
+  switch (trigger.indexType) {
+    case "latest":
+      return readings[readings.length - 1];
+    case "sum":
+      return readings.reduce((sum, reading) => sum + reading, 0);
+    case "average":
+      // Solidity's signed division rounds towards zero
+      return Math.trunc(readings.reduce((sum, reading) => sum + reading, 0) / readings.length);
+    case "countBelow":
+      return readings.filter((reading) => reading < trigger.indexThreshold).length;
+  }
+}
+
+// Share of the full payout the value triggers (SeasonLib.payoutBps)
+export function payoutBps(trigger: Trigger, value: number): bigint {
+  if (!isBeyond(trigger.direction, value, trigger.threshold)) {
+    return 0n;
+  }
+  if (trigger.tiers.length === 0) {
+    return BASIS_POINTS;
+  }
+  const tier = trigger.tiers.find((candidate) => isBeyond(trigger.direction, value, candidate.bound));
+  return tier ? BigInt(tier.payoutBps) : 0n;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+// PremiumPricing.utilization
+export function utilization(liability: bigint, assets: bigint): bigint {
+  if (assets === 0n) {
+    return liability === 0n ? 0n : BASIS_POINTS;
+  }
+  return (liability * BASIS_POINTS) / assets;
+}
+
+function rateAt(curve: PricingCurve, utilizationBps: bigint): bigint {
+  if (utilizationBps <= curve.kinkBps) {
+    return curve.baseRateBps;
+  }
+  return curve.baseRateBps + ((utilizationBps - curve.kinkBps) * curve.slopeBps) / BASIS_POINTS;
+}
+
+// PremiumPricing.averageRate
+function averageRate(curve: PricingCurve, fromBps: bigint, toBps: bigint): bigint {
+  if (toBps <= fromBps) {
+    return rateAt(curve, toBps);
+  }
+  if (toBps <= curve.kinkBps) {
+    return curve.baseRateBps;
+  }
+  const excessFrom = fromBps > curve.kinkBps ? fromBps - curve.kinkBps : 0n;
+  const excessTo = toBps - curve.kinkBps;
+  const meanExcess = (excessTo * excessTo - excessFrom * excessFrom) / (2n * (toBps - fromBps));
+  return curve.baseRateBps + (meanExcess * curve.slopeBps) / BASIS_POINTS;
+}
+
+// PremiumPricing.quote: total premium for `amount` policies given the pool's liability and assets before the purchase
+export function quotePremium(
+  curve: PricingCurve,
+  premium: bigint,
+  payoutAmount: bigint,
+  amount: bigint,
+  liability: bigint,
+  assets: bigint
+): bigint {
+  const rate = averageRate(curve, utilization(liability, assets), utilization(liability + amount * payoutAmount, assets));
+  return ceilDiv(premium * amount * rate, BASIS_POINTS);
+}
+
+type Phase = "active" | "claim" | "withdraw";
+
+interface SeasonState {
+  phase: Phase;
+  sold: bigint;
+  claimed: bigint;
+  premiums: bigint;
+  holdings: Map<number, bigint>;
+  registered: Map<number, bigint>;
+  // Null until the weather outcome is finalized
+  outcomeBps: bigint | null;
+  payoutPerPolicy: bigint;
+  settled: boolean;
+  waterfallApplied: boolean;
+}
+
+function newSeason(): SeasonState {
+  return {
+    phase: "active",
+    sold: 0n,
+    claimed: 0n,
+    premiums: 0n,
+    holdings: new Map(),
+    registered: new Map(),
+    outcomeBps: null,
+    payoutPerPolicy: 0n,
+    settled: false,
+    waterfallApplied: false,
+  };
+}
+
+// The fund with its junior pool and senior tranche. Farmers and investors are numbered; the methods follow the
+// contract functions of the same name and throw where the contract would revert.
+export class FundModel {
+  readonly payoutAmount: bigint;
+  balance = 0n;
+  reservedPayouts = 0n;
+  seniorAssets = 0n;
+  juniorSupply = 0n;
+  seniorSupply = 0n;
+  readonly juniorShares = new Map<number, bigint>();
+  readonly seniorShares = new Map<number, bigint>();
+  private season = newSeason();
+
+  constructor(readonly params: FundParameters) {
+    validateTrigger(params.trigger);
+    this.payoutAmount = params.premium * params.payoutMultiple;
+  }
+
+  get phase(): Phase {
+    return this.season.phase;
+  }
+
+  get outcomeBps(): bigint | null {
+    return this.season.outcomeBps;
+  }
+
+  holdings(farmer: number): bigint {
+    return this.season.holdings.get(farmer) ?? 0n;
+  }
+
+  // Payout per policy owed by the outcome, before any pro-rata haircut
+  claimablePayout(): bigint {
+    const { outcomeBps } = this.season;
+    return outcomeBps === null ? this.payoutAmount : (this.payoutAmount * outcomeBps) / BASIS_POINTS;
+  }
+
+  outstandingLiability(): bigint {
+    if (this.season.phase === "withdraw") {
+      return 0n;
+    }
+    return (this.season.sold - this.season.claimed) * this.claimablePayout();
+  }
+
+  private unsettledClaims(): bigint {
+    return this.season.settled ? 0n : this.season.claimed * this.claimablePayout();
+  }
+
+  poolAssets(): bigint {
+    const committed = this.reservedPayouts + this.unsettledClaims();
+    return this.balance > committed ? this.balance - committed : 0n;
+  }
+
+  // Counts once the claim window has closed, like the fund's pendingSeniorYield
+  private pendingSeniorYield(): bigint {
+    if (this.season.phase !== "withdraw" || this.season.waterfallApplied) {
+      return 0n;
+    }
+    return min((this.seniorAssets * this.params.seniorYieldBps) / BASIS_POINTS, this.season.premiums);
+  }
+
+  seniorTrancheAssets(): bigint {
+    return min(this.seniorAssets + this.pendingSeniorYield(), this.poolAssets());
+  }
+
+  // Junior (RDIS) assets, the fund's ERC4626 totalAssets()
+  totalAssets(): bigint {
+    return this.poolAssets() - this.seniorTrancheAssets();
+  }
+
+  isBootstrapped(): boolean {
+    return this.juniorSupply > 0n && this.totalAssets() >= MINIMUM_BOOTSTRAP_ASSETS;
+  }
+
+  remainingCapacity(): bigint {
+    const { collateralizationRatioBps, pricingCurve } = this.params;
+    const requiredPerPolicy = this.payoutAmount * collateralizationRatioBps;
+    const fundedPerPolicy = this.params.premium * pricingCurve.baseRateBps;
+    if (requiredPerPolicy <= fundedPerPolicy) {
+      return MAX_UINT256;
+    }
+    const required = this.outstandingLiability() * collateralizationRatioBps;
+    const available = this.poolAssets() * BASIS_POINTS;
+    if (available <= required) {
+      return 0n;
+    }
+    return (available - required) / (requiredPerPolicy - fundedPerPolicy);
+  }
+
+  quotePremium(amount: bigint): bigint {
+    return quotePremium(
+      this.params.pricingCurve,
+      this.params.premium,
+      this.payoutAmount,
+      amount,
+      this.outstandingLiability(),
+      this.poolAssets()
+    );
+  }
+
+  sharesOf(investor: number, tranche: Tranche): bigint {
+    return (tranche === "junior" ? this.juniorShares : this.seniorShares).get(investor) ?? 0n;
+  }
+
+  // invest / SeniorTranche.deposit; returns the minted shares
+  deposit(investor: number, tranche: Tranche, assets: bigint): bigint {
+    if (this.season.phase !== "active") {
+      throw new Error("Season not active aymore");
+    }
+    if (assets <= 0n) {
+      throw new Error("Amount > 0");
+    }
+    if (tranche === "junior") {
+      const shares = (assets * (this.juniorSupply + VIRTUAL_SHARES)) / (this.totalAssets() + 1n);
+      this.juniorSupply += shares;
+      this.juniorShares.set(investor, (this.juniorShares.get(investor) ?? 0n) + shares);
+      this.balance += assets;
+      return shares;
+    }
+    const shares = (assets * (this.seniorSupply + VIRTUAL_SHARES)) / (this.seniorTrancheAssets() + 1n);
+    this.seniorSupply += shares;
+    this.seniorShares.set(investor, (this.seniorShares.get(investor) ?? 0n) + shares);
+    this.seniorAssets += assets;
+    this.balance += assets;
+    return shares;
+  }
+
+  // buyPolicy; returns the premium paid
+  buyPolicy(farmer: number, amount: bigint): bigint {
+    if (this.season.phase !== "active") {
+      throw new Error("Not in active period");
+    }
+    if (amount <= 0n) {
+      throw new Error("Amount > 0");
+    }
+    if (!this.isBootstrapped()) {
+      throw new Error("Pool not bootstrapped");
+    }
+    if (amount > this.remainingCapacity()) {
+      throw new Error("Exceeds pool capacity");
+    }
+    const premium = this.quotePremium(amount);
+    this.balance += premium;
+    this.season.premiums += premium;
+    this.season.sold += amount;
+    this.season.holdings.set(farmer, this.holdings(farmer) + amount);
+    return premium;
+  }
+
+  // Coverage is over: fixes the outcome of the readings of the coverage window and opens claims
+  finalizeSeasonWeather(readings: number[]): bigint {
+    if (this.season.phase !== "active") {
+      throw new Error("Outcome already finalized");
+    }
+    this.season.outcomeBps = payoutBps(this.params.trigger, indexValue(this.params.trigger, readings));
+    this.season.phase = "claim";
+    return this.season.outcomeBps;
+  }
+
+  // claimPolicies; returns the registered policies
+  claimPolicies(farmer: number): bigint {
+    if (this.season.phase !== "claim") {
+      throw new Error("Not in claim period");
+    }
+    const amount = this.holdings(farmer);
+    if (amount === 0n) {
+      throw new Error("No policies to claim");
+    }
+    if (this.season.outcomeBps === 0n) {
+      throw new Error("Weather not bad enough");
+    }
+    this.season.holdings.delete(farmer);
+    this.season.registered.set(farmer, amount);
+    this.season.claimed += amount;
+    return amount;
+  }
+
+  // The claim window closes
+  closeClaims() {
+    if (this.season.phase !== "claim") {
+      throw new Error("Claim window still open");
+    }
+    this.season.phase = "withdraw";
+  }
+
+  private settleClaims() {
+    if (this.season.settled) {
+      return;
+    }
+    const fullPayout = this.claimablePayout();
+    const owed = this.unsettledClaims();
+    const available = this.balance - this.reservedPayouts;
+    this.season.payoutPerPolicy = owed <= available ? fullPayout : (fullPayout * available) / owed;
+    this.season.settled = true;
+    this.reservedPayouts += this.season.payoutPerPolicy * this.season.claimed;
+  }
+
+  // _settleEndedSeasons: settles the claims and applies the tranche waterfall once the claim window has closed
+  private settleSeason() {
+    if (this.season.phase !== "withdraw" || this.season.waterfallApplied) {
+      return;
+    }
+    this.settleClaims();
+    this.seniorAssets = min(this.seniorAssets + this.pendingSeniorYield(), this.poolAssets());
+    this.season.waterfallApplied = true;
+  }
+
+  // Payout per policy if the claims were settled now (projectedPayoutPerPolicy)
+  projectedPayoutPerPolicy(): bigint {
+    if (this.season.settled) {
+      return this.season.payoutPerPolicy;
+    }
+    const fullPayout = this.claimablePayout();
+    const owed = this.unsettledClaims();
+    const available = this.balance - this.reservedPayouts;
+    return owed <= available ? fullPayout : (fullPayout * available) / owed;
+  }
+
+  // withdrawClaim; returns the payout
+  withdrawClaim(farmer: number): bigint {
+    const amount = this.season.registered.get(farmer) ?? 0n;
+    if (amount === 0n) {
+      throw new Error("No claim to withdraw");
+    }
+    if (this.season.phase !== "withdraw") {
+      throw new Error("Claim window still open");
+    }
+    this.settleClaims();
+    const payout = this.season.payoutPerPolicy * amount;
+    this.season.registered.delete(farmer);
+    this.reservedPayouts -= payout;
+    this.balance -= payout;
+    return payout;
+  }
+
+  // redeemShares / SeniorTranche.redeem; returns the assets paid out. Only during WITHDRAW, when no liability is left.
+  redeem(investor: number, tranche: Tranche, shares: bigint): bigint {
+    if (this.season.phase !== "withdraw") {
+      throw new Error("Not in withdrawal period");
+    }
+    const holdings = tranche === "junior" ? this.juniorShares : this.seniorShares;
+    const owned = holdings.get(investor) ?? 0n;
+    if (shares > owned) {
+      throw new Error("ERC4626ExceededMaxRedeem");
+    }
+    let assets: bigint;
+    if (tranche === "junior") {
+      this.settleSeason();
+      assets = (shares * (this.totalAssets() + 1n)) / (this.juniorSupply + VIRTUAL_SHARES);
+      this.juniorSupply -= shares;
+    } else {
+      // The senior vault prices the redemption before the fund settles the season
+      assets = (shares * (this.seniorTrancheAssets() + 1n)) / (this.seniorSupply + VIRTUAL_SHARES);
+      this.settleSeason();
+      if (assets > this.seniorTrancheAssets()) {
+        throw new Error("Capital locked");
+      }
+      this.seniorAssets -= assets;
+      this.seniorSupply -= shares;
+    }
+    holdings.set(investor, owned - shares);
+    this.balance -= assets;
+    return assets;
+  }
+
+  // rollSeason once the claim window has closed: settles the ended season, opens the next one and pays the keeper
+  // out of the junior tranche; returns the keeper reward. The contract can roll during CLAIM already, but then two
+  // seasons overlap, which the model does not cover.
+  rollSeason(): bigint {
+    if (this.season.phase !== "withdraw") {
+      throw new Error("Claim window still open");
+    }
+    this.settleSeason();
+    this.season = newSeason();
+    const reward = min(this.params.keeperReward, this.totalAssets());
+    this.balance -= reward;
+    return reward;
+  }
+
+  snapshot(): FundSnapshot {
+    return {
+      policiesSold: this.season.sold,
+      premiums: this.season.premiums,
+      outcomeBps: this.season.outcomeBps ?? 0n,
+      payoutPerPolicy: this.projectedPayoutPerPolicy(),
+      balance: this.balance,
+      poolAssets: this.poolAssets(),
+      totalAssets: this.totalAssets(),
+      totalSupply: this.juniorSupply,
+      seniorTrancheAssets: this.seniorTrancheAssets(),
+      seniorSupply: this.seniorSupply,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+// Seeded pseudo-random numbers (mulberry32), so a path can be regenerated from the seed and its index alone
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Generator of the path with the given index; paths do not share a sequence, so one can be replayed on its own
+  static forPath(seed: number, index: number): Random {
+    return new Random(Math.imul(seed >>> 0, 0x9e3779b1) ^ Math.imul(index + 1, 0x85ebca6b));
+  }
+
+  // Uniform in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform integer in [min, max]
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
@@ -0,0 +1,214 @@
+import { MaxUint256, Signer } from "ethers";
+import type { MockUSDC, RainyDayFund, SeniorTranche } from "../../contract/typechain-types";
+import { MockUSDC__factory } from "../../contract/typechain-types/factories/contracts/MockUSDC__factory";
+import { MockWeatherOracle__factory } from "../../contract/typechain-types/factories/contracts/MockWeatherOracle__factory";
+import { RainyDayFund__factory } from "../../contract/typechain-types/factories/contracts/RainyDayFund__factory";
+import { SeasonPolicyToken__factory } from "../../contract/typechain-types/factories/contracts/SeasonPolicyToken__factory";
+import { SeniorTranche__factory } from "../../contract/typechain-types/factories/contracts/SeniorTranche__factory";
+import { BASIS_POINTS, FundSnapshot, Trigger } from "./model";
+import { SimulationConfig, planPath, runPath, trancheOf } from "./simulate";
+
+// What a replay needs from the Hardhat network it runs on
+export interface ReplayNetwork {
+  // The first account deploys and operates the fund, the farmers and then the investors follow
+  signers: Signer[];
+  // Deploys a compiled contract, linking the named libraries, and returns its address
+  deploy(contract: string, args?: unknown[], libraries?: Record<string, string>): Promise<string>;
+  // Mines a block at the timestamp
+  increaseTo(timestamp: bigint): Promise<void>;
+}
+
+export interface SeasonComparison {
+  season: number;
+  model: FundSnapshot;
+  chain: FundSnapshot;
+  // Snapshot fields in which the contract differs from the model
+  mismatches: (keyof FundSnapshot)[];
+}
+
+export interface ReplayResult {
+  index: number;
+  seasons: SeasonComparison[];
+  matches: boolean;
+}
+
+// The simulated region; region 0 keeps the constructor's default season and sells nothing
+const REGION = 1n;
+
+export function toContractTrigger(trigger: Trigger): RainyDayFund.SeasonTriggerStruct {
+  return {
+    direction: trigger.direction === "below" ? 0 : 1,
+    threshold: trigger.threshold,
+    indexType: ["latest", "sum", "average", "countBelow"].indexOf(trigger.indexType),
+    indexThreshold: trigger.indexThreshold,
+    tiers: trigger.tiers.map((tier) => ({ bound: tier.bound, payoutBps: tier.payoutBps })),
+  };
+}
+
+interface Deployment {
+  fund: RainyDayFund;
+  tranche: SeniorTranche;
+  usdc: MockUSDC;
+}
+
+// Deploys the production fund with its senior tranche and opens the simulated region with the configured
+// premium, trigger and fund parameters. Nobody has invested yet, so the timelocked changes apply right away.
+async function deployFund(network: ReplayNetwork, config: SimulationConfig): Promise<Deployment> {
+  const [operator, ...actors] = network.signers;
+  const { fund: params } = config;
+  const usdc = MockUSDC__factory.connect(await network.deploy("MockUSDC"), operator);
+  const defaultFeed = await network.deploy("MockWeatherOracle", [0]);
+  const simulatedFeed = await network.deploy("MockWeatherOracle", [0]);
+
+  const weatherFeedLib = await network.deploy("WeatherFeedLib");
+  const tokenDeployer = await network.deploy("SeasonPolicyTokenDeployer");
+  const libraries = {
+    WeatherFeedLib: weatherFeedLib,
+    SeasonLib: await network.deploy("SeasonLib", [], { WeatherFeedLib: weatherFeedLib, SeasonPolicyTokenDeployer: tokenDeployer }),
+    RegionLib: await network.deploy("RegionLib", [], { WeatherFeedLib: weatherFeedLib }),
+    CapitalLib: await network.deploy("CapitalLib"),
+    GovernanceLib: await network.deploy("GovernanceLib"),
+    PremiumPricing: await network.deploy("PremiumPricing"),
+  };
+  const fund = RainyDayFund__factory.connect(
+    await network.deploy("RainyDayFund", [await usdc.getAddress(), defaultFeed], libraries),
+    operator
+  );
+  const tranche = SeniorTranche__factory.connect(await network.deploy("SeniorTranche", [await fund.getAddress()]), operator);
+  await (await fund.setSeniorTranche(await tranche.getAddress())).wait();
+  await (await fund.addRegion("Simulated", simulatedFeed)).wait();
+  await (await fund.setCollateralizationRatio(params.collateralizationRatioBps)).wait();
+  await (await fund.setSeniorYield(params.seniorYieldBps)).wait();
+  await (await fund.setPayoutMultiple(params.payoutMultiple)).wait();
+
+  const trigger = toContractTrigger(params.trigger);
+  const { baseRateBps, kinkBps, slopeBps } = params.pricingCurve;
+  await (await fund.setPricingCurve(baseRateBps, kinkBps, slopeBps)).wait();
+  await (await fund.setKeeperReward(params.keeperReward)).wait();
+  await (await fund.openRegionSeason(REGION, params.premium, trigger)).wait();
+  await (await fund.queueSeason(REGION, params.premium, trigger)).wait();
+
+  for (const actor of actors) {
+    await (await usdc.connect(actor).approve(await fund.getAddress(), MaxUint256)).wait();
+    await (await usdc.connect(actor).approve(await tranche.getAddress(), MaxUint256)).wait();
+  }
+  return { fund, tranche, usdc };
+}
+
+async function chainSnapshot({ fund, tranche, usdc }: Deployment, seasonId: bigint): Promise<FundSnapshot> {
+  const policy = await fund.seasonPolicies(REGION, seasonId);
+  return {
+    policiesSold: policy.totalPoliciesSold,
+    premiums: await fund.seasonPremiums(seasonId),
+    outcomeBps: policy.outcomePayoutBps,
+    payoutPerPolicy: await fund.projectedPayoutPerPolicy(REGION, seasonId),
+    balance: await usdc.balanceOf(await fund.getAddress()),
+    poolAssets: await fund.poolAssets(),
+    totalAssets: await fund.totalAssets(),
+    totalSupply: await fund.totalSupply(),
+    seniorTrancheAssets: await fund.seniorTrancheAssets(),
+    seniorSupply: await tranche.totalSupply(),
+  };
+}
+
+// Runs a simulated path against a freshly deployed RainyDayFund and compares the fund's state after every season
+// with the model's. Drawn purchases and redemptions are resolved against the contract's own capacity and share
+// balances, so a model error shows up as a mismatch rather than being copied into the replay.
+export async function replayPath(network: ReplayNetwork, config: SimulationConfig, index: number): Promise<ReplayResult> {
+  const { flows } = config;
+  const accounts = 1 + flows.farmers + flows.juniorInvestors + flows.seniorInvestors;
+  if (network.signers.length < accounts) {
+    throw new Error(`Replaying needs ${accounts} accounts, the network has ${network.signers.length}`);
+  }
+  const farmers = network.signers.slice(1, 1 + flows.farmers);
+  const investors = network.signers.slice(1 + flows.farmers, accounts);
+
+  const plans = planPath(config, index);
+  const model = runPath(config, index, plans);
+  const deployment = await deployFund(network, config);
+  const { fund, tranche, usdc } = deployment;
+  const oracle = MockWeatherOracle__factory.connect((await fund.getWeatherFeeds(REGION))[0], network.signers[0]);
+  let roundId = await oracle.latestRound();
+
+  const advanceTo = async (timestamp: bigint) => {
+    if ((await fund.getCurrentTime()) < timestamp) {
+      await network.increaseTo(timestamp);
+    }
+  };
+
+  const seasons: SeasonComparison[] = [];
+  for (let season = 0; season < plans.length; season++) {
+    const plan = plans[season];
+    if (season > 0) {
+      await (await fund.rollSeason()).wait();
+    }
+    const seasonId = await fund.currentSeasonId();
+
+    for (const { investor, tranche: kind, assets } of plan.deposits) {
+      const signer = investors[investor];
+      await (await usdc.mint(await signer.getAddress(), assets)).wait();
+      const deposit = kind === "junior"
+        ? fund.connect(signer).invest(assets)
+        : tranche.connect(signer).deposit(assets, await signer.getAddress());
+      await (await deposit).wait();
+    }
+    for (const purchase of plan.purchases) {
+      if (!(await fund.isBootstrapped())) {
+        continue;
+      }
+      const capacity = await fund.remainingCapacity(REGION);
+      const policies = purchase.policies < capacity ? purchase.policies : capacity;
+      if (policies > 0n) {
+        const premium = await fund.quotePremium(REGION, policies);
+        const farmer = farmers[purchase.farmer];
+        await (await usdc.mint(await farmer.getAddress(), premium)).wait();
+        await (await fund.connect(farmer).buyPolicy(REGION, policies, premium)).wait();
+      }
+    }
+
+    // The readings are reported evenly over the coverage window; index seasons record every round
+    const seasonEnd = await fund.seasonOverTimeStamps(seasonId);
+    await advanceTo(seasonEnd);
+    const coverage = (await fund.seasonDurations(seasonId)).coverage;
+    for (let i = 0; i < plan.readings.length; i++) {
+      const timestamp = seasonEnd - coverage + (coverage * BigInt(i)) / BigInt(plan.readings.length);
+      roundId++;
+      await (await oracle.setRoundData(roundId, plan.readings[i], timestamp, timestamp, roundId)).wait();
+      if (config.fund.trigger.indexType !== "latest") {
+        await (await fund.recordObservation(REGION, seasonId, [roundId])).wait();
+      }
+    }
+    await (await fund.finalizeSeasonWeather(REGION, seasonId)).wait();
+    const policy = await fund.seasonPolicies(REGION, seasonId);
+    const policyToken = SeasonPolicyToken__factory.connect(policy.policyToken, network.signers[0]);
+    for (const farmer of plan.claims) {
+      if (policy.outcomePayoutBps > 0n && (await policyToken.balanceOf(await farmers[farmer].getAddress())) > 0n) {
+        await (await fund.connect(farmers[farmer]).claimPolicies(REGION, seasonId)).wait();
+      }
+    }
+
+    await advanceTo(await fund.claimWindowEnd(seasonId));
+    for (const farmer of plan.claims) {
+      if ((await fund.registeredClaims(REGION, seasonId, await farmers[farmer].getAddress())) > 0n) {
+        await (await fund.connect(farmers[farmer]).withdrawClaim(REGION, seasonId)).wait();
+      }
+    }
+    for (const { investor, fractionBps } of plan.redemptions) {
+      const signer = investors[investor];
+      const owner = await signer.getAddress();
+      const junior = trancheOf(flows, investor) === "junior";
+      const shares = ((junior ? await fund.balanceOf(owner) : await tranche.balanceOf(owner)) * fractionBps) / BASIS_POINTS;
+      if (shares > 0n) {
+        const redemption = junior ? fund.connect(signer).redeemShares(shares) : tranche.connect(signer).redeem(shares, owner, owner);
+        await (await redemption).wait();
+      }
+    }
+
+    const chain = await chainSnapshot(deployment, seasonId);
+    // The model's snapshot without the season's flow statistics
+    const { policiesWanted, payouts, haircut, keeperReward, ...expected } = model.seasons[season];
+    const mismatches = (Object.keys(chain) as (keyof FundSnapshot)[]).filter((key) => chain[key] !== expected[key]);
+    seasons.push({ season, model: expected, chain, mismatches });
+  }
+  return { index, seasons, matches: seasons.every((season) => season.mismatches.length === 0) };
+}
@@ -0,0 +1,47 @@
+import { formatUsdc } from "../../sdk/src/usdc";
+import { Trigger } from "./model";
+import { Distribution, SimulationReport } from "./simulate";
+
+const INDEX_NAMES = { latest: "latest reading", sum: "sum of readings", average: "average reading" };
+
+export function describeTrigger(trigger: Trigger): string {
+  const index = trigger.indexType === "countBelow"
+    ? `number of readings below ${trigger.indexThreshold}`
+    : INDEX_NAMES[trigger.indexType];
+  const tiers = trigger.tiers.map((tier) => `${tier.payoutBps / 100}% ${trigger.direction} ${tier.bound}`).join(", ");
+  return `${index} ${trigger.direction} ${trigger.threshold}${tiers ? ` (tiers: ${tiers})` : ""}`;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDistribution(values: Distribution, format: (value: number) => string): string {
+  return [
+    `mean ${format(values.mean)}`,
+    `p5 ${format(values.p5)}`,
+    `p25 ${format(values.p25)}`,
+    `median ${format(values.p50)}`,
+    `p75 ${format(values.p75)}`,
+    `p95 ${format(values.p95)}`,
+  ].join("  ");
+}
+
+// Plain-text summary of a simulation, one line per figure
+export function formatReport(report: SimulationReport): string[] {
+  const { fund, seed } = report.config;
+  const ratio = (value: number) => value.toFixed(2);
+  return [
+    `${report.paths} paths of ${report.config.seasonsPerPath} seasons (seed ${seed})`,
+    `Trigger:             ${describeTrigger(fund.trigger)}`,
+    `Premium:             ${formatUsdc(fund.premium)} USDC for a payout of ${formatUsdc(fund.premium * fund.payoutMultiple)} USDC`,
+    `Payout seasons:      ${percent(report.payoutFrequency)}`,
+    `Loss ratio:          ${ratio(report.aggregateLossRatio)} overall; per path ${formatDistribution(report.lossRatio, ratio)}`,
+    `Probability of ruin: ${percent(report.ruinProbability)} of paths could not pay a season's claims in full`,
+    `Senior tranche loss: ${percent(report.seniorLossProbability)} of paths`,
+    `Junior return:       ${formatDistribution(report.juniorReturn, percent)}`,
+    `Senior return:       ${formatDistribution(report.seniorReturn, percent)}`,
+    `Policies per season: ${report.policiesPerSeason.toFixed(1)} (${percent(report.demandFilled)} of demand filled)`,
+    `Worst paths:         ${report.worstPaths.join(", ")}`,
+  ];
+}
@@ -0,0 +1,298 @@
+import { BASIS_POINTS, FundModel, FundParameters, FundSnapshot, Tranche } from "./model";
+import { Random } from "./random";
+
+// How farmers and investors behave each season. Amounts are in USDC base units.
+export interface FlowParameters {
+  farmers: number;
+  // Chance that a farmer tries to buy in a season, and the most policies one purchase asks for
+  purchaseProbability: number;
+  maxPolicies: number;
+  // Chance that a farmer with triggered policies registers them before the claim window closes
+  claimProbability: number;
+  juniorInvestors: number;
+  seniorInvestors: number;
+  // Deposited by the first junior and senior investor before the first season's sales
+  initialJuniorCapital: bigint;
+  initialSeniorCapital: bigint;
+  // Chance that an investor deposits in a season, and the largest deposit
+  depositProbability: number;
+  maxDeposit: bigint;
+  // Chance that an investor redeems part of their shares after a season
+  redeemProbability: number;
+}
+
+export const DEFAULT_FLOW_PARAMETERS: FlowParameters = {
+  farmers: 5,
+  purchaseProbability: 0.6,
+  maxPolicies: 20,
+  claimProbability: 0.95,
+  juniorInvestors: 3,
+  seniorInvestors: 1,
+  initialJuniorCapital: 1_000_000_000n,
+  initialSeniorCapital: 500_000_000n,
+  depositProbability: 0.3,
+  maxDeposit: 500_000_000n,
+  redeemProbability: 0.2,
+};
+
+export interface SimulationConfig {
+  fund: FundParameters;
+  flows: FlowParameters;
+  // Historical seasons to draw the weather from, each the readings of one coverage window
+  weather: number[][];
+  seasonsPerPath: number;
+  paths: number;
+  seed: number;
+}
+
+// Investors are numbered junior first, then senior
+export interface Deposit {
+  investor: number;
+  tranche: Tranche;
+  assets: bigint;
+}
+
+export interface Redemption {
+  investor: number;
+  tranche: Tranche;
+  // Share of the investor's shares redeemed
+  fractionBps: bigint;
+}
+
+// The random draws of one season. Purchases are cut to the pool's capacity and redemptions sized by the shares
+// held when the season is run, so the model and the contract each resolve them against their own state.
+export interface SeasonPlan {
+  historicalSeason: number;
+  readings: number[];
+  deposits: Deposit[];
+  purchases: { farmer: number; policies: bigint }[];
+  // Farmers who register their policies if the outcome pays
+  claims: number[];
+  redemptions: Redemption[];
+}
+
+export interface SeasonResult extends FundSnapshot {
+  policiesWanted: bigint;
+  payouts: bigint;
+  // The pool could not pay every registered claim in full
+  haircut: boolean;
+  keeperReward: bigint;
+}
+
+export interface PathResult {
+  index: number;
+  seasons: SeasonResult[];
+  premiums: bigint;
+  payouts: bigint;
+  // Payouts over premiums
+  lossRatio: number;
+  ruined: boolean;
+  // What each tranche's investors got back over the path, redemptions plus the tranche's assets at the end,
+  // relative to what they deposited
+  juniorReturn: number;
+  seniorReturn: number;
+}
+
+export function trancheOf(flows: FlowParameters, investor: number): Tranche {
+  return investor < flows.juniorInvestors ? "junior" : "senior";
+}
+
+// Draws the seasons of a path. The same seed and index always give the same plan.
+export function planPath(config: SimulationConfig, index: number): SeasonPlan[] {
+  const { flows } = config;
+  const random = Random.forPath(config.seed, index);
+  const investors = flows.juniorInvestors + flows.seniorInvestors;
+  const plans: SeasonPlan[] = [];
+
+  for (let season = 0; season < config.seasonsPerPath; season++) {
+    const historicalSeason = random.int(0, config.weather.length - 1);
+    const plan: SeasonPlan = {
+      historicalSeason,
+      readings: config.weather[historicalSeason],
+      deposits: [],
+      purchases: [],
+      claims: [],
+      redemptions: [],
+    };
+    if (season === 0) {
+      if (flows.juniorInvestors > 0 && flows.initialJuniorCapital > 0n) {
+        plan.deposits.push({ investor: 0, tranche: "junior", assets: flows.initialJuniorCapital });
+      }
+      if (flows.seniorInvestors > 0 && flows.initialSeniorCapital > 0n) {
+        plan.deposits.push({ investor: flows.juniorInvestors, tranche: "senior", assets: flows.initialSeniorCapital });
+      }
+    }
+    for (let investor = 0; investor < investors; investor++) {
+      if (random.chance(flows.depositProbability)) {
+        // Whole USDC amounts from 1% of the largest deposit up to it
+        const largest = Number(flows.maxDeposit / 1_000_000n);
+        const assets = BigInt(random.int(Math.max(1, Math.floor(largest / 100)), Math.max(1, largest))) * 1_000_000n;
+        plan.deposits.push({ investor, tranche: trancheOf(flows, investor), assets });
+      }
+    }
+    for (let farmer = 0; farmer < flows.farmers; farmer++) {
+      if (random.chance(flows.purchaseProbability)) {
+        plan.purchases.push({ farmer, policies: BigInt(random.int(1, flows.maxPolicies)) });
+      }
+      if (random.chance(flows.claimProbability)) {
+        plan.claims.push(farmer);
+      }
+    }
+    for (let investor = 0; investor < investors; investor++) {
+      if (random.chance(flows.redeemProbability)) {
+        const fractionBps = BigInt(random.int(1, 10)) * 1_000n;
+        plan.redemptions.push({ investor, tranche: trancheOf(flows, investor), fractionBps });
+      }
+    }
+    plans.push(plan);
+  }
+  return plans;
+}
+
+// Runs a path through the model, season by season in the order the replay drives the contract
+export function runPath(config: SimulationConfig, index: number, plans = planPath(config, index)): PathResult {
+  const model = new FundModel(config.fund);
+  const seasons: SeasonResult[] = [];
+  const deposited = { junior: 0n, senior: 0n };
+  const redeemed = { junior: 0n, senior: 0n };
+  let keeperReward = 0n;
+
+  plans.forEach((plan, season) => {
+    if (season > 0) {
+      keeperReward = model.rollSeason();
+    }
+    for (const deposit of plan.deposits) {
+      model.deposit(deposit.investor, deposit.tranche, deposit.assets);
+      deposited[deposit.tranche] += deposit.assets;
+    }
+    let policiesWanted = 0n;
+    for (const purchase of plan.purchases) {
+      policiesWanted += purchase.policies;
+      const policies = model.isBootstrapped() ? min(purchase.policies, model.remainingCapacity()) : 0n;
+      if (policies > 0n) {
+        model.buyPolicy(purchase.farmer, policies);
+      }
+    }
+
+    const outcomeBps = model.finalizeSeasonWeather(plan.readings);
+    const claimants = plan.claims.filter((farmer) => outcomeBps > 0n && model.holdings(farmer) > 0n);
+    for (const farmer of claimants) {
+      model.claimPolicies(farmer);
+    }
+
+    model.closeClaims();
+    let payouts = 0n;
+    for (const farmer of claimants) {
+      payouts += model.withdrawClaim(farmer);
+    }
+    for (const redemption of plan.redemptions) {
+      const shares = (model.sharesOf(redemption.investor, redemption.tranche) * redemption.fractionBps) / BASIS_POINTS;
+      if (shares > 0n) {
+        redeemed[redemption.tranche] += model.redeem(redemption.investor, redemption.tranche, shares);
+      }
+    }
+
+    const snapshot = model.snapshot();
+    seasons.push({
+      ...snapshot,
+      policiesWanted,
+      payouts,
+      haircut: claimants.length > 0 && snapshot.payoutPerPolicy < model.claimablePayout(),
+      keeperReward,
+    });
+  });
+
+  const premiums = seasons.reduce((sum, season) => sum + season.premiums, 0n);
+  const payouts = seasons.reduce((sum, season) => sum + season.payouts, 0n);
+  return {
+    index,
+    seasons,
+    premiums,
+    payouts,
+    lossRatio: premiums === 0n ? 0 : Number(payouts) / Number(premiums),
+    ruined: seasons.some((season) => season.haircut),
+    juniorReturn: trancheReturn(deposited.junior, redeemed.junior + model.totalAssets()),
+    seniorReturn: trancheReturn(deposited.senior, redeemed.senior + model.seniorTrancheAssets()),
+  };
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function trancheReturn(deposited: bigint, returned: bigint): number {
+  return deposited === 0n ? 0 : Number(returned) / Number(deposited) - 1;
+}
+
+export interface Distribution {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationReport {
+  config: SimulationConfig;
+  paths: number;
+  seasons: number;
+  // Share of seasons whose outcome paid out
+  payoutFrequency: number;
+  // Total payouts over total premiums across all paths, and the distribution of the per-path ratio
+  aggregateLossRatio: number;
+  lossRatio: Distribution;
+  // Share of paths in which the pool could not pay a season's claims in full
+  ruinProbability: number;
+  // Share of paths in which senior investors got back less than they deposited
+  seniorLossProbability: number;
+  juniorReturn: Distribution;
+  seniorReturn: Distribution;
+  // Policies sold per season, and the share of the policies farmers asked for that the pool could sell
+  policiesPerSeason: number;
+  demandFilled: number;
+  // Highest loss ratios first, the candidates for a replay
+  worstPaths: number[];
+}
+
+export function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => (sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]);
+  const mean = sorted.length === 0 ? 0 : sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  return { mean, p5: at(0.05), p25: at(0.25), p50: at(0.5), p75: at(0.75), p95: at(0.95) };
+}
+
+export function simulate(config: SimulationConfig): SimulationReport {
+  if (config.weather.length === 0) {
+    throw new Error("No historical seasons to draw the weather from");
+  }
+  const results: PathResult[] = [];
+  for (let index = 0; index < config.paths; index++) {
+    results.push(runPath(config, index));
+  }
+
+  const seasons = results.flatMap((result) => result.seasons);
+  const premiums = results.reduce((sum, result) => sum + result.premiums, 0n);
+  const payouts = results.reduce((sum, result) => sum + result.payouts, 0n);
+  const sold = seasons.reduce((sum, season) => sum + season.policiesSold, 0n);
+  const wanted = seasons.reduce((sum, season) => sum + season.policiesWanted, 0n);
+  const share = (count: number, total: number) => (total === 0 ? 0 : count / total);
+  return {
+    config,
+    paths: results.length,
+    seasons: seasons.length,
+    payoutFrequency: share(seasons.filter((season) => season.outcomeBps > 0n).length, seasons.length),
+    aggregateLossRatio: premiums === 0n ? 0 : Number(payouts) / Number(premiums),
+    lossRatio: distribution(results.map((result) => result.lossRatio)),
+    ruinProbability: share(results.filter((result) => result.ruined).length, results.length),
+    seniorLossProbability: share(results.filter((result) => result.seniorReturn < 0).length, results.length),
+    juniorReturn: distribution(results.map((result) => result.juniorReturn)),
+    seniorReturn: distribution(results.map((result) => result.seniorReturn)),
+    policiesPerSeason: share(Number(sold), seasons.length),
+    demandFilled: wanted === 0n ? 1 : Number(sold) / Number(wanted),
+    worstPaths: [...results]
+      .sort((a, b) => b.lossRatio - a.lossRatio || a.index - b.index)
+      .slice(0, 5)
+      .map((result) => result.index),
+  };
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+
+export interface WeatherSeries {
+  // Label of each reading, usually its date
+  labels: string[];
+  // Readings as the oracle would report them: integers in the feed's unit
+  readings: number[];
+}
+
+export interface WeatherCsvOptions {
+  // Header of the value column; defaults to the second column
+  column?: string;
+  // Factor applied before rounding, e.g. 10 to report millimetres of rain in tenths
+  scale?: number;
+}
+
+// Reads a weather series from a CSV file with a header row and one reading per line, oldest first:
+//   date,rainfall
+//   2024-03-01,12.5
+export function loadWeatherCsv(file: string, options: WeatherCsvOptions = {}): WeatherSeries {
+  return parseWeatherCsv(fs.readFileSync(file, "utf8"), options, file);
+}
+
+export function parseWeatherCsv(text: string, options: WeatherCsvOptions = {}, source = "CSV"): WeatherSeries {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+  if (lines.length < 2) {
+    throw new Error(`${source} has no readings`);
+  }
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  const column = options.column === undefined ? 1 : header.indexOf(options.column);
+  if (column < 0 || column >= header.length) {
+    throw new Error(`${source} has no column ${options.column ?? 2}`);
+  }
+  const scale = options.scale ?? 1;
+
+  const series: WeatherSeries = { labels: [], readings: [] };
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const value = Number(cells[column]);
+    if (cells[column] === undefined || cells[column] === "" || !Number.isFinite(value)) {
+      throw new Error(`${source} line ${i + 2}: invalid reading "${cells[column] ?? ""}"`);
+    }
+    series.labels.push(cells[0]);
+    series.readings.push(Math.round(value * scale));
+  });
+  return series;
+}
+
+// Splits the series into consecutive historical seasons of `length` readings each, dropping an incomplete last one.
+// A simulated season replays the readings of one of them over its coverage window.
+export function historicalSeasons(series: WeatherSeries, length: number): number[][] {
+  if (!Number.isInteger(length) || length < 1) {
+    throw new Error("Season length must be a positive number of readings");
+  }
+  const seasons: number[][] = [];
+  for (let start = 0; start + length <= series.readings.length; start += length) {
+    seasons.push(series.readings.slice(start, start + length));
+  }
+  if (seasons.length === 0) {
+    throw new Error(`The series has ${series.readings.length} readings, fewer than one season of ${length}`);
+  }
+  return seasons;
+}
@@ -9,9 +9,13 @@ const hardhat = spawn("npx", ["hardhat", "node"], {
   cwd: "contract",
   shell: true,
 });
+let indexer = null;
 process.on("SIGINT", () => {
   console.log("\n Stopping Hardhat node...");
   hardhat.kill("SIGTERM");
+  if (indexer) {
+    indexer.kill("SIGTERM");
+  }
   process.exit();
 });
 setTimeout(() => {
@@ -36,7 +40,27 @@ setTimeout(() => {
     } catch (error) {
       console.error("Failed to copy deployment-info.json:", error.message);
     }
-    console.log("Starting frontend...");
-    run("npm", ["start"], { cwd: "client" });
+    // The frontend talks to the contracts through the SDK, which is built from the fresh typechain bindings
+    console.log("Building SDK...");
+    const build = run("npm", ["run", "build"], { cwd: "sdk" });
+    build.on("close", (code) => {
+      if (code !== 0) {
+        console.error(`SDK build failed with exit code ${code}`);
+        process.exit(code);
+      }
+      // The indexer serves the activity feeds of the frontend
+      console.log("Building indexer...");
+      const indexerBuild = run("npm", ["run", "build"], { cwd: "indexer" });
+      indexerBuild.on("close", (code) => {
+        if (code !== 0) {
+          console.error(`Indexer build failed with exit code ${code}`);
+          process.exit(code);
+        }
+        console.log("Starting indexer...");
+        indexer = run("npm", ["start"], { cwd: "indexer" });
+        console.log("Starting frontend...");
+        run("npm", ["start"], { cwd: "client" });
+      });
+    });
   });
 }, 5000);